@@ -0,0 +1,230 @@
+import {
+  deleteTest,
+  journalLedger,
+  reconcileUploadJournal,
+  reviseTest,
+  rollbackUpload,
+  setTestArchived,
+  updateExistingQuestions,
+  uploadBulkData,
+  type UploadProgress,
+} from "@/lib/database";
+import { createSupabaseImageStorage } from "@/lib/image-storage";
+import { createSupabaseRepository } from "@/lib/repository";
+import { createServiceRoleClient, requestUserId } from "@/lib/supabase-server";
+import { createSupabaseUploadJobStore } from "@/lib/upload-jobs";
+import { journalUpdate } from "@/lib/upload-journal";
+import {
+  pickUploadRequestFields,
+  uploadRequestErrors,
+  type UploadEvent,
+  type UploadRequest,
+} from "@/lib/upload-request";
+
+// Uploads can outlast the default function timeout on hosted deployments
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+const encoder = new TextEncoder();
+
+// One server-sent event per message, with the payload as JSON
+function formatEvent(event: UploadEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+// The host of an Origin header; null for "null" (sandboxed or file pages)
+// and anything else that is not a URL
+function originHost(origin: string): string | null {
+  try {
+    return new URL(origin).host;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs an upload, in-place update, test revision, rollback, or test archive
+ * or delete with the service-role key and streams its progress back as
+ * server-sent events, so the browser never needs write access to the tables.
+ * Every action requires a signed-in Supabase user.
+ */
+export async function POST(request: Request) {
+  // Browsers always send Origin on POST; refuse requests made from other sites
+  const origin = request.headers.get("origin");
+  if (origin && originHost(origin) !== request.headers.get("host")) {
+    return Response.json(
+      { errors: ["Cross-origin uploads are not allowed"] },
+      { status: 403 }
+    );
+  }
+
+  let client: ReturnType<typeof createServiceRoleClient>;
+  try {
+    client = createServiceRoleClient();
+  } catch (error) {
+    console.error("Error creating service-role client:", error);
+    return Response.json(
+      { errors: [error instanceof Error ? error.message : String(error)] },
+      { status: 500 }
+    );
+  }
+
+  const userId = await requestUserId(request, client);
+  if (!userId) {
+    return Response.json(
+      { errors: ["Sign in to make changes to the database"] },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { errors: ["Request body must be JSON"] },
+      { status: 400 }
+    );
+  }
+
+  const errors = uploadRequestErrors(body);
+  if (errors.length > 0) {
+    return Response.json({ errors }, { status: 400 });
+  }
+
+  const uploadRequest = pickUploadRequestFields(body as UploadRequest);
+  const repository = createSupabaseRepository(client);
+  const imageStorage = createSupabaseImageStorage(client);
+  const uploadJobs = createSupabaseUploadJobStore(client);
+
+  // An interrupted run of this user's that the server recorded
+  const interruptedUpload = async (journalId: string) => {
+    const journal = await uploadJobs.find(journalId, userId);
+    if (journal?.status !== "in_progress") {
+      throw new Error(`No interrupted upload with id ${journalId}`);
+    }
+    return reconcileUploadJournal(journal, { repository });
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: UploadEvent) =>
+        controller.enqueue(formatEvent(event));
+      const onProgress = (progress: UploadProgress) =>
+        send({ type: "progress", progress });
+
+      try {
+        switch (uploadRequest.action) {
+          case "create":
+          case "resume": {
+            const journal =
+              uploadRequest.action === "create"
+                ? await uploadJobs.create(
+                    uploadRequest.test,
+                    uploadRequest.modules,
+                    userId
+                  )
+                : await interruptedUpload(uploadRequest.journalId);
+            let announced = false;
+            const result = await uploadBulkData(
+              journal.modules,
+              journal.test,
+              onProgress,
+              {
+                repository,
+                imageStorage,
+                journal,
+                onJournal: async (updated) => {
+                  const update = journalUpdate(updated);
+                  await uploadJobs.saveProgress(update);
+                  if (announced) {
+                    send({ type: "journal_progress", update });
+                  } else {
+                    send({ type: "journal", journal: updated });
+                    announced = true;
+                  }
+                },
+              }
+            );
+            send({ type: "complete", result });
+            break;
+          }
+
+          case "update": {
+            const result = await updateExistingQuestions(
+              uploadRequest.questions,
+              onProgress,
+              { repository, imageStorage }
+            );
+            send({ type: "complete", result });
+            break;
+          }
+
+          case "revise": {
+            const result = await reviseTest(
+              uploadRequest.testId,
+              uploadRequest.sections,
+              uploadRequest.changeIds,
+              onProgress,
+              { repository, imageStorage }
+            );
+            send({ type: "complete", result });
+            break;
+          }
+
+          case "discard": {
+            const journal = await interruptedUpload(uploadRequest.journalId);
+            const result = await rollbackUpload(
+              journalLedger(journal),
+              onProgress,
+              { repository }
+            );
+            if (result.failures.length === 0) {
+              await uploadJobs.saveProgress({
+                ...journalUpdate(journal),
+                status: "rolled_back",
+                updated_at: new Date().toISOString(),
+              });
+            }
+            send({ type: "complete", result });
+            break;
+          }
+
+          case "archive": {
+            await setTestArchived(
+              uploadRequest.testId,
+              uploadRequest.is_archived,
+              { repository }
+            );
+            send({ type: "complete", result: null });
+            break;
+          }
+
+          case "delete": {
+            const result = await deleteTest(uploadRequest.testId, {
+              repository,
+              deleteOrphanedQuestions: uploadRequest.deleteOrphanedQuestions,
+            });
+            send({ type: "complete", result });
+            break;
+          }
+        }
+      } catch (error) {
+        send({
+          type: "error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
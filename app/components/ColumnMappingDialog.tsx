@@ -0,0 +1,265 @@
+import { useState } from "react";
+import {
+  PARSED_QUESTION_FIELDS,
+  analyzeColumnAssignments,
+  type ColumnAssignments,
+  type ParsedQuestionField,
+} from "@/lib/excel-parser";
+import {
+  applyMappingProfile,
+  deleteMappingProfile,
+  loadMappingProfiles,
+  type ColumnMappingProfile,
+} from "@/lib/mapping-profiles";
+
+type ColumnMappingDialogProps = {
+  /**
+   * Name of the workbook being mapped
+   */
+  fileName: string;
+  /**
+   * Detected headers with a sample value from the first data row
+   */
+  columns: { header: string; sample: string }[];
+  /**
+   * Assignments suggested from the built-in aliases or a saved profile
+   */
+  initialAssignments: ColumnAssignments;
+  /**
+   * Called with the final assignments and, if requested, a profile name to save them under
+   */
+  onConfirm: (assignments: ColumnAssignments, profileName?: string) => void;
+  /**
+   * Called when the workbook is dismissed without parsing
+   */
+  onCancel: () => void;
+};
+
+const fieldLabel = (field: ParsedQuestionField): string =>
+  PARSED_QUESTION_FIELDS.find((f) => f.field === field)?.label ?? field;
+
+const quoteHeaders = (headers: string[]): string =>
+  headers.map((header) => `“${header}”`).join(", ");
+
+/**
+ * Shows the headers detected in a workbook and lets the user assign each one
+ * to a question field, calling out unmapped and ambiguous headers before
+ * parsing continues. Mappings can be saved as named profiles.
+ * @param fileName - Name of the workbook being mapped
+ * @param columns - Detected headers with sample values
+ * @param initialAssignments - Suggested header assignments
+ * @param onConfirm - Called with the final assignments and optional profile name
+ * @param onCancel - Called when the workbook is dismissed
+ */
+export default function ColumnMappingDialog({
+  fileName,
+  columns,
+  initialAssignments,
+  onConfirm,
+  onCancel,
+}: ColumnMappingDialogProps) {
+  const [assignments, setAssignments] =
+    useState<ColumnAssignments>(initialAssignments);
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>(() =>
+    loadMappingProfiles()
+  );
+  const [profileName, setProfileName] = useState("");
+
+  const headers = columns.map((c) => c.header).filter(Boolean);
+  const analysis = analyzeColumnAssignments(assignments);
+  const ambiguousHeaders = new Set(
+    analysis.ambiguousFields.flatMap((a) => a.headers)
+  );
+  const canConfirm =
+    analysis.ambiguousFields.length === 0 &&
+    analysis.missingRequired.length === 0;
+
+  const handleAssign = (header: string, value: string) => {
+    setAssignments({
+      ...assignments,
+      [header]: value === "" ? null : (value as ParsedQuestionField | "ignore"),
+    });
+  };
+
+  const handleApplyProfile = (name: string) => {
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) return;
+    setAssignments(applyMappingProfile(headers, profile));
+    setProfileName(profile.name);
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    deleteMappingProfile(name);
+    setProfiles(loadMappingProfiles());
+    if (profileName === name) setProfileName("");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 bg-opacity-30 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-gray-900">
+            Map Columns for {fileName}
+          </h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-500 hover:text-gray-700 text-2xl font-bold cursor-pointer"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {profiles.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-1">
+                Saved Profiles
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {profiles.map((profile) => (
+                  <div
+                    key={profile.name}
+                    className="flex items-center border border-gray-300 rounded-lg overflow-hidden text-sm"
+                  >
+                    <button
+                      onClick={() => handleApplyProfile(profile.name)}
+                      className="px-3 py-1 text-gray-900 hover:bg-gray-100 cursor-pointer"
+                    >
+                      {profile.name}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteProfile(profile.name)}
+                      className="px-2 py-1 text-red-600 hover:bg-red-50 border-l border-gray-300 cursor-pointer"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(analysis.unmappedHeaders.length > 0 ||
+            analysis.ambiguousFields.length > 0 ||
+            analysis.missingRequired.length > 0) && (
+            <div className="space-y-2">
+              {analysis.missingRequired.map((field) => (
+                <div
+                  key={field}
+                  className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800"
+                >
+                  No column is mapped to {fieldLabel(field)}, which is required.
+                </div>
+              ))}
+              {analysis.ambiguousFields.map(({ field, headers }) => (
+                <div
+                  key={field}
+                  className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800"
+                >
+                  {fieldLabel(field)} is mapped from more than one column:{" "}
+                  {quoteHeaders(headers)}. Keep one and ignore the others.
+                </div>
+              ))}
+              {analysis.unmappedHeaders.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  {`Unrecognized columns: ${quoteHeaders(
+                    analysis.unmappedHeaders
+                  )}. They will be ignored unless you map them.`}
+                </div>
+              )}
+            </div>
+          )}
+
+          <table className="min-w-full border border-gray-900 text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-4 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+                  Column
+                </th>
+                <th className="px-4 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+                  Sample Value
+                </th>
+                <th className="px-4 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+                  Maps To
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns
+                .filter((column) => column.header)
+                .map(({ header, sample }) => (
+                  <tr
+                    key={header}
+                    className={
+                      ambiguousHeaders.has(header)
+                        ? "bg-red-50"
+                        : assignments[header] === null
+                        ? "bg-yellow-50"
+                        : ""
+                    }
+                  >
+                    <td className="px-4 py-2 border border-gray-900 text-gray-900 font-mono">
+                      {header}
+                    </td>
+                    <td className="px-4 py-2 border border-gray-900 text-gray-800 max-w-xs truncate">
+                      {sample}
+                    </td>
+                    <td className="px-4 py-2 border border-gray-900">
+                      <select
+                        value={assignments[header] ?? ""}
+                        onChange={(e) => handleAssign(header, e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-gray-900"
+                      >
+                        <option value="">— Not mapped —</option>
+                        <option value="ignore">Ignore this column</option>
+                        {PARSED_QUESTION_FIELDS.map(({ field, label }) => (
+                          <option key={field} value={field}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Save as Profile
+            </label>
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="e.g., Vendor X export (leave blank to skip)"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+            />
+            <p className="text-xs text-gray-700 mt-1">
+              Saved profiles are picked automatically for files with the same
+              columns.
+            </p>
+          </div>
+        </div>
+
+        <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-gray-100 text-gray-900 rounded-lg hover:bg-gray-200 transition font-medium cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() =>
+              onConfirm(assignments, profileName.trim() || undefined)
+            }
+            disabled={!canConfirm}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import QuestionComparison from "@/app/components/QuestionComparison";
+import type { ConflictResolution, QuestionConflict } from "@/lib/duplicates";
+import { diffQuestions } from "@/lib/question-diff";
+
+type ConflictResolutionPanelProps = {
+  /**
+   * Incoming questions whose reference_id is already in the question bank
+   */
+  conflicts: QuestionConflict[];
+  /**
+   * The resolution picked so far for each conflict, keyed by reference_id
+   */
+  resolutions: Record<string, ConflictResolution>;
+  /**
+   * Called when a resolution is picked for one conflict
+   */
+  onResolve: (referenceId: string, resolution: ConflictResolution) => void;
+  /**
+   * Called when one resolution is applied to every conflict
+   */
+  onResolveAll: (resolution: ConflictResolution) => void;
+  /**
+   * Whether the choices can be changed
+   */
+  disabled?: boolean;
+};
+
+const RESOLUTION_OPTIONS: {
+  value: ConflictResolution;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "reuse",
+    label: "Reuse existing",
+    description: "Link the stored question to this test",
+  },
+  {
+    value: "create",
+    label: "Create new",
+    description: "Insert the spreadsheet version as another question",
+  },
+  {
+    value: "skip",
+    label: "Skip",
+    description: "Leave this question out of the test",
+  },
+];
+
+/**
+ * Lists questions that already exist in the bank, shows the stored and
+ * incoming versions side by side, and asks what to do with each one.
+ * @param conflicts - Incoming questions that match stored reference_ids
+ * @param resolutions - Resolutions picked so far, keyed by reference_id
+ * @param onResolve - Called when a resolution is picked for one conflict
+ * @param onResolveAll - Called when one resolution is applied to every conflict
+ * @param disabled - Whether the choices can be changed
+ */
+export default function ConflictResolutionPanel({
+  conflicts,
+  resolutions,
+  onResolve,
+  onResolveAll,
+  disabled = false,
+}: ConflictResolutionPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const unresolved = conflicts.filter(
+    (conflict) => !resolutions[conflict.reference_id]
+  ).length;
+
+  return (
+    <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <p className="text-sm font-semibold text-orange-900">
+          {conflicts.length} question{conflicts.length === 1 ? "" : "s"} already
+          in the question bank
+          {unresolved > 0 && ` — choose what to do with ${unresolved} more`}
+        </p>
+        <div className="flex gap-2">
+          {RESOLUTION_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onResolveAll(value)}
+              disabled={disabled}
+              className="px-3 py-1 text-xs bg-white border border-orange-300 text-orange-900 rounded hover:bg-orange-100 transition cursor-pointer disabled:opacity-50"
+            >
+              {label} for all
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+        {conflicts.map((conflict) => {
+          const [stored] = conflict.existing;
+          const changes = diffQuestions(stored, conflict.incoming);
+
+          return (
+            <div
+              key={conflict.reference_id}
+              className="bg-white border border-orange-200 rounded-lg"
+            >
+              <div className="flex flex-wrap items-center gap-3 px-3 py-2">
+                <button
+                  onClick={() =>
+                    setExpanded(
+                      expanded === conflict.reference_id
+                        ? null
+                        : conflict.reference_id
+                    )
+                  }
+                  className="text-xs text-blue-700 hover:underline cursor-pointer"
+                >
+                  {expanded === conflict.reference_id ? "Hide" : "Compare"}
+                </button>
+                <span className="font-mono font-semibold text-gray-900">
+                  {conflict.reference_id}
+                </span>
+                <span className="text-xs text-gray-700">
+                  {changes.length === 0
+                    ? "identical to the stored question"
+                    : `differs in ${changes
+                        .map((change) => change.label.toLowerCase())
+                        .join(", ")}`}
+                  {conflict.existing.length > 1 &&
+                    ` · ${conflict.existing.length} stored copies`}
+                </span>
+                <span className="ml-auto flex gap-3">
+                  {RESOLUTION_OPTIONS.map(({ value, label, description }) => (
+                    <label
+                      key={value}
+                      title={description}
+                      className="flex items-center gap-1 text-sm text-gray-900 cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name={`conflict-${conflict.reference_id}`}
+                        checked={resolutions[conflict.reference_id] === value}
+                        onChange={() => onResolve(conflict.reference_id, value)}
+                        disabled={disabled}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </span>
+              </div>
+              {expanded === conflict.reference_id && (
+                <div className="px-3 pb-3 overflow-x-auto">
+                  {conflict.existing.length > 1 && (
+                    <p className="text-xs text-gray-700 mb-2">
+                      Showing the first stored copy (
+                      <span className="font-mono">{stored.question_id}</span>),
+                      which is the one reused.
+                    </p>
+                  )}
+                  <QuestionComparison
+                    before={stored}
+                    after={conflict.incoming}
+                    labels={["Stored", "Spreadsheet"]}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
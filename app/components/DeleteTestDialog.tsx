@@ -0,0 +1,82 @@
+import { useState } from "react";
+import type { TestSummary } from "@/lib/database";
+
+type DeleteTestDialogProps = {
+  /**
+   * The test to delete
+   */
+  summary: TestSummary;
+  /**
+   * Called once the deletion is confirmed
+   */
+  onConfirm: (deleteOrphanedQuestions: boolean) => void;
+  /**
+   * Called when the dialog is dismissed without deleting
+   */
+  onCancel: () => void;
+  /**
+   * Whether the deletion is running
+   */
+  isDeleting?: boolean;
+};
+
+/**
+ * Asks for confirmation before a test and its question links are deleted,
+ * optionally with the questions no other test uses.
+ * @param summary - The test to delete
+ * @param onConfirm - Called with whether to delete unused questions too
+ * @param onCancel - Called when dismissed
+ * @param isDeleting - Whether the deletion is running
+ */
+export default function DeleteTestDialog({
+  summary,
+  onConfirm,
+  onCancel,
+  isDeleting = false,
+}: DeleteTestDialogProps) {
+  const [deleteOrphanedQuestions, setDeleteOrphanedQuestions] = useState(false);
+
+  return (
+    <div className="fixed inset-0 bg-black/20 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 space-y-4">
+        <h3 className="text-xl font-bold text-gray-900">Delete test?</h3>
+        <p className="text-sm text-gray-900">
+          “{summary.test.title}” and its {summary.questionCount} question link
+          {summary.questionCount === 1 ? "" : "s"} will be deleted. Students
+          will no longer see the test. This cannot be undone.
+        </p>
+
+        <label className="flex items-start gap-2 text-sm text-gray-900 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={deleteOrphanedQuestions}
+            onChange={(e) => setDeleteOrphanedQuestions(e.target.checked)}
+            disabled={isDeleting}
+            className="mt-1"
+          />
+          <span>
+            Also delete its questions from the question bank when no other test
+            uses them
+          </span>
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isDeleting}
+            className="px-4 py-2 bg-gray-200 text-gray-900 rounded-lg hover:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(deleteOrphanedQuestions)}
+            disabled={isDeleting}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+          >
+            {isDeleting ? "Deleting..." : "Delete Test"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import type { MemoryTables } from "@/lib/repository";
+
+type DryRunResultProps = {
+  /**
+   * Rows the dry run wrote to the in-memory backend
+   */
+  tables: MemoryTables;
+};
+
+const cellClass = "px-3 py-2 border border-gray-300 align-top";
+
+/**
+ * Shows every row a dry run would have written: the new questions and the
+ * test with their generated IDs, the test sections it would set up, and the
+ * test_questions links in order_in_test order.
+ * @param tables - Rows written to the in-memory backend
+ */
+export default function DryRunResult({ tables }: DryRunResultProps) {
+  const { questions, tests, test_sections, test_questions } = tables;
+  const referenceIds = new Map(
+    questions.map((q) => [q.question_id, q.reference_id])
+  );
+
+  return (
+    <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg space-y-4 text-sm text-gray-900">
+      <p className="font-semibold text-purple-900">
+        Dry run: nothing was written to the database. The upload would create{" "}
+        {questions.length} question{questions.length === 1 ? "" : "s"},{" "}
+        {tests.length} test{tests.length === 1 ? "" : "s"},{" "}
+        {test_sections.length} test section
+        {test_sections.length === 1 ? "" : "s"} and {test_questions.length}{" "}
+        question link{test_questions.length === 1 ? "" : "s"}. IDs are generated
+        for this preview only, and a real upload reuses any existing section
+        with the same settings instead of creating one.
+      </p>
+
+      {tests.map(({ test_id, ...values }) => (
+        <div key={test_id}>
+          <p className="font-semibold mb-1">tests</p>
+          <p>
+            <span className="font-mono">{test_id}</span>:{" "}
+            {Object.entries(values)
+              .filter(([, value]) => value !== undefined)
+              .map(([field, value]) => `${field} = ${String(value)}`)
+              .join(", ")}
+          </p>
+        </div>
+      ))}
+
+      {test_sections.length > 0 && (
+        <div>
+          <p className="font-semibold mb-1">test_sections</p>
+          <ul className="list-disc list-inside">
+            {test_sections.map(({ test_section_id, ...values }) => (
+              <li key={test_section_id}>
+                <span className="font-mono">{test_section_id}</span>:{" "}
+                {Object.entries(values)
+                  .map(([field, value]) => `${field} = ${String(value)}`)
+                  .join(", ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {questions.length > 0 && (
+        <div>
+          <p className="font-semibold mb-1">questions</p>
+          <div className="max-h-64 overflow-y-auto bg-white">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className={cellClass}>question_id</th>
+                  <th className={cellClass}>reference_id</th>
+                  <th className={cellClass}>question_type</th>
+                  <th className={cellClass}>tag</th>
+                </tr>
+              </thead>
+              <tbody>
+                {questions.map((q) => (
+                  <tr key={q.question_id}>
+                    <td className={`${cellClass} font-mono text-xs`}>
+                      {q.question_id}
+                    </td>
+                    <td className={`${cellClass} font-mono`}>
+                      {q.reference_id}
+                    </td>
+                    <td className={cellClass}>{q.question_type}</td>
+                    <td className={cellClass}>{q.tag}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {test_questions.length > 0 && (
+        <div>
+          <p className="font-semibold mb-1">test_questions</p>
+          <div className="max-h-64 overflow-y-auto bg-white">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className={cellClass}>order_in_test</th>
+                  <th className={cellClass}>test_section_id</th>
+                  <th className={cellClass}>question_id</th>
+                  <th className={cellClass}>reference_id</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...test_questions]
+                  .sort((a, b) => a.order_in_test - b.order_in_test)
+                  .map((tq) => (
+                    <tr key={tq.test_question_id}>
+                      <td className={cellClass}>{tq.order_in_test}</td>
+                      <td className={`${cellClass} font-mono`}>
+                        {tq.test_section_id}
+                      </td>
+                      <td className={`${cellClass} font-mono text-xs`}>
+                        {tq.question_id}
+                      </td>
+                      <td className={`${cellClass} font-mono`}>
+                        {referenceIds.get(tq.question_id) ?? (
+                          <span className="text-gray-700">
+                            existing question from the bank
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import type { ExportOptions } from "@/lib/excel-export";
+
+type ExportTestPanelProps = {
+  /**
+   * Downloads the test as a workbook; resolves with a summary to show and
+   * rejects with the reason the export failed
+   */
+  onExport: (testId: string, options: ExportOptions) => Promise<string>;
+  /**
+   * Whether exporting is unavailable, e.g. while uploading
+   */
+  disabled?: boolean;
+};
+
+/**
+ * Exports a stored test back to the spreadsheet layout, one sheet per test
+ * section, so its corrected content can be edited and imported again.
+ * @param onExport - Downloads the test with the given ID
+ * @param disabled - Whether exporting is unavailable
+ */
+export default function ExportTestPanel({
+  onExport,
+  disabled = false,
+}: ExportTestPanelProps) {
+  const [testId, setTestId] = useState("");
+  const [restoreFrac, setRestoreFrac] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [result, setResult] = useState<{
+    message: string;
+    failed: boolean;
+  } | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setResult(null);
+    try {
+      const message = await onExport(testId.trim(), { restoreFrac });
+      setResult({ message, failed: false });
+    } catch (err) {
+      setResult({
+        message: err instanceof Error ? err.message : "Export failed",
+        failed: true,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">
+        Export a Test to Excel
+      </h2>
+      <p className="text-sm text-gray-800 mb-4">
+        Downloads an uploaded test in the spreadsheet format above, one sheet
+        per section in test order, with correct answers as letters.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          value={testId}
+          onChange={(e) => setTestId(e.target.value)}
+          placeholder="Test ID"
+          className="flex-1 min-w-64 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 font-mono"
+          disabled={disabled || isExporting}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={restoreFrac}
+            onChange={(e) => setRestoreFrac(e.target.checked)}
+            disabled={disabled || isExporting}
+          />
+          Write \dfrac back as \frac
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={disabled || isExporting || !testId.trim()}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+        >
+          {isExporting ? "Exporting..." : "Export"}
+        </button>
+      </div>
+
+      {result && (
+        <p
+          className={`mt-3 text-sm ${
+            result.failed ? "text-red-800" : "text-green-800"
+          }`}
+        >
+          {result.message}
+        </p>
+      )}
+    </div>
+  );
+}
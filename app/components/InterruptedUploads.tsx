@@ -0,0 +1,82 @@
+import { journalProgress, type UploadJournal } from "@/lib/upload-journal";
+
+type InterruptedUploadsProps = {
+  /**
+   * Journals of upload runs that never finished
+   */
+  journals: UploadJournal[];
+  /**
+   * Called to continue a run from its last confirmed step
+   */
+  onResume: (journal: UploadJournal) => void;
+  /**
+   * Called to roll back whatever a run wrote and forget it
+   */
+  onDiscard: (journal: UploadJournal) => void;
+  /**
+   * Whether the actions are unavailable, e.g. while another upload runs
+   */
+  disabled?: boolean;
+};
+
+/**
+ * Offers to resume or discard uploads that were cut short, showing how far
+ * each one got according to its journal.
+ * @param journals - Journals of unfinished runs
+ * @param onResume - Called to continue a run
+ * @param onDiscard - Called to roll back and forget a run
+ * @param disabled - Whether the actions are unavailable
+ */
+export default function InterruptedUploads({
+  journals,
+  onResume,
+  onDiscard,
+  disabled = false,
+}: InterruptedUploadsProps) {
+  if (journals.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {journals.map((journal) => {
+        const progress = journalProgress(journal);
+
+        return (
+          <div
+            key={journal.id}
+            className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex flex-wrap items-center justify-between gap-4"
+          >
+            <div className="text-sm text-yellow-900">
+              <p className="font-semibold">
+                Upload of “{journal.test.title}” was interrupted (
+                {new Date(journal.updated_at).toLocaleString()})
+              </p>
+              <p>
+                {progress.questionsUploaded} of {progress.questionsTotal} new
+                questions uploaded ·{" "}
+                {progress.testCreated ? "test created" : "test not created"} ·{" "}
+                {progress.linksCreated} of {progress.linksTotal} questions
+                linked
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onResume(journal)}
+                disabled={disabled}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+              >
+                Resume
+              </button>
+              <button
+                onClick={() => onDiscard(journal)}
+                disabled={disabled}
+                className="px-4 py-2 bg-gray-100 text-gray-900 text-sm rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+              >
+                Discard and Roll Back
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
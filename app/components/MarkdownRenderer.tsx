@@ -1,5 +1,5 @@
 import React, { useMemo } from "react";
-import ReactMarkdown from "react-markdown";
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
 import rehypeKatex from "rehype-katex";
@@ -201,6 +201,10 @@ export default function MarkdownRenderer({
           rehypeRaw,
         ]}
         components={markdownComponents}
+        urlTransform={(url) =>
+          // Keep inline images extracted from spreadsheets until they are uploaded
+          url.startsWith("data:image/") ? url : defaultUrlTransform(url)
+        }
       >
         {decodedContent}
       </ReactMarkdown>
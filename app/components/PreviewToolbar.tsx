@@ -0,0 +1,137 @@
+import type { QuestionFilters } from "@/lib/question-filter";
+import type { DifficultyLevel, QuestionType } from "@/lib/supabase";
+
+type PreviewToolbarProps = {
+  /**
+   * The filters applied to every module
+   */
+  filters: QuestionFilters;
+  /**
+   * Called with the filters that changed
+   */
+  onChange: (changes: Partial<QuestionFilters>) => void;
+  /**
+   * Tags used by the previewed questions, offered in the tag filter
+   */
+  tags: string[];
+  /**
+   * How many questions pass the filters
+   */
+  shown: number;
+  /**
+   * How many questions the modules hold
+   */
+  total: number;
+  /**
+   * Called to clear the filters and the sort order; the button is hidden
+   * when omitted
+   */
+  onReset?: () => void;
+};
+
+const selectClass =
+  "px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900";
+
+/**
+ * Search box and filters for the data preview: full-text search, tag,
+ * difficulty, question type and validation status, plus a toggle for
+ * questions with problems only.
+ * @param filters - The filters applied to every module
+ * @param onChange - Called with the filters that changed
+ * @param tags - Tags offered in the tag filter
+ * @param shown - How many questions pass the filters
+ * @param total - How many questions there are
+ * @param onReset - Called to clear the filters and the sort order
+ */
+export default function PreviewToolbar({
+  filters,
+  onChange,
+  tags,
+  shown,
+  total,
+  onReset,
+}: PreviewToolbarProps) {
+  return (
+    <div className="mb-6 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          placeholder="Search question text, instructions, choices, explanation"
+          className="flex-1 min-w-[16rem] px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+        />
+        <select
+          value={filters.tag}
+          onChange={(e) => onChange({ tag: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">All tags</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>
+              {tag}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.difficulty}
+          onChange={(e) =>
+            onChange({ difficulty: e.target.value as DifficultyLevel | "" })
+          }
+          className={selectClass}
+        >
+          <option value="">All difficulties</option>
+          <option value="easy">easy</option>
+          <option value="medium">medium</option>
+          <option value="intense">intense</option>
+        </select>
+        <select
+          value={filters.questionType}
+          onChange={(e) =>
+            onChange({ questionType: e.target.value as QuestionType | "" })
+          }
+          className={selectClass}
+        >
+          <option value="">All types</option>
+          <option value="multiple_choice">Multiple choice</option>
+          <option value="multi_select">Multi-select</option>
+          <option value="numeric">Numeric (grid-in)</option>
+        </select>
+        <select
+          value={filters.status}
+          onChange={(e) =>
+            onChange({ status: e.target.value as QuestionFilters["status"] })
+          }
+          className={selectClass}
+        >
+          <option value="">Any status</option>
+          <option value="error">Errors</option>
+          <option value="warning">Warnings</option>
+          <option value="ok">No issues</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.onlyProblems}
+            onChange={(e) => onChange({ onlyProblems: e.target.checked })}
+            className="w-4 h-4"
+          />
+          Show only problems
+        </label>
+      </div>
+      <div className="flex items-center justify-between gap-3 mt-2">
+        <p className="text-xs text-gray-700">
+          Showing {shown} of {total} questions
+        </p>
+        {onReset && (
+          <button
+            onClick={onReset}
+            className="text-xs text-blue-600 hover:underline cursor-pointer"
+          >
+            Clear filters and sorting
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import type { QuestionUpdatePlan } from "@/lib/question-diff";
+
+type QuestionChangeListProps = {
+  /**
+   * Field-level changes per stored question, plus what was left alone
+   */
+  plan: QuestionUpdatePlan;
+  /**
+   * Whether the changes are still to be written or have been applied
+   */
+  applied?: boolean;
+};
+
+const truncate = (value: string, length = 300): string =>
+  value.length > length ? `${value.slice(0, length)}…` : value;
+
+/**
+ * Summarizes an in-place update of stored questions: every changed field
+ * with its old and new value, followed by the unchanged and unmatched
+ * reference ids.
+ * @param plan - Field-level changes per stored question
+ * @param applied - Whether the changes have already been written
+ */
+export default function QuestionChangeList({
+  plan,
+  applied = false,
+}: QuestionChangeListProps) {
+  const { updates, unchanged, notFound } = plan;
+
+  return (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+      <p className="text-sm font-semibold text-blue-900 mb-3">
+        {updates.length} question{updates.length === 1 ? "" : "s"}{" "}
+        {applied ? "updated" : "will be updated"}, {unchanged.length} unchanged
+        {notFound.length > 0 && `, ${notFound.length} not in the question bank`}
+      </p>
+
+      {updates.length > 0 && (
+        <ul className="space-y-3 max-h-[32rem] overflow-y-auto">
+          {updates.map((update) => (
+            <li
+              key={update.question_id}
+              className="p-3 bg-white border border-blue-200 rounded-lg"
+            >
+              <p className="text-sm text-gray-900 mb-2">
+                <span className="font-mono font-semibold">
+                  {update.reference_id}
+                </span>{" "}
+                <span className="font-mono text-xs text-gray-700">
+                  ({update.question_id})
+                </span>
+              </p>
+              <div className="space-y-2">
+                {update.changes.map((change) => (
+                  <div key={change.field} className="text-sm">
+                    <p className="font-semibold text-gray-900">
+                      {change.label}
+                    </p>
+                    <p className="px-2 py-1 bg-red-50 text-red-800 line-through whitespace-pre-wrap break-words">
+                      {truncate(change.before) || "(empty)"}
+                    </p>
+                    <p className="px-2 py-1 bg-green-50 text-green-800 whitespace-pre-wrap break-words">
+                      {truncate(change.after) || "(empty)"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {notFound.length > 0 && (
+        <p className="text-sm text-yellow-800 mt-3">
+          {`Not in the question bank, so ${
+            applied ? "nothing was" : "nothing will be"
+          } updated for: ${notFound.join(", ")}`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import MarkdownRenderer from "@/app/components/MarkdownRenderer";
+import type { Question } from "@/lib/supabase";
+import { QUESTION_DIFF_FIELDS, formatQuestionField } from "@/lib/question-diff";
+
+type QuestionComparisonProps = {
+  /**
+   * The version shown on the left, e.g. the question stored in the bank
+   */
+  before: Question;
+  /**
+   * The version shown on the right, e.g. the question from the spreadsheet
+   */
+  after: Question;
+  /**
+   * Column headings for the two versions
+   */
+  labels?: [string, string];
+};
+
+/**
+ * Shows two versions of a question field by field, highlighting the fields
+ * that differ.
+ * @param before - The version shown on the left
+ * @param after - The version shown on the right
+ * @param labels - Column headings for the two versions
+ */
+export default function QuestionComparison({
+  before,
+  after,
+  labels = ["Stored", "Incoming"],
+}: QuestionComparisonProps) {
+  return (
+    <table className="min-w-full border border-gray-900 text-sm table-fixed">
+      <thead className="bg-gray-100">
+        <tr>
+          <th className="w-36 px-3 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+            Field
+          </th>
+          <th className="px-3 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+            {labels[0]}
+          </th>
+          <th className="px-3 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+            {labels[1]}
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {QUESTION_DIFF_FIELDS.map(({ field, label, markdown }) => {
+          const beforeValue = formatQuestionField(before, field);
+          const afterValue = formatQuestionField(after, field);
+          if (!beforeValue && !afterValue) return null;
+
+          return (
+            <tr
+              key={field}
+              className={beforeValue !== afterValue ? "bg-yellow-50" : ""}
+            >
+              <td className="px-3 py-2 border border-gray-900 font-semibold text-gray-900 align-top">
+                {label}
+                {beforeValue !== afterValue && (
+                  <span className="block text-xs font-normal text-yellow-800">
+                    changed
+                  </span>
+                )}
+              </td>
+              {[beforeValue, afterValue].map((value, idx) => (
+                <td
+                  key={idx}
+                  className="px-3 py-2 border border-gray-900 text-gray-900 align-top"
+                >
+                  {markdown ? (
+                    <MarkdownRenderer content={value} size="sm" />
+                  ) : (
+                    value
+                  )}
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,382 @@
+import MarkdownRenderer from "@/app/components/MarkdownRenderer";
+import type { GridInRules } from "@/lib/grid-in";
+import { MAX_ANSWER_CHOICES } from "@/lib/excel-parser";
+import {
+  isQuestionModified,
+  typedGridInAnswers,
+  withAddedChoice,
+  withCorrectChoice,
+  withGridInAnswers,
+  withQuestionType,
+  withRemovedChoice,
+} from "@/lib/question-edit";
+import type { DifficultyLevel, Question, QuestionType } from "@/lib/supabase";
+import { correctChoiceIndices } from "@/lib/utils";
+
+type QuestionDetailsModalProps = {
+  /**
+   * Question to show
+   */
+  question: Question;
+  /**
+   * Called when the modal is closed
+   */
+  onClose: () => void;
+  /**
+   * Called with an edited copy of the question; every field except the
+   * reference ID becomes editable when given
+   */
+  onChange?: (question: Question) => void;
+  /**
+   * The question as parsed, to revert edits to
+   */
+  original?: Question;
+  /**
+   * Rules an edited grid-in answer is checked against
+   */
+  gridInRules?: GridInRules;
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900";
+
+/**
+ * Shows every field of a question, with its math and images rendered and
+ * the correct answers highlighted. With `onChange`, the fields are edited in
+ * place and markdown fields show a live preview under their text box.
+ * @param question - Question to show
+ * @param onClose - Called when the modal is closed
+ * @param onChange - Called with an edited copy of the question
+ * @param original - The question as parsed
+ * @param gridInRules - Rules an edited grid-in answer is checked against
+ */
+export default function QuestionDetailsModal({
+  question,
+  onClose,
+  onChange,
+  original,
+  gridInRules,
+}: QuestionDetailsModalProps) {
+  const modified =
+    original !== undefined && isQuestionModified(original, question);
+
+  // A text box with the rendered markdown under it, or just the rendering
+  const markdownField = (
+    value: string,
+    update: (value: string) => void,
+    size?: "sm"
+  ) =>
+    onChange ? (
+      <div className="space-y-2">
+        <textarea
+          value={value}
+          onChange={(e) => update(e.target.value)}
+          rows={3}
+          className={`${inputClass} font-mono text-sm`}
+        />
+        <div className="p-3 rounded border border-dashed border-gray-300 text-gray-900">
+          <MarkdownRenderer content={value} size={size} />
+        </div>
+      </div>
+    ) : (
+      <div className="text-gray-900">
+        <MarkdownRenderer content={value} size={size} />
+      </div>
+    );
+
+  return (
+    <div className="fixed inset-0 bg-black/20 bg-opacity-30 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-gray-900">
+            {onChange ? "Edit Question" : "Question Details"}
+            {modified && (
+              <span className="ml-3 align-middle px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                modified
+              </span>
+            )}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-2xl font-bold cursor-pointer"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Reference ID
+            </label>
+            <p className="text-gray-900">{question.reference_id}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Tag
+            </label>
+            {onChange ? (
+              <input
+                type="text"
+                value={question.tag}
+                onChange={(e) => onChange({ ...question, tag: e.target.value })}
+                className={inputClass}
+              />
+            ) : (
+              <p className="text-gray-900">{question.tag}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Difficulty
+            </label>
+            {onChange ? (
+              <select
+                value={question.difficulty}
+                onChange={(e) =>
+                  onChange({
+                    ...question,
+                    difficulty: e.target.value as DifficultyLevel,
+                  })
+                }
+                className={inputClass}
+              >
+                <option value="easy">easy</option>
+                <option value="medium">medium</option>
+                <option value="intense">intense</option>
+              </select>
+            ) : (
+              <span
+                className={`inline-block px-3 py-1 rounded text-sm font-medium ${
+                  question.difficulty === "easy"
+                    ? "bg-green-100 text-green-800"
+                    : question.difficulty === "medium"
+                    ? "bg-yellow-100 text-yellow-800"
+                    : "bg-red-100 text-red-800"
+                }`}
+              >
+                {question.difficulty}
+              </span>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Question Type
+            </label>
+            {onChange ? (
+              <select
+                value={question.question_type}
+                onChange={(e) =>
+                  onChange(
+                    withQuestionType(question, e.target.value as QuestionType)
+                  )
+                }
+                className={inputClass}
+              >
+                <option value="multiple_choice">Multiple choice</option>
+                <option value="multi_select">
+                  Multi-select (select all that apply)
+                </option>
+                <option value="numeric">Numeric (grid-in)</option>
+              </select>
+            ) : (
+              <p className="text-gray-900">
+                {question.question_type === "multi_select"
+                  ? "Multi-select (select all that apply)"
+                  : question.question_type === "numeric"
+                  ? "Numeric (grid-in)"
+                  : "Multiple choice"}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Instructions
+            </label>
+            {markdownField(question.instructions, (instructions) =>
+              onChange?.({ ...question, instructions })
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Question Text
+            </label>
+            {markdownField(question.question_text, (question_text) =>
+              onChange?.({ ...question, question_text })
+            )}
+          </div>
+
+          {question.question_type === "numeric" && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-2">
+                Accepted Answers
+              </label>
+              {onChange && (
+                // Applied on blur, so separators can be typed between answers
+                <input
+                  key={typedGridInAnswers(question)}
+                  type="text"
+                  defaultValue={typedGridInAnswers(question)}
+                  onBlur={(e) =>
+                    onChange(
+                      withGridInAnswers(question, e.target.value, gridInRules)
+                    )
+                  }
+                  placeholder="7/2; 3.5"
+                  className={`${inputClass} font-mono mb-2`}
+                />
+              )}
+              <div className="flex flex-wrap gap-2">
+                {(question.accepted_answers?.length
+                  ? question.accepted_answers
+                  : [
+                      {
+                        value: question.correct_answer,
+                        generated: false,
+                      },
+                    ]
+                ).map((answer) => (
+                  <span
+                    key={answer.value}
+                    title={
+                      answer.generated
+                        ? "Equivalent form generated automatically"
+                        : "Entered by the author"
+                    }
+                    className={`px-3 py-1 rounded border font-mono text-sm ${
+                      answer.generated
+                        ? "bg-gray-50 border-gray-300 text-gray-700"
+                        : "bg-green-50 border-green-300 text-green-800"
+                    }`}
+                  >
+                    {answer.value}
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs text-gray-700 mt-1">
+                Green answers come from the spreadsheet; grey ones are
+                equivalent decimal forms generated automatically.
+              </p>
+            </div>
+          )}
+
+          {(question.question_type !== "numeric" ||
+            question.answer_choices.length > 0) && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-2">
+                Answer Choices
+                {question.question_type === "multi_select" &&
+                  ` (${correctChoiceIndices(question).length} correct)`}
+              </label>
+              <div className="space-y-2">
+                {question.answer_choices.map((choice, idx) => (
+                  <div
+                    key={idx}
+                    className={`p-3 rounded border ${
+                      correctChoiceIndices(question).includes(idx)
+                        ? "bg-green-50 border-green-300"
+                        : "bg-gray-50 border-gray-200"
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <span className="font-semibold text-gray-900 flex-shrink-0">
+                        {String.fromCharCode(65 + idx)}.
+                      </span>
+                      <div className="flex-1">
+                        {markdownField(
+                          choice,
+                          (value) =>
+                            onChange?.({
+                              ...question,
+                              answer_choices: question.answer_choices.map(
+                                (c, i) => (i === idx ? value : c)
+                              ),
+                            }),
+                          "sm"
+                        )}
+                      </div>
+                      {onChange ? (
+                        <div className="flex flex-col gap-2 flex-shrink-0">
+                          {question.question_type !== "numeric" && (
+                            <button
+                              onClick={() =>
+                                onChange(withCorrectChoice(question, idx))
+                              }
+                              className={`px-3 py-1 text-xs rounded transition cursor-pointer ${
+                                correctChoiceIndices(question).includes(idx)
+                                  ? "bg-green-600 text-white hover:bg-green-700"
+                                  : "bg-white border border-gray-300 text-gray-900 hover:bg-gray-100"
+                              }`}
+                            >
+                              {correctChoiceIndices(question).includes(idx)
+                                ? "✓ Correct"
+                                : "Mark correct"}
+                            </button>
+                          )}
+                          <button
+                            onClick={() =>
+                              onChange(withRemovedChoice(question, idx))
+                            }
+                            className="px-3 py-1 text-xs text-red-600 hover:bg-red-50 rounded transition cursor-pointer"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ) : (
+                        correctChoiceIndices(question).includes(idx) && (
+                          <span className="ml-2 text-green-700 font-semibold text-xs flex-shrink-0">
+                            ✓ Correct
+                          </span>
+                        )
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {onChange &&
+                question.answer_choices.length < MAX_ANSWER_CHOICES && (
+                  <button
+                    onClick={() => onChange(withAddedChoice(question))}
+                    className="mt-2 px-3 py-1 text-sm bg-white border border-gray-300 text-gray-900 rounded hover:bg-gray-100 transition cursor-pointer"
+                  >
+                    + Add Choice
+                  </button>
+                )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-1">
+              Explanation
+            </label>
+            {markdownField(question.explanation, (explanation) =>
+              onChange?.({ ...question, explanation })
+            )}
+          </div>
+        </div>
+
+        <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex gap-3">
+          {modified && onChange && (
+            <button
+              onClick={() => onChange(original!)}
+              className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-900 rounded-lg hover:bg-gray-100 transition font-medium cursor-pointer"
+            >
+              Revert to Spreadsheet Values
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium cursor-pointer"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+import type { ReactNode } from "react";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import MarkdownRenderer from "@/app/components/MarkdownRenderer";
+import type { GridInRules } from "@/lib/grid-in";
+import type { QuestionSort, QuestionSortColumn } from "@/lib/question-filter";
+import {
+  isQuestionModified,
+  typedGridInAnswers,
+  withCorrectChoice,
+  withGridInAnswers,
+} from "@/lib/question-edit";
+import type { DifficultyLevel, Question } from "@/lib/supabase";
+import { correctChoiceIndices, formatCorrectAnswer } from "@/lib/utils";
+
+type QuestionTableProps = {
+  /**
+   * Questions to list, in order
+   */
+  questions: Question[];
+  /**
+   * Called when a question's details are opened; the Actions column is
+   * left out when omitted
+   */
+  onSelect?: (question: Question, index: number) => void;
+  /**
+   * Called with an edited copy of a question; tag, difficulty and answer
+   * become editable when given
+   */
+  onChange?: (index: number, question: Question) => void;
+  /**
+   * The questions as parsed, to mark edited ones and revert them
+   */
+  originals?: Question[];
+  /**
+   * Rules edited grid-in answers are checked against
+   */
+  gridInRules?: GridInRules;
+  /**
+   * Called when a row is dragged to another position; rows get a drag
+   * handle when given
+   */
+  onReorder?: (fromIndex: number, toIndex: number) => void;
+  /**
+   * Modules a question can be moved to
+   */
+  moveTargets?: { id: string; label: string }[];
+  /**
+   * Called when a question is moved to one of the move targets
+   */
+  onMove?: (index: number, moduleId: string) => void;
+  /**
+   * Called when a question is left out of the upload
+   */
+  onExclude?: (index: number) => void;
+  /**
+   * Positions of the questions to show, in display order; every question in
+   * order when omitted. Dragging expects every row, so leave out onReorder
+   * while rows are filtered or sorted.
+   */
+  rows?: number[];
+  /**
+   * The column the rows are sorted by, to mark its header
+   */
+  sort?: QuestionSort;
+  /**
+   * Called when a sortable column header is clicked; headers are plain
+   * text when omitted
+   */
+  onSort?: (column: QuestionSortColumn) => void;
+};
+
+function SortableQuestionRow({
+  id,
+  className,
+  children,
+}: {
+  id: string;
+  className: string;
+  children: ReactNode;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition } =
+    useSortable({ id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <tr ref={setNodeRef} style={style} className={className}>
+      <td
+        className="px-2 py-3 border border-gray-900 cursor-grab"
+        {...attributes}
+        {...listeners}
+      >
+        <svg
+          className="w-5 h-5 text-gray-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 8h16M4 16h16"
+          />
+        </svg>
+      </td>
+      {children}
+    </tr>
+  );
+}
+
+/**
+ * Lists questions with their reference ID, tag, difficulty, rendered
+ * question text and instructions, and correct answer. With `onChange`, the
+ * tag, difficulty and correct answer can be edited in place and edited rows
+ * can be reverted to their parsed values. With `onReorder`, rows are dragged
+ * into a new order; `onMove` and `onExclude` add controls to move a question
+ * to another module or leave it out. `rows` shows a filtered or sorted
+ * selection, and `onSort` makes the Ref ID, Tag, Difficulty and Question
+ * Text headers sortable.
+ * @param questions - Questions to list
+ * @param onSelect - Called when a question's details are opened
+ * @param onChange - Called with an edited copy of a question
+ * @param originals - The questions as parsed
+ * @param gridInRules - Rules edited grid-in answers are checked against
+ * @param onReorder - Called when a row is dragged to another position
+ * @param moveTargets - Modules a question can be moved to
+ * @param onMove - Called when a question is moved to another module
+ * @param onExclude - Called when a question is left out of the upload
+ * @param rows - Positions of the questions to show, in display order
+ * @param sort - The column the rows are sorted by
+ * @param onSort - Called when a sortable column header is clicked
+ */
+export default function QuestionTable({
+  questions,
+  onSelect,
+  onChange,
+  originals,
+  gridInRules,
+  onReorder,
+  moveTargets = [],
+  onMove,
+  onExclude,
+  rows,
+  sort = null,
+  onSort,
+}: QuestionTableProps) {
+  const showActions = Boolean(
+    onSelect || originals || onExclude || (onMove && moveTargets.length > 0)
+  );
+  const visibleRows = rows ?? questions.map((_, idx) => idx);
+  const rowIds = visibleRows.map((idx) => `question-${idx}`);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (over && active.id !== over.id) {
+      onReorder?.(
+        rowIds.indexOf(String(active.id)),
+        rowIds.indexOf(String(over.id))
+      );
+    }
+  };
+
+  const headerLabel = (label: string, column: QuestionSortColumn) =>
+    onSort ? (
+      <button
+        onClick={() => onSort(column)}
+        className="inline-flex items-center gap-1 font-semibold cursor-pointer hover:text-blue-700"
+      >
+        {label}
+        <span className="text-xs text-gray-500">
+          {sort?.column !== column ? "↕" : sort.direction === "asc" ? "▲" : "▼"}
+        </span>
+      </button>
+    ) : (
+      label
+    );
+
+  const table = (
+    <table className="min-w-full border border-gray-900 text-sm">
+      <thead className="bg-gray-100">
+        <tr>
+          {onReorder && <th className="border border-gray-900" />}
+          <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
+            {headerLabel("Ref ID", "reference_id")}
+          </th>
+          <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
+            {headerLabel("Tag", "tag")}
+          </th>
+          <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
+            {headerLabel("Difficulty", "difficulty")}
+          </th>
+          <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
+            {headerLabel("Question Text", "question_text")}
+          </th>
+          <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
+            Instructions
+          </th>
+          <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
+            Answer
+          </th>
+          {showActions && (
+            <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
+              Actions
+            </th>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {visibleRows.map((idx) => {
+          const q = questions[idx];
+          const modified =
+            originals !== undefined && isQuestionModified(originals[idx], q);
+
+          const className = modified
+            ? "bg-amber-50"
+            : "bg-white hover:bg-gray-50";
+          const cells = (
+            <>
+              <td className="px-4 py-3 border border-gray-900 text-gray-900">
+                {q.reference_id}
+                {modified && (
+                  <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                    modified
+                  </span>
+                )}
+              </td>
+              <td className="px-4 py-3 border border-gray-900 text-gray-900">
+                {onChange ? (
+                  <input
+                    type="text"
+                    value={q.tag}
+                    onChange={(e) =>
+                      onChange(idx, { ...q, tag: e.target.value })
+                    }
+                    className="w-32 px-2 py-1 border border-gray-300 rounded text-gray-900"
+                  />
+                ) : (
+                  q.tag
+                )}
+              </td>
+              <td className="px-4 py-3 border border-gray-900">
+                {onChange ? (
+                  <select
+                    value={q.difficulty}
+                    onChange={(e) =>
+                      onChange(idx, {
+                        ...q,
+                        difficulty: e.target.value as DifficultyLevel,
+                      })
+                    }
+                    className="px-2 py-1 border border-gray-300 rounded text-gray-900 text-xs"
+                  >
+                    <option value="easy">easy</option>
+                    <option value="medium">medium</option>
+                    <option value="intense">intense</option>
+                  </select>
+                ) : (
+                  <span
+                    className={`px-2 py-1 rounded text-xs font-medium ${
+                      q.difficulty === "easy"
+                        ? "bg-green-100 text-green-800"
+                        : q.difficulty === "medium"
+                        ? "bg-yellow-100 text-yellow-800"
+                        : "bg-red-100 text-red-800"
+                    }`}
+                  >
+                    {q.difficulty}
+                  </span>
+                )}
+              </td>
+              <td className="px-4 py-3 border border-gray-900 text-gray-900 max-w-md">
+                <MarkdownRenderer content={q.question_text} size="sm" />
+              </td>
+              <td className="px-4 py-3 border border-gray-900 text-gray-900 max-w-md">
+                <MarkdownRenderer content={q.instructions} size="sm" />
+              </td>
+              <td className="px-4 py-3 border border-gray-900 text-gray-900 whitespace-nowrap">
+                {!onChange ? (
+                  <span className="font-mono">{formatCorrectAnswer(q)}</span>
+                ) : q.question_type === "numeric" ? (
+                  // Applied on blur, so separators can be typed between answers
+                  <input
+                    key={typedGridInAnswers(q)}
+                    type="text"
+                    defaultValue={typedGridInAnswers(q)}
+                    onBlur={(e) =>
+                      onChange(
+                        idx,
+                        withGridInAnswers(q, e.target.value, gridInRules)
+                      )
+                    }
+                    className="w-28 px-2 py-1 border border-gray-300 rounded text-gray-900 font-mono"
+                  />
+                ) : (
+                  <span className="inline-flex gap-1">
+                    {q.answer_choices.map((_, choice) => (
+                      <button
+                        key={choice}
+                        onClick={() =>
+                          onChange(idx, withCorrectChoice(q, choice))
+                        }
+                        title={`Mark ${String.fromCharCode(65 + choice)} as ${
+                          q.question_type === "multi_select" ? "a" : "the"
+                        } correct answer`}
+                        className={`w-7 h-7 rounded border font-mono text-xs cursor-pointer ${
+                          correctChoiceIndices(q).includes(choice)
+                            ? "bg-green-600 border-green-700 text-white"
+                            : "bg-white border-gray-300 text-gray-900 hover:bg-gray-100"
+                        }`}
+                      >
+                        {String.fromCharCode(65 + choice)}
+                      </button>
+                    ))}
+                  </span>
+                )}
+                {q.question_type === "multi_select" && (
+                  <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                    select all
+                  </span>
+                )}
+              </td>
+              {showActions && (
+                <td className="px-4 py-3 border border-gray-900">
+                  <div className="flex flex-wrap gap-2">
+                    {onSelect && (
+                      <button
+                        onClick={() => onSelect(q, idx)}
+                        className="px-3 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 transition cursor-pointer"
+                      >
+                        {onChange ? "Edit Details" : "View Details"}
+                      </button>
+                    )}
+                    {modified && onChange && (
+                      <button
+                        onClick={() => onChange(idx, originals![idx])}
+                        className="px-3 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition cursor-pointer"
+                      >
+                        Revert
+                      </button>
+                    )}
+                    {onMove && moveTargets.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => onMove(idx, e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded text-gray-900 text-xs cursor-pointer"
+                      >
+                        <option value="" disabled>
+                          Move to...
+                        </option>
+                        {moveTargets.map((target) => (
+                          <option key={target.id} value={target.id}>
+                            {target.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {onExclude && (
+                      <button
+                        onClick={() => onExclude(idx)}
+                        className="px-3 py-1 text-xs text-red-600 hover:bg-red-50 rounded transition cursor-pointer"
+                      >
+                        Exclude
+                      </button>
+                    )}
+                  </div>
+                </td>
+              )}
+            </>
+          );
+
+          return onReorder ? (
+            <SortableQuestionRow
+              key={`question-${idx}`}
+              id={`question-${idx}`}
+              className={className}
+            >
+              {cells}
+            </SortableQuestionRow>
+          ) : (
+            <tr key={idx} className={className}>
+              {cells}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      {onReorder ? (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext
+            items={rowIds}
+            strategy={verticalListSortingStrategy}
+          >
+            {table}
+          </SortableContext>
+        </DndContext>
+      ) : (
+        table
+      )}
+    </div>
+  );
+}
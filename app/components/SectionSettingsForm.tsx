@@ -0,0 +1,119 @@
+import {
+  sectionSettingsErrors,
+  type SectionSettings,
+} from "@/lib/test-sections";
+
+type SectionSettingsFormProps = {
+  /**
+   * Modules in upload order, each with its current section settings
+   */
+  modules: { id: string; label: string; settings: SectionSettings }[];
+  /**
+   * Called with a module's id and its edited settings
+   */
+  onChange: (id: string, settings: SectionSettings) => void;
+  /**
+   * Whether the inputs are read-only, e.g. while uploading
+   */
+  disabled?: boolean;
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 text-sm";
+
+/**
+ * Edits how each module of the new test is run: section name, time limit,
+ * Desmos access and whether it counts as a math section. The upload reuses a
+ * test section with the same settings or creates one.
+ * @param modules - Modules in upload order with their settings
+ * @param onChange - Called when a module's settings are edited
+ * @param disabled - Whether the inputs are read-only
+ */
+export default function SectionSettingsForm({
+  modules,
+  onChange,
+  disabled = false,
+}: SectionSettingsFormProps) {
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">
+        Section Settings
+      </h2>
+      <div className="space-y-3">
+        {modules.map(({ id, label, settings }) => {
+          const errors = sectionSettingsErrors(settings);
+          const update = (changes: Partial<SectionSettings>) =>
+            onChange(id, { ...settings, ...changes });
+
+          return (
+            <div
+              key={id}
+              className="p-4 bg-gray-50 border border-gray-300 rounded-lg"
+            >
+              <p className="text-sm font-semibold text-gray-900 mb-2">
+                {label}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_auto_auto] gap-3 items-center">
+                <input
+                  type="text"
+                  value={settings.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  placeholder="Section name"
+                  aria-label="Section name"
+                  className={inputClass}
+                  disabled={disabled}
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-900">
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={
+                      Number.isNaN(settings.duration_minutes)
+                        ? ""
+                        : settings.duration_minutes
+                    }
+                    onChange={(e) =>
+                      update({ duration_minutes: e.target.valueAsNumber })
+                    }
+                    aria-label="Duration in minutes"
+                    className={inputClass}
+                    disabled={disabled}
+                  />
+                  min
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.is_desmos_allowed}
+                    onChange={(e) =>
+                      update({ is_desmos_allowed: e.target.checked })
+                    }
+                    disabled={disabled}
+                  />
+                  Desmos allowed
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.is_math_section}
+                    onChange={(e) =>
+                      update({ is_math_section: e.target.checked })
+                    }
+                    disabled={disabled}
+                  />
+                  Math section
+                </label>
+              </div>
+              {errors.length > 0 && (
+                <p className="text-sm text-red-700 mt-2">
+                  Section {errors.join(", ")}.
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import type { SheetParseResult } from "@/lib/excel-parser";
+import { countIssues } from "@/lib/validation";
+
+type SheetPickerProps = {
+  /**
+   * Name of the workbook the sheets come from
+   */
+  fileName: string;
+  /**
+   * Parse results for every sheet, in workbook order
+   */
+  sheets: SheetParseResult[];
+  /**
+   * Maximum number of sheets that can still be added as modules
+   */
+  maxSelectable: number;
+  /**
+   * Called with the selected sheet names in module order
+   */
+  onConfirm: (sheetNames: string[]) => void;
+  /**
+   * Called when the workbook is dismissed without adding any sheets
+   */
+  onCancel: () => void;
+};
+
+interface SheetOption {
+  sheet: SheetParseResult;
+  selected: boolean;
+}
+
+function SortableSheetItem({
+  option,
+  disabled,
+  onToggle,
+}: {
+  option: SheetOption;
+  disabled: boolean;
+  onToggle: () => void;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition } =
+    useSortable({ id: option.sheet.sheetName });
+  const { errors, warnings } = countIssues(option.sheet.report);
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className="flex items-center gap-4 p-3 bg-white border border-gray-300 rounded-lg shadow-sm"
+    >
+      <input
+        type="checkbox"
+        checked={option.selected}
+        onChange={onToggle}
+        disabled={disabled && !option.selected}
+        className="w-4 h-4 cursor-pointer"
+      />
+      <div
+        className="flex items-center gap-4 flex-1"
+        {...attributes}
+        {...listeners}
+      >
+        <div className="cursor-grab">
+          <svg
+            className="w-5 h-5 text-gray-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 8h16M4 16h16"
+            />
+          </svg>
+        </div>
+        <div className="flex-1">
+          <div className="font-semibold text-gray-900">
+            {option.sheet.sheetName}
+          </div>
+          <div className="text-xs text-gray-700">
+            {option.sheet.questions.length} questions
+            {errors > 0 && (
+              <span className="ml-2 text-red-700 font-semibold">
+                {errors} error{errors === 1 ? "" : "s"}
+              </span>
+            )}
+            {warnings > 0 && (
+              <span className="ml-2 text-yellow-700 font-semibold">
+                {warnings} warning{warnings === 1 ? "" : "s"}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lets the user choose which sheets of a workbook become modules and in
+ * which order, using the same drag-and-drop list as the module files.
+ * @param fileName - Name of the workbook the sheets come from
+ * @param sheets - Parse results for every sheet, in workbook order
+ * @param maxSelectable - Maximum number of sheets that can still be added
+ * @param onConfirm - Called with the selected sheet names in module order
+ * @param onCancel - Called when the workbook is dismissed
+ */
+export default function SheetPicker({
+  fileName,
+  sheets,
+  maxSelectable,
+  onConfirm,
+  onCancel,
+}: SheetPickerProps) {
+  // Sheets with questions are pre-selected in workbook order, up to the limit
+  const [options, setOptions] = useState<SheetOption[]>(() => {
+    let remaining = maxSelectable;
+    return sheets.map((sheet) => {
+      const selected = sheet.questions.length > 0 && remaining > 0;
+      if (selected) remaining--;
+      return { sheet, selected };
+    });
+  });
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const selectedCount = options.filter((o) => o.selected).length;
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (over && active.id !== over.id) {
+      setOptions((items) => {
+        const oldIndex = items.findIndex(
+          (item) => item.sheet.sheetName === active.id
+        );
+        const newIndex = items.findIndex(
+          (item) => item.sheet.sheetName === over.id
+        );
+        return arrayMove(items, oldIndex, newIndex);
+      });
+    }
+  };
+
+  const handleToggle = (sheetName: string) => {
+    setOptions((items) =>
+      items.map((item) =>
+        item.sheet.sheetName === sheetName
+          ? { ...item, selected: !item.selected }
+          : item
+      )
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 bg-opacity-30 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-gray-900">
+            Choose Sheets from {fileName}
+          </h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-500 hover:text-gray-700 text-2xl font-bold cursor-pointer"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-6 py-4">
+          <p className="text-sm text-gray-800 mb-3">
+            Tick the sheets to add as modules and drag them into module order.{" "}
+            {selectedCount}/{maxSelectable} selected
+          </p>
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleDragEnd}
+          >
+            <SortableContext
+              items={options.map((o) => o.sheet.sheetName)}
+              strategy={verticalListSortingStrategy}
+            >
+              <div className="space-y-2">
+                {options.map((option) => (
+                  <SortableSheetItem
+                    key={option.sheet.sheetName}
+                    option={option}
+                    disabled={selectedCount >= maxSelectable}
+                    onToggle={() => handleToggle(option.sheet.sheetName)}
+                  />
+                ))}
+              </div>
+            </SortableContext>
+          </DndContext>
+        </div>
+
+        <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-gray-100 text-gray-900 rounded-lg hover:bg-gray-200 transition font-medium cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() =>
+              onConfirm(
+                options.filter((o) => o.selected).map((o) => o.sheet.sheetName)
+              )
+            }
+            disabled={selectedCount === 0}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+          >
+            Add {selectedCount} Module{selectedCount === 1 ? "" : "s"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { getSupabaseClient } from "@/lib/supabase";
+
+type SignInPanelProps = {
+  /**
+   * Called with whether a user is signed in, once the session is known and
+   * after every sign-in or sign-out
+   */
+  onSessionChange?: (signedIn: boolean) => void;
+};
+
+/**
+ * Email and password sign-in with the project's Supabase users. Every change
+ * to the database goes through /api/uploads, which refuses requests without
+ * a signed-in user; reading works while signed out.
+ * @param onSessionChange - Called with whether a user is signed in
+ */
+export default function SignInPanel({ onSessionChange }: SignInPanelProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [signedInAs, setSignedInAs] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const auth = getSupabaseClient().auth;
+    const {
+      data: { subscription },
+    } = auth.onAuthStateChange((_event, session) => {
+      setSignedInAs(session ? session.user.email ?? session.user.id : null);
+      onSessionChange?.(Boolean(session));
+    });
+    return () => subscription.unsubscribe();
+  }, [onSessionChange]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    const { error } = await getSupabaseClient().auth.signInWithPassword({
+      email: email.trim(),
+      password,
+    });
+    if (error) {
+      setError(error.message);
+    } else {
+      setPassword("");
+    }
+    setIsBusy(false);
+  };
+
+  const handleSignOut = async () => {
+    setIsBusy(true);
+    setError(null);
+    const { error } = await getSupabaseClient().auth.signOut();
+    if (error) setError(error.message);
+    setIsBusy(false);
+  };
+
+  if (signedInAs) {
+    return (
+      <div className="flex items-center gap-3 text-sm text-gray-900">
+        <span>
+          Signed in as <span className="font-medium">{signedInAs}</span>
+        </span>
+        <button
+          onClick={handleSignOut}
+          disabled={isBusy}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-100 transition cursor-pointer"
+        >
+          Sign out
+        </button>
+        {error && <span className="text-red-700">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSignIn} className="flex flex-wrap items-center gap-2">
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        autoComplete="username"
+        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+        disabled={isBusy}
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete="current-password"
+        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+        disabled={isBusy}
+      />
+      <button
+        type="submit"
+        disabled={isBusy || !email.trim() || !password}
+        className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition disabled:bg-gray-400 cursor-pointer"
+      >
+        Sign in
+      </button>
+      {error && <p className="w-full text-sm text-red-700">{error}</p>}
+    </form>
+  );
+}
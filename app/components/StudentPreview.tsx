@@ -0,0 +1,417 @@
+import { useEffect, useState } from "react";
+import MarkdownRenderer from "@/app/components/MarkdownRenderer";
+import {
+  formatTimeLeft,
+  isAnswered,
+  isResponseCorrect,
+  responseKey,
+  scorePreview,
+  type PreviewSection,
+  type StudentResponse,
+} from "@/lib/student-preview";
+import { formatCorrectAnswer } from "@/lib/utils";
+
+type StudentPreviewProps = {
+  /**
+   * Title shown above every screen
+   */
+  testTitle: string;
+  /**
+   * The modules in test order, each with its questions in order_in_test
+   * order; modules without questions are left out
+   */
+  sections: PreviewSection[];
+  /**
+   * Called when the preview is closed
+   */
+  onClose: () => void;
+};
+
+// Each section opens on its intro screen and starts its timer from there
+type Phase = "intro" | "question" | "summary";
+
+const formatResponse = (response: StudentResponse | undefined): string =>
+  !isAnswered(response)
+    ? "—"
+    : typeof response === "string"
+    ? response.trim()
+    : response.map((index) => String.fromCharCode(65 + index)).join(", ");
+
+/**
+ * Runs the assembled test the way a student takes it: module by module with
+ * a countdown from each section's duration, the instructions beside the
+ * question, selectable choices or a grid-in box, and a calculator
+ * placeholder on math sections. Ends with the score against the answer key.
+ * Nothing is saved.
+ * @param testTitle - Title shown above every screen
+ * @param sections - The modules in test order
+ * @param onClose - Called when the preview is closed
+ */
+export default function StudentPreview({
+  testTitle,
+  sections,
+  onClose,
+}: StudentPreviewProps) {
+  const [phase, setPhase] = useState<Phase>("intro");
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [responses, setResponses] = useState<Record<string, StudentResponse>>(
+    {}
+  );
+  const [showCalculator, setShowCalculator] = useState(false);
+
+  const section = sections[sectionIndex];
+  const question = section?.questions[questionIndex];
+  const key = responseKey(sectionIndex, questionIndex);
+  const response = responses[key];
+
+  useEffect(() => {
+    if (phase !== "question") return;
+    const timer = setInterval(() => setSecondsLeft((s) => s - 1), 1000);
+    return () => clearInterval(timer);
+  }, [phase, sectionIndex]);
+
+  // Time running out ends the section, as it does in the real test
+  useEffect(() => {
+    if (phase !== "question" || secondsLeft > 0) return;
+    if (sectionIndex + 1 < sections.length) {
+      setSectionIndex(sectionIndex + 1);
+      setQuestionIndex(0);
+      setPhase("intro");
+    } else {
+      setPhase("summary");
+    }
+  }, [phase, secondsLeft, sectionIndex, sections.length]);
+
+  const startSection = () => {
+    setSecondsLeft(section.settings.duration_minutes * 60);
+    setShowCalculator(false);
+    setPhase("question");
+  };
+
+  const finishSection = () => setSecondsLeft(0);
+
+  const restart = () => {
+    setResponses({});
+    setSectionIndex(0);
+    setQuestionIndex(0);
+    setPhase("intro");
+  };
+
+  const setResponse = (value: StudentResponse) =>
+    setResponses((current) => ({ ...current, [key]: value }));
+
+  const toggleChoice = (index: number) => {
+    const selected = Array.isArray(response) ? response : [];
+    if (question.question_type === "multi_select") {
+      setResponse(
+        selected.includes(index)
+          ? selected.filter((i) => i !== index)
+          : [...selected, index].sort((a, b) => a - b)
+      );
+    } else {
+      setResponse([index]);
+    }
+  };
+
+  const score = phase === "summary" ? scorePreview(sections, responses) : null;
+
+  return (
+    <div className="fixed inset-0 bg-white z-50 flex flex-col">
+      <div className="border-b border-gray-200 px-6 py-3 flex items-center justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-700">
+            Student preview · {testTitle || "Untitled test"}
+          </p>
+          {phase !== "summary" && section && (
+            <p className="font-semibold text-gray-900">
+              {section.settings.name}
+            </p>
+          )}
+        </div>
+        {phase === "question" && (
+          <span
+            className={`px-3 py-1 rounded font-mono text-lg font-semibold ${
+              secondsLeft <= 300
+                ? "bg-red-100 text-red-800"
+                : "bg-gray-100 text-gray-900"
+            }`}
+          >
+            {formatTimeLeft(secondsLeft)}
+          </span>
+        )}
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 text-2xl font-bold cursor-pointer"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {phase === "intro" && section && (
+          <div className="max-w-xl mx-auto py-16 px-6 text-center space-y-4">
+            <p className="text-sm text-gray-700">
+              Section {sectionIndex + 1} of {sections.length}
+            </p>
+            <h2 className="text-2xl font-bold text-gray-900">
+              {section.settings.name}
+            </h2>
+            <p className="text-gray-900">
+              {section.questions.length} questions ·{" "}
+              {section.settings.duration_minutes} minutes
+              {section.settings.is_math_section &&
+                (section.settings.is_desmos_allowed
+                  ? " · calculator allowed"
+                  : " · no calculator")}
+            </p>
+            <button
+              onClick={startSection}
+              disabled={section.questions.length === 0}
+              className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+            >
+              Start Section
+            </button>
+          </div>
+        )}
+
+        {phase === "question" && question && (
+          <div className="max-w-7xl mx-auto p-6 space-y-4">
+            {section.settings.is_math_section && (
+              <div>
+                <button
+                  onClick={() => setShowCalculator(!showCalculator)}
+                  disabled={!section.settings.is_desmos_allowed}
+                  className="px-3 py-1 text-sm bg-gray-100 text-gray-900 rounded hover:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed transition cursor-pointer"
+                >
+                  {section.settings.is_desmos_allowed
+                    ? showCalculator
+                      ? "Hide Calculator"
+                      : "Calculator"
+                    : "No calculator in this section"}
+                </button>
+                {showCalculator && (
+                  <div className="mt-2 h-48 flex items-center justify-center border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-700">
+                    The Desmos graphing calculator appears here for students
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div
+              className={`grid gap-6 ${
+                question.instructions.trim() ? "md:grid-cols-2" : ""
+              }`}
+            >
+              {question.instructions.trim() && (
+                <div className="p-4 border border-gray-200 rounded-lg text-gray-900 md:max-h-[65vh] md:overflow-y-auto">
+                  <MarkdownRenderer content={question.instructions} />
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <span className="px-2 py-1 bg-gray-900 text-white text-sm font-semibold rounded">
+                    {questionIndex + 1}
+                  </span>
+                  {question.question_type === "multi_select" && (
+                    <span className="text-sm text-gray-700">
+                      Select all that apply
+                    </span>
+                  )}
+                </div>
+                <div className="text-gray-900">
+                  <MarkdownRenderer content={question.question_text} />
+                </div>
+
+                {question.question_type === "numeric" ? (
+                  <input
+                    type="text"
+                    value={typeof response === "string" ? response : ""}
+                    onChange={(e) => setResponse(e.target.value)}
+                    placeholder="Enter your answer"
+                    className="w-48 px-4 py-2 border border-gray-400 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 font-mono text-lg"
+                  />
+                ) : (
+                  <div className="space-y-2">
+                    {question.answer_choices.map((choice, index) => {
+                      const selected =
+                        Array.isArray(response) && response.includes(index);
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => toggleChoice(index)}
+                          className={`w-full flex items-start gap-3 p-3 rounded-lg border text-left transition cursor-pointer ${
+                            selected
+                              ? "border-blue-600 bg-blue-50"
+                              : "border-gray-300 hover:bg-gray-50"
+                          }`}
+                        >
+                          <span
+                            className={`w-7 h-7 flex-shrink-0 flex items-center justify-center rounded-full border text-sm font-semibold ${
+                              selected
+                                ? "bg-blue-600 border-blue-600 text-white"
+                                : "border-gray-500 text-gray-900"
+                            }`}
+                          >
+                            {String.fromCharCode(65 + index)}
+                          </span>
+                          <div className="flex-1 text-gray-900">
+                            <MarkdownRenderer content={choice} size="sm" />
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {phase === "summary" && score && (
+          <div className="max-w-4xl mx-auto p-6 space-y-6">
+            <div className="text-center space-y-1">
+              <h2 className="text-2xl font-bold text-gray-900">
+                {score.correct} of {score.total} correct
+              </h2>
+              <p className="text-sm text-gray-700">
+                Checked against the answer key that will be uploaded
+              </p>
+            </div>
+
+            <table className="min-w-full border border-gray-900 text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+                    Section
+                  </th>
+                  <th className="px-4 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+                    Correct
+                  </th>
+                  <th className="px-4 py-2 border border-gray-900 text-left font-semibold text-gray-900">
+                    Answered
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {score.sections.map((sectionScore, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-2 border border-gray-900 text-gray-900">
+                      {sectionScore.name}
+                    </td>
+                    <td className="px-4 py-2 border border-gray-900 text-gray-900">
+                      {sectionScore.correct} / {sectionScore.total}
+                    </td>
+                    <td className="px-4 py-2 border border-gray-900 text-gray-900">
+                      {sectionScore.answered} / {sectionScore.total}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {sections.map((previewSection, sIndex) => (
+              <div key={sIndex}>
+                <h3 className="font-semibold text-gray-900 mb-2">
+                  {previewSection.settings.name}
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {previewSection.questions.map((q, qIndex) => {
+                    const given = responses[responseKey(sIndex, qIndex)];
+                    const correct = isResponseCorrect(q, given);
+                    return (
+                      <span
+                        key={qIndex}
+                        title={`${q.reference_id}: answered ${formatResponse(
+                          given
+                        )}, correct ${formatCorrectAnswer(q)}`}
+                        className={`px-2 py-1 rounded border text-xs font-mono ${
+                          correct
+                            ? "bg-green-50 border-green-300 text-green-800"
+                            : "bg-red-50 border-red-300 text-red-800"
+                        }`}
+                      >
+                        {qIndex + 1}. {formatResponse(given)}
+                        {!correct && ` → ${formatCorrectAnswer(q)}`}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 bg-gray-50 px-6 py-3 flex items-center justify-between gap-4">
+        {phase === "question" && section ? (
+          <>
+            <button
+              onClick={() => setQuestionIndex(questionIndex - 1)}
+              disabled={questionIndex === 0}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-900 rounded-lg hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+            >
+              Back
+            </button>
+            <div className="flex flex-wrap justify-center gap-1">
+              {section.questions.map((_, index) => (
+                <button
+                  key={index}
+                  onClick={() => setQuestionIndex(index)}
+                  className={`w-7 h-7 rounded text-xs font-semibold cursor-pointer ${
+                    index === questionIndex
+                      ? "bg-gray-900 text-white"
+                      : isAnswered(responses[responseKey(sectionIndex, index)])
+                      ? "bg-blue-100 text-blue-900"
+                      : "bg-white border border-dashed border-gray-400 text-gray-900"
+                  }`}
+                >
+                  {index + 1}
+                </button>
+              ))}
+            </div>
+            {questionIndex + 1 < section.questions.length ? (
+              <button
+                onClick={() => setQuestionIndex(questionIndex + 1)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium cursor-pointer"
+              >
+                Next
+              </button>
+            ) : (
+              <button
+                onClick={finishSection}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium cursor-pointer"
+              >
+                {sectionIndex + 1 < sections.length
+                  ? "Finish Section"
+                  : "Finish Test"}
+              </button>
+            )}
+          </>
+        ) : (
+          <>
+            <span />
+            <div className="flex gap-3">
+              {phase === "summary" && (
+                <button
+                  onClick={restart}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-900 rounded-lg hover:bg-gray-100 transition font-medium cursor-pointer"
+                >
+                  Start Over
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium cursor-pointer"
+              >
+                Close Preview
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
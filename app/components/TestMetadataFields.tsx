@@ -0,0 +1,112 @@
+import type { TestDetails, TestDetailsField } from "@/lib/test-details";
+
+export type TestMetadata = Pick<
+  TestDetails,
+  "reference_id" | "test_date" | "is_monitored" | "is_archived"
+>;
+
+type TestMetadataFieldsProps = {
+  /**
+   * Current values of the optional test fields
+   */
+  metadata: TestMetadata;
+  /**
+   * Called with the fields that were edited
+   */
+  onChange: (changes: Partial<TestMetadata>) => void;
+  /**
+   * Validation messages keyed by field
+   */
+  errors?: Partial<Record<TestDetailsField, string>>;
+  /**
+   * Whether the reference code is still being checked against existing tests
+   */
+  checkingReferenceId?: boolean;
+  /**
+   * Whether the inputs are read-only, e.g. while uploading
+   */
+  disabled?: boolean;
+};
+
+const inputClass =
+  "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900";
+
+/**
+ * The optional fields of a new test: a unique reference code, a scheduled
+ * date, proctored mode and whether it starts archived as a draft.
+ * @param metadata - Current values
+ * @param onChange - Called with edited fields
+ * @param errors - Validation messages keyed by field
+ * @param checkingReferenceId - Whether the reference code is being checked
+ * @param disabled - Whether the inputs are read-only
+ */
+export default function TestMetadataFields({
+  metadata,
+  onChange,
+  errors = {},
+  checkingReferenceId = false,
+  disabled = false,
+}: TestMetadataFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-900 mb-2">
+          Test Reference Code
+        </label>
+        <input
+          type="text"
+          value={metadata.reference_id ?? ""}
+          onChange={(e) => onChange({ reference_id: e.target.value })}
+          placeholder="e.g., SAT-2026-10"
+          className={inputClass}
+          disabled={disabled}
+        />
+        {errors.reference_id ? (
+          <p className="text-sm text-red-700 mt-1">{errors.reference_id}</p>
+        ) : (
+          checkingReferenceId && (
+            <p className="text-xs text-gray-700 mt-1">
+              Checking whether the code is already used...
+            </p>
+          )
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-900 mb-2">
+          Scheduled Date
+        </label>
+        <input
+          type="date"
+          value={metadata.test_date ?? ""}
+          onChange={(e) => onChange({ test_date: e.target.value })}
+          className={inputClass}
+          disabled={disabled}
+        />
+        {errors.test_date && (
+          <p className="text-sm text-red-700 mt-1">{errors.test_date}</p>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={metadata.is_monitored ?? false}
+          onChange={(e) => onChange({ is_monitored: e.target.checked })}
+          disabled={disabled}
+        />
+        Monitored (proctored) test
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={metadata.is_archived ?? false}
+          onChange={(e) => onChange({ is_archived: e.target.checked })}
+          disabled={disabled}
+        />
+        Save as a draft (archived, hidden from students)
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import MarkdownRenderer from "@/app/components/MarkdownRenderer";
+import type { TestContent } from "@/lib/database";
+import { QUESTION_DIFF_FIELDS, diffWords } from "@/lib/question-diff";
+import type { RevisionChange, TestRevisionPlan } from "@/lib/test-revision";
+
+type TestRevisionDiffProps = {
+  /**
+   * The stored test the revised files are compared with
+   */
+  content: TestContent;
+  /**
+   * Differences between the stored test and the revised files
+   */
+  plan: TestRevisionPlan;
+  /**
+   * Ids of the changes that will be applied
+   */
+  selected: Set<string>;
+  /**
+   * Called when a change is ticked or unticked
+   */
+  onToggle: (changeId: string, selected: boolean) => void;
+  /**
+   * Called to tick or untick every change at once
+   */
+  onToggleAll: (selected: boolean) => void;
+  /**
+   * Whether the checkboxes are disabled
+   */
+  disabled?: boolean;
+};
+
+const KIND_STYLES: Record<RevisionChange["kind"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  reordered: "bg-blue-100 text-blue-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+// A field's stored and revised text in one run, with the edit highlighted
+function TextDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="px-2 py-1 bg-gray-50 border border-gray-200 rounded font-mono text-xs text-gray-900 whitespace-pre-wrap break-words">
+      {diffWords(before, after).map((part, index) =>
+        part.kind === "same" ? (
+          <span key={index}>{part.text}</span>
+        ) : part.kind === "removed" ? (
+          <del key={index} className="bg-red-100 text-red-800">
+            {part.text}
+          </del>
+        ) : (
+          <ins key={index} className="bg-green-100 text-green-800 no-underline">
+            {part.text}
+          </ins>
+        )
+      )}
+    </p>
+  );
+}
+
+function ChangeDetails({ change }: { change: RevisionChange }) {
+  switch (change.kind) {
+    case "added":
+    case "removed":
+      return (
+        <div className="text-sm text-gray-900">
+          <p className="mb-1">
+            <span className="font-mono font-semibold">
+              {change.question.reference_id}
+            </span>{" "}
+            {change.kind === "added"
+              ? `is added at position ${change.position}`
+              : `is removed from position ${change.position} (it stays in the question bank)`}
+          </p>
+          <MarkdownRenderer content={change.question.question_text} size="sm" />
+        </div>
+      );
+
+    case "reordered":
+      return (
+        <div className="text-sm text-gray-900">
+          <p className="mb-1">Questions are put in the revised order:</p>
+          <ul className="list-disc list-inside">
+            {change.moves.map((move) => (
+              <li key={move.reference_id}>
+                <span className="font-mono font-semibold">
+                  {move.reference_id}
+                </span>{" "}
+                moves from position {move.from} to {move.to}
+              </li>
+            ))}
+          </ul>
+        </div>
+      );
+
+    case "changed":
+      return (
+        <div className="text-sm text-gray-900 space-y-2">
+          <p>
+            <span className="font-mono font-semibold">
+              {change.update.reference_id}
+            </span>{" "}
+            <span className="font-mono text-xs text-gray-700">
+              ({change.update.question_id})
+            </span>
+          </p>
+          {change.update.changes.map((fieldChange) => {
+            const markdown = QUESTION_DIFF_FIELDS.find(
+              (f) => f.field === fieldChange.field
+            )?.markdown;
+            return (
+              <div key={fieldChange.field}>
+                <p className="font-semibold">{fieldChange.label}</p>
+                <TextDiff
+                  before={fieldChange.before}
+                  after={fieldChange.after}
+                />
+                {markdown && (
+                  <details className="mt-1">
+                    <summary className="text-xs text-blue-600 cursor-pointer">
+                      Show rendered
+                    </summary>
+                    <div className="grid grid-cols-2 gap-2 mt-1">
+                      <div className="p-2 bg-red-50 border border-red-200 rounded">
+                        <MarkdownRenderer
+                          content={fieldChange.before}
+                          size="sm"
+                        />
+                      </div>
+                      <div className="p-2 bg-green-50 border border-green-200 rounded">
+                        <MarkdownRenderer
+                          content={fieldChange.after}
+                          size="sm"
+                        />
+                      </div>
+                    </div>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      );
+  }
+}
+
+/**
+ * Lists the differences between a stored test and its revised files, section
+ * by section: added, removed and reordered questions, and field changes with
+ * the edited text highlighted word by word. Each change has a checkbox, and
+ * only ticked changes are applied.
+ * @param content - The stored test
+ * @param plan - Differences between the stored test and the revised files
+ * @param selected - Ids of the changes that will be applied
+ * @param onToggle - Called when a change is ticked or unticked
+ * @param onToggleAll - Called to tick or untick every change
+ * @param disabled - Whether the checkboxes are disabled
+ */
+export default function TestRevisionDiff({
+  content,
+  plan,
+  selected,
+  onToggle,
+  onToggleAll,
+  disabled = false,
+}: TestRevisionDiffProps) {
+  const { changes, unchanged } = plan;
+  const selectedCount = changes.filter((c) => selected.has(c.id)).length;
+
+  return (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <p className="text-sm font-semibold text-blue-900">
+          {changes.length} change{changes.length === 1 ? "" : "s"} to &quot;
+          {content.test.title}&quot;, {selectedCount} selected
+          {unchanged.length > 0 && ` (${unchanged.length} questions unchanged)`}
+        </p>
+        {changes.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => onToggleAll(true)}
+              disabled={disabled}
+              className="px-3 py-1 text-xs bg-white border border-blue-300 text-blue-800 rounded hover:bg-blue-100 transition cursor-pointer"
+            >
+              Select all
+            </button>
+            <button
+              onClick={() => onToggleAll(false)}
+              disabled={disabled}
+              className="px-3 py-1 text-xs bg-white border border-blue-300 text-blue-800 rounded hover:bg-blue-100 transition cursor-pointer"
+            >
+              Select none
+            </button>
+          </div>
+        )}
+      </div>
+
+      {changes.length === 0 && (
+        <p className="text-sm text-blue-900">
+          The revised files match the stored test.
+        </p>
+      )}
+
+      <div className="space-y-4 max-h-[40rem] overflow-y-auto">
+        {content.sections.map((section, index) => {
+          const sectionChanges = changes.filter(
+            (c) => c.test_section_id === section.test_section_id
+          );
+          if (sectionChanges.length === 0) return null;
+
+          return (
+            <div key={section.test_section_id}>
+              <p className="text-sm font-semibold text-gray-900 mb-2">
+                Module {index + 1}:{" "}
+                {section.section?.name ?? section.test_section_id}
+              </p>
+              <ul className="space-y-2">
+                {sectionChanges.map((change) => (
+                  <li
+                    key={change.id}
+                    className="flex gap-3 p-3 bg-white border border-blue-200 rounded-lg"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(change.id)}
+                      onChange={(e) => onToggle(change.id, e.target.checked)}
+                      disabled={disabled}
+                      className="mt-1 w-4 h-4 flex-shrink-0"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <span
+                        className={`inline-block mb-1 px-2 py-0.5 rounded text-xs font-medium ${
+                          KIND_STYLES[change.kind]
+                        }`}
+                      >
+                        {change.kind}
+                      </span>
+                      <ChangeDetails change={change} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import {
+  countIssues,
+  formatIssueLocation,
+  type ValidationReport,
+} from "@/lib/validation";
+
+type ValidationReportPanelProps = {
+  /**
+   * The validation report to display
+   */
+  report: ValidationReport;
+};
+
+/**
+ * Lists every problem found while parsing a module, errors first, with the
+ * sheet/cell location so authors can jump straight to the offending row.
+ * @param report - The validation report to display
+ */
+export default function ValidationReportPanel({
+  report,
+}: ValidationReportPanelProps) {
+  const { errors, warnings } = countIssues(report);
+
+  if (errors === 0 && warnings === 0) {
+    return (
+      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+        <p className="text-green-800 text-sm">No problems found</p>
+      </div>
+    );
+  }
+
+  const sortedIssues = [...report.issues].sort(
+    (a, b) =>
+      Number(b.severity === "error") - Number(a.severity === "error") ||
+      (a.row ?? 0) - (b.row ?? 0)
+  );
+
+  return (
+    <div
+      className={`p-3 border rounded-lg ${
+        errors > 0
+          ? "bg-red-50 border-red-200"
+          : "bg-yellow-50 border-yellow-200"
+      }`}
+    >
+      <p
+        className={`text-sm font-semibold mb-2 ${
+          errors > 0 ? "text-red-800" : "text-yellow-800"
+        }`}
+      >
+        {errors} error{errors === 1 ? "" : "s"}, {warnings} warning
+        {warnings === 1 ? "" : "s"}
+        {errors > 0 && " — fix the errors before uploading"}
+      </p>
+      <ul className="space-y-1 max-h-60 overflow-y-auto">
+        {sortedIssues.map((issue, idx) => (
+          <li key={idx} className="flex items-start gap-2 text-sm">
+            <span
+              className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${
+                issue.severity === "error"
+                  ? "bg-red-100 text-red-800"
+                  : "bg-yellow-100 text-yellow-800"
+              }`}
+            >
+              {issue.severity}
+            </span>
+            <span className="font-mono text-gray-900 flex-shrink-0">
+              {formatIssueLocation(issue)}
+            </span>
+            {(issue.reference_id || issue.field) && (
+              <span className="text-gray-700 flex-shrink-0">
+                {`[${[issue.reference_id, issue.field]
+                  .filter(Boolean)
+                  .join(" · ")}]`}
+              </span>
+            )}
+            <span className="text-gray-800">{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
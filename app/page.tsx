@@ -1,13 +1,110 @@
 "use client";
 
-import { useState } from "react";
-import { parseExcelFile, convertParsedQuestions } from "@/lib/excel-parser";
+import { useEffect, useState } from "react";
+import { writeFile, type WorkBook } from "xlsx";
+import Link from "next/link";
 import {
+  readWorkbook,
+  parseWorkbookSheets,
+  previewSheetColumns,
+  suggestColumnAssignments,
+  analyzeColumnAssignments,
+  hasMappingProblems,
+  convertParsedQuestions,
+  type ColumnAssignments,
+  type SheetParseResult,
+} from "@/lib/excel-parser";
+import { GRID_IN_RULES, type GridInRulesId } from "@/lib/grid-in";
+import {
+  applyMappingProfile,
+  findMatchingProfile,
+  saveMappingProfile,
+} from "@/lib/mapping-profiles";
+import {
+  fetchQuestionsByReferenceIds,
+  fetchTestContent,
+  testReferenceIdExists,
   uploadBulkData,
   type ModuleData,
+  type TestContent,
+  type TestRevisionResult,
   type UploadProgress,
 } from "@/lib/database";
+import {
+  buildTestWorkbook,
+  exportFileName,
+  type ExportOptions,
+} from "@/lib/excel-export";
+import {
+  discardUploadOnServer,
+  resumeUploadOnServer,
+  reviseTestOnServer,
+  updateExistingQuestionsOnServer,
+  uploadBulkDataOnServer,
+} from "@/lib/upload-client";
+import { createMemoryImageStorage } from "@/lib/image-storage";
+import { createMemoryRepository, type MemoryTables } from "@/lib/repository";
+import { testDetailsErrors, type TestDetails } from "@/lib/test-details";
+import {
+  sectionSettingsErrors,
+  type SectionSettings,
+} from "@/lib/test-sections";
+import {
+  TEST_TEMPLATES,
+  checkModuleCount,
+  checkQuestionCounts,
+  isFullTestUpload,
+  templateSectionSettings,
+  type TestTemplate,
+  type TestTemplateId,
+} from "@/lib/test-templates";
+import {
+  planQuestionUpdates,
+  type QuestionUpdatePlan,
+} from "@/lib/question-diff";
+import { isQuestionModified, revalidateEdits } from "@/lib/question-edit";
+import {
+  NO_FILTERS,
+  filterQuestions,
+  isFiltering,
+  toggleSort,
+  type QuestionFilters,
+  type QuestionSort,
+} from "@/lib/question-filter";
+import {
+  applyRevisionResolutions,
+  newlyAddedQuestions,
+  planTestRevision,
+  type RevisedSection,
+} from "@/lib/test-revision";
+import {
+  arrangedReport,
+  excludeQuestion,
+  moveQuestion,
+  restoreQuestion,
+  type ExcludedQuestion,
+} from "@/lib/module-arrangement";
+import {
+  deleteUploadJournal,
+  loadInterruptedUploads,
+  persistUploadJournal,
+  type UploadJournal,
+} from "@/lib/upload-journal";
+import {
+  applyConflictResolutions,
+  findBankConflicts,
+  findBatchDuplicates,
+  unresolvedConflicts,
+  type ConflictResolution,
+} from "@/lib/duplicates";
 import { Question } from "@/lib/supabase";
+import {
+  countIssues,
+  createReport,
+  hasErrors,
+  mergeReports,
+  type ValidationReport,
+} from "@/lib/validation";
 import {
   DndContext,
   closestCenter,
@@ -25,25 +122,151 @@ import {
   useSortable,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import MarkdownRenderer from "@/app/components/MarkdownRenderer";
+import QuestionTable from "@/app/components/QuestionTable";
+import QuestionDetailsModal from "@/app/components/QuestionDetailsModal";
+import ValidationReportPanel from "@/app/components/ValidationReportPanel";
+import SheetPicker from "@/app/components/SheetPicker";
+import ColumnMappingDialog from "@/app/components/ColumnMappingDialog";
+import ConflictResolutionPanel from "@/app/components/ConflictResolutionPanel";
+import QuestionChangeList from "@/app/components/QuestionChangeList";
+import TestRevisionDiff from "@/app/components/TestRevisionDiff";
+import PreviewToolbar from "@/app/components/PreviewToolbar";
+import InterruptedUploads from "@/app/components/InterruptedUploads";
+import DryRunResult from "@/app/components/DryRunResult";
+import SectionSettingsForm from "@/app/components/SectionSettingsForm";
+import TestMetadataFields, {
+  type TestMetadata,
+} from "@/app/components/TestMetadataFields";
+import ExportTestPanel from "@/app/components/ExportTestPanel";
+import StudentPreview from "@/app/components/StudentPreview";
+import SignInPanel from "@/app/components/SignInPanel";
+
+// "create" builds a new test; "update" rewrites stored questions in place by
+// reference_id; "revise" diffs the files against a stored test and applies
+// the selected changes to it
+type UploadMode = "create" | "update" | "revise";
 
 interface FileWithModule {
   id: string;
   file: File;
+  // Set when the module is one sheet of a multi-sheet workbook
+  sheetName?: string;
   moduleNumber: number;
-  questionCount: number;
+  // Arranged and edited in the preview; originalQuestions keeps the parsed
+  // values to revert to, index for index
   questions: Question[];
+  originalQuestions: Question[];
+  excludedQuestions: ExcludedQuestion[];
+  // Worksheet the questions were read from and the grid-in rules they were
+  // parsed with, so edits are checked the same way
+  sourceSheet: string;
+  gridInRules: GridInRulesId;
+  report: ValidationReport;
+}
+
+interface PendingWorkbook {
+  id: string;
+  file: File;
+  workbook: WorkBook;
+  splitSheets: boolean;
+  gridInRules: GridInRulesId;
+  // Set while the column mapping still needs confirming
+  mapping?: {
+    columns: { header: string; sample: string }[];
+    assignments: ColumnAssignments;
+  };
+  // Set once parsed, while waiting for the sheet picker
+  sheets?: SheetParseResult[];
+}
+
+function createModuleEntry(
+  id: string,
+  file: File,
+  sheet: SheetParseResult,
+  gridInRules: GridInRulesId,
+  sheetName?: string
+): FileWithModule {
+  const questions = convertParsedQuestions(sheet.questions);
+
+  // Files with problems are still listed so their report can be reviewed
+  return {
+    id,
+    file,
+    sheetName,
+    moduleNumber: 0,
+    questions,
+    originalQuestions: questions,
+    excludedQuestions: [],
+    sourceSheet: sheet.sheetName,
+    gridInRules,
+    report: sheet.report,
+  };
+}
+
+// Parses a workbook once its column mapping is settled. Multi-sheet workbooks
+// in split mode come back with their sheets parsed, ready for the sheet picker.
+function parsePendingWorkbook(
+  pending: PendingWorkbook,
+  assignments: ColumnAssignments
+): { modules: FileWithModule[]; awaitingSheets?: PendingWorkbook } {
+  const { workbook, file } = pending;
+  const options = {
+    assignments,
+    gridInRules: GRID_IN_RULES[pending.gridInRules],
+  };
+
+  if (pending.splitSheets && workbook.SheetNames.length > 1) {
+    return {
+      modules: [],
+      awaitingSheets: {
+        ...pending,
+        mapping: undefined,
+        sheets: parseWorkbookSheets(workbook, workbook.SheetNames, options),
+      },
+    };
+  }
+
+  const [sheet] = parseWorkbookSheets(
+    workbook,
+    [workbook.SheetNames[0]],
+    options
+  );
+  if (workbook.SheetNames.length > 1) {
+    sheet.report = mergeReports(
+      sheet.report,
+      createReport([
+        {
+          severity: "warning",
+          sheet: sheet.sheetName,
+          message: `Workbook has ${workbook.SheetNames.length} sheets but only the first was read. Enable the multi-sheet option to use the others.`,
+        },
+      ])
+    );
+  }
+
+  return {
+    modules: [createModuleEntry(pending.id, file, sheet, pending.gridInRules)],
+  };
+}
+
+function moduleLabel(file: FileWithModule): string {
+  return `Module ${file.moduleNumber} (${file.file.name}${
+    file.sheetName ? ` › ${file.sheetName}` : ""
+  })`;
 }
 
 function SortableFileItem({
   file,
+  report,
   onRemove,
 }: {
   file: FileWithModule;
+  report: ValidationReport;
   onRemove: () => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition } =
     useSortable({ id: file.id });
+  const { errors, warnings } = countIssues(report);
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -80,9 +303,22 @@ function SortableFileItem({
           <div className="font-semibold text-gray-900">
             Module {file.moduleNumber}
           </div>
-          <div className="text-sm text-gray-800">{file.file.name}</div>
+          <div className="text-sm text-gray-800">
+            {file.file.name}
+            {file.sheetName && ` › ${file.sheetName}`}
+          </div>
           <div className="text-xs text-gray-700">
-            {file.questionCount} questions
+            {file.questions.length} questions
+            {errors > 0 && (
+              <span className="ml-2 text-red-700 font-semibold">
+                {errors} error{errors === 1 ? "" : "s"}
+              </span>
+            )}
+            {warnings > 0 && (
+              <span className="ml-2 text-yellow-700 font-semibold">
+                {warnings} warning{warnings === 1 ? "" : "s"}
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -106,14 +342,86 @@ export default function Home() {
   );
   const [testTitle, setTestTitle] = useState("");
   const [testDescription, setTestDescription] = useState("");
+  const [testMetadata, setTestMetadata] = useState<TestMetadata>({});
+  // Whether the entered reference code is already used; null until checked
+  const [referenceIdTaken, setReferenceIdTaken] = useState<boolean | null>(
+    null
+  );
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<{
     test_id: string;
     total_questions: number;
   } | null>(null);
-  const [selectedQuestion, setSelectedQuestion] = useState<Question | null>(
+  const [uploadMode, setUploadMode] = useState<UploadMode>("create");
+  const [testTemplate, setTestTemplate] = useState<TestTemplateId>("custom");
+  const [updateResult, setUpdateResult] = useState<QuestionUpdatePlan | null>(
+    null
+  );
+  // The stored test a revise compares the files with
+  const [revisionTestId, setRevisionTestId] = useState("");
+  const [revisionTarget, setRevisionTarget] = useState<TestContent | null>(
     null
   );
+  const [isLoadingRevisionTarget, setIsLoadingRevisionTarget] = useState(false);
+  // Every change starts out selected; these are the ones unticked
+  const [unselectedChanges, setUnselectedChanges] = useState<string[]>([]);
+  const [revisionResult, setRevisionResult] =
+    useState<TestRevisionResult | null>(null);
+  // Runs the upload against an in-memory backend and shows what it would write
+  const [dryRun, setDryRun] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<MemoryTables | null>(null);
+  // Position of the question open in the details modal, so edits made there
+  // land in the module
+  const [selectedQuestion, setSelectedQuestion] = useState<{
+    fileId: string;
+    index: number;
+  } | null>(null);
+  const [isStudentPreview, setIsStudentPreview] = useState(false);
+  // Narrow and order the preview tables; every module uses the same ones
+  const [previewFilters, setPreviewFilters] =
+    useState<QuestionFilters>(NO_FILTERS);
+  const [previewSort, setPreviewSort] = useState<QuestionSort>(null);
+  const [splitSheets, setSplitSheets] = useState(false);
+  const [gridInRules, setGridInRules] = useState<GridInRulesId>("digital_sat");
+  const [pendingWorkbooks, setPendingWorkbooks] = useState<PendingWorkbook[]>(
+    []
+  );
+  // Stored questions sharing a reference_id with the batch; null while the lookup runs
+  const [existingQuestions, setExistingQuestions] = useState<
+    Question[] | null
+  >(null);
+  const [bankCheckError, setBankCheckError] = useState<string | null>(null);
+  const [bankCheckAttempt, setBankCheckAttempt] = useState(0);
+  const [conflictResolutions, setConflictResolutions] = useState<
+    Record<string, ConflictResolution>
+  >({});
+  const [interruptedUploads, setInterruptedUploads] = useState<
+    UploadJournal[]
+  >([]);
+  // Section settings edited per module; modules left alone use the defaults for their position
+  const [sectionSettings, setSectionSettings] = useState<
+    Record<string, SectionSettings>
+  >({});
+
+  const template: TestTemplate = TEST_TEMPLATES[testTemplate];
+  const maxModules =
+    uploadMode === "revise" && revisionTarget
+      ? revisionTarget.sections.length
+      : template.sections.length;
+
+  const referenceId = testMetadata.reference_id?.trim() ?? "";
+  const testDetails: TestDetails = {
+    title: testTitle,
+    description: testDescription,
+    reference_id: referenceId || undefined,
+    test_date: testMetadata.test_date || undefined,
+    is_monitored: testMetadata.is_monitored ?? false,
+    is_archived: testMetadata.is_archived ?? false,
+  };
+  const detailsErrors = testDetailsErrors(testDetails);
+  if (referenceIdTaken && !detailsErrors.reference_id) {
+    detailsErrors.reference_id = `A test with reference code "${referenceId}" already exists`;
+  }
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -131,29 +439,48 @@ export default function Home() {
 
     try {
       const newFiles: FileWithModule[] = [];
+      const newWorkbooks: PendingWorkbook[] = [];
 
       for (let i = 0; i < uploadedFiles.length; i++) {
         const file = uploadedFiles[i];
-        const parsedQuestions = await parseExcelFile(file);
-        const questions = convertParsedQuestions(parsedQuestions);
+        const workbook = await readWorkbook(file);
+        const columns = previewSheetColumns(
+          workbook.Sheets[workbook.SheetNames[0]]
+        );
+        const headers = columns.map((c) => c.header);
+        const pending: PendingWorkbook = {
+          id: `${Date.now()}-${i}`,
+          file,
+          workbook,
+          splitSheets,
+          gridInRules,
+        };
 
-        // Validate that file contains questions
-        if (questions.length === 0) {
-          throw new Error(
-            `File "${file.name}" contains no valid questions. Please verify the column headers match the expected format (e.g., 'question_id', 'Question_ID', or 'Question ID').`
-          );
+        // A saved profile for these headers is trusted as-is; otherwise
+        // unmapped or ambiguous headers go through the mapping step first
+        const profile = findMatchingProfile(headers);
+        const assignments = profile
+          ? applyMappingProfile(headers, profile)
+          : suggestColumnAssignments(headers);
+        if (
+          !profile &&
+          headers.some(Boolean) &&
+          hasMappingProblems(analyzeColumnAssignments(assignments))
+        ) {
+          newWorkbooks.push({ ...pending, mapping: { columns, assignments } });
+          continue;
         }
 
-        newFiles.push({
-          id: `${Date.now()}-${i}`,
-          file,
-          moduleNumber: files.length + i + 1,
-          questionCount: questions.length,
-          questions,
-        });
+        const { modules, awaitingSheets } = parsePendingWorkbook(
+          pending,
+          assignments
+        );
+        newFiles.push(...modules);
+        if (awaitingSheets) newWorkbooks.push(awaitingSheets);
       }
 
-      setFiles([...files, ...newFiles]);
+      appendModules(newFiles);
+      setPendingWorkbooks((queue) => [...queue, ...newWorkbooks]);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to parse Excel files"
@@ -164,6 +491,60 @@ export default function Home() {
     }
   };
 
+  // Modules beyond the template's sections are kept, so the module count
+  // check can report them instead of files disappearing
+  const appendModules = (newFiles: FileWithModule[]) => {
+    setFiles((items) =>
+      [...items, ...newFiles].map((item, index) => ({
+        ...item,
+        moduleNumber: index + 1,
+      }))
+    );
+  };
+
+  const handleMappingConfirm = (
+    assignments: ColumnAssignments,
+    profileName?: string
+  ) => {
+    const [pending] = pendingWorkbooks;
+    if (profileName) {
+      saveMappingProfile(
+        profileName,
+        pending.mapping!.columns.map((c) => c.header),
+        assignments
+      );
+    }
+
+    const { modules, awaitingSheets } = parsePendingWorkbook(
+      pending,
+      assignments
+    );
+    appendModules(modules);
+    setPendingWorkbooks((queue) =>
+      awaitingSheets ? [awaitingSheets, ...queue.slice(1)] : queue.slice(1)
+    );
+  };
+
+  const handleSheetsConfirm = (sheetNames: string[]) => {
+    const [pending] = pendingWorkbooks;
+    const newFiles = sheetNames.map((sheetName) =>
+      createModuleEntry(
+        `${pending.id}-${sheetName}`,
+        pending.file,
+        pending.sheets!.find((sheet) => sheet.sheetName === sheetName)!,
+        pending.gridInRules,
+        sheetName
+      )
+    );
+
+    appendModules(newFiles);
+    setPendingWorkbooks((queue) => queue.slice(1));
+  };
+
+  const handlePendingCancel = () => {
+    setPendingWorkbooks((queue) => queue.slice(1));
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
@@ -191,13 +572,335 @@ export default function Home() {
     setFiles(newFiles);
   };
 
+  useEffect(() => {
+    loadInterruptedUploads().then(setInterruptedUploads);
+  }, []);
+
+  // Waits for a pause in typing before asking the database about the code
+  useEffect(() => {
+    let cancelled = false;
+
+    setReferenceIdTaken(null);
+    if (!referenceId) return;
+
+    const timer = setTimeout(() => {
+      testReferenceIdExists(referenceId)
+        .then((taken) => {
+          if (!cancelled) setReferenceIdTaken(taken);
+        })
+        // The upload checks again, so a failed lookup only loses the early warning
+        .catch((err) => {
+          console.error(err);
+          if (!cancelled) setReferenceIdTaken(false);
+        });
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [referenceId]);
+
+  // Only the set of reference_ids matters for the lookup, not module order
+  const referenceIdsKey = [
+    ...new Set(files.flatMap((f) => f.questions.map((q) => q.reference_id))),
+  ]
+    .sort()
+    .join("\n");
+
+  useEffect(() => {
+    const referenceIds = referenceIdsKey ? referenceIdsKey.split("\n") : [];
+    let cancelled = false;
+
+    setExistingQuestions(referenceIds.length === 0 ? [] : null);
+    setBankCheckError(null);
+    if (referenceIds.length === 0) return;
+
+    fetchQuestionsByReferenceIds(referenceIds)
+      .then((existing) => {
+        if (!cancelled) setExistingQuestions(existing);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setBankCheckError(
+            err instanceof Error
+              ? err.message
+              : "Failed to look up existing questions"
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [referenceIdsKey, bankCheckAttempt]);
+
+  const allQuestions = files.flatMap((f) => f.questions);
+  // Preview of an update; images still embedded as data show as changed until uploaded
+  const plannedUpdates =
+    existingQuestions && uploadMode === "update"
+      ? planQuestionUpdates(allQuestions, existingQuestions)
+      : null;
+
+  const batchModules = files.map((file) => ({
+    id: file.id,
+    label: moduleLabel(file),
+    sheet: file.sheetName ?? file.file.name,
+    questions: file.questions,
+  }));
+  // Reference ids repeated across modules and question counts that do not fit
+  // the template are errors alongside each sheet's own report
+  const batchDuplicates = findBatchDuplicates(batchModules);
+  const templateIssues =
+    uploadMode === "create" ? checkQuestionCounts(template, batchModules) : {};
+  const reportFor = (file: FileWithModule): ValidationReport =>
+    mergeReports(
+      revalidateEdits(
+        arrangedReport(file, files),
+        file.originalQuestions,
+        file.questions,
+        file.sourceSheet,
+        GRID_IN_RULES[file.gridInRules]
+      ),
+      createReport(batchDuplicates[file.id] || []),
+      createReport(templateIssues[file.id] || [])
+    );
+  const editedCount = (file: FileWithModule): number =>
+    file.questions.filter((question, index) =>
+      isQuestionModified(file.originalQuestions[index], question)
+    ).length;
+  const moduleCountProblem =
+    uploadMode === "create"
+      ? checkModuleCount(template, files.length)
+      : uploadMode === "revise" &&
+        revisionTarget &&
+        files.length > revisionTarget.sections.length
+      ? `The test has ${revisionTarget.sections.length} sections, but ${files.length} modules were added. Remove the extra modules.`
+      : null;
+
+  // Module i replaces the test's section i
+  const revisedSections: RevisedSection[] = revisionTarget
+    ? files.slice(0, revisionTarget.sections.length).map((file, index) => ({
+        test_section_id: revisionTarget.sections[index].test_section_id,
+        questions: file.questions,
+      }))
+    : [];
+  const revisionPlan =
+    uploadMode === "revise" && revisionTarget && !moduleCountProblem
+      ? planTestRevision(revisionTarget, revisedSections)
+      : null;
+  const selectedChanges = new Set(
+    (revisionPlan?.changes ?? [])
+      .map((change) => change.id)
+      .filter((id) => !unselectedChanges.includes(id))
+  );
+
+  // A revise only looks up the questions it adds that the test does not link yet
+  const bankConflicts = existingQuestions
+    ? findBankConflicts(
+        uploadMode === "revise"
+          ? revisionPlan && revisionTarget
+            ? newlyAddedQuestions(revisionTarget, revisionPlan, selectedChanges)
+            : []
+          : allQuestions,
+        existingQuestions
+      )
+    : null;
+  const pendingConflicts =
+    bankConflicts && uploadMode !== "update"
+      ? unresolvedConflicts(bankConflicts, conflictResolutions)
+      : [];
+
+  const hasValidationErrors = files.some((file) => hasErrors(reportFor(file)));
+
+  // Positions of each module's questions the preview shows
+  const previewRows = Object.fromEntries(
+    files.map((file) => [
+      file.id,
+      filterQuestions(
+        file.questions,
+        reportFor(file),
+        previewFilters,
+        previewSort
+      ),
+    ])
+  );
+  const isNarrowed = isFiltering(previewFilters) || previewSort !== null;
+  const previewTags = [
+    ...new Set(allQuestions.map((q) => q.tag).filter(Boolean)),
+  ].sort();
+
+  const sectionSettingsFor = (file: FileWithModule): SectionSettings =>
+    sectionSettings[file.id] ??
+    templateSectionSettings(template, file.moduleNumber);
+  const hasSectionErrors =
+    uploadMode === "create" &&
+    files.some(
+      (file) => sectionSettingsErrors(sectionSettingsFor(file)).length > 0
+    );
+
+  // The modules as they will be uploaded, with skipped questions left out
+  const uploadModules = (): ModuleData[] =>
+    applyConflictResolutions(
+      files.map((f) => ({
+        moduleNumber: f.moduleNumber,
+        questions: f.questions,
+        section: sectionSettingsFor(f),
+      })),
+      bankConflicts ?? [],
+      conflictResolutions
+    );
+
+  const handleQuestionChange = (
+    fileId: string,
+    index: number,
+    question: Question
+  ) => {
+    setFiles((items) =>
+      items.map((item) =>
+        item.id === fileId
+          ? {
+              ...item,
+              questions: item.questions.map((q, i) =>
+                i === index ? question : q
+              ),
+            }
+          : item
+      )
+    );
+  };
+
+  const handleQuestionReorder = (
+    fileId: string,
+    fromIndex: number,
+    toIndex: number
+  ) => {
+    setFiles((items) =>
+      moveQuestion(
+        items,
+        { moduleId: fileId, index: fromIndex },
+        { moduleId: fileId, index: toIndex }
+      )
+    );
+  };
+
+  // Moved questions go to the end of the target module
+  const handleQuestionMove = (
+    fileId: string,
+    index: number,
+    targetId: string
+  ) => {
+    setFiles((items) =>
+      moveQuestion(
+        items,
+        { moduleId: fileId, index },
+        {
+          moduleId: targetId,
+          index: items.find((item) => item.id === targetId)!.questions.length,
+        }
+      )
+    );
+  };
+
+  const selectedFile = selectedQuestion
+    ? files.find((file) => file.id === selectedQuestion.fileId)
+    : undefined;
+
+  const handleResolveAll = (resolution: ConflictResolution) => {
+    setConflictResolutions((current) => ({
+      ...current,
+      ...Object.fromEntries(
+        (bankConflicts || []).map((c) => [c.reference_id, resolution])
+      ),
+    }));
+  };
+
   const handlePreview = () => {
     setIsPreviewing(!isPreviewing);
   };
 
+  const handleUpdate = async () => {
+    setIsUploading(true);
+    setError(null);
+    setSuccess(null);
+    setUpdateResult(null);
+    setDryRunResult(null);
+
+    try {
+      const result = await updateExistingQuestionsOnServer(
+        allQuestions,
+        (progress) => setUploadProgress(progress)
+      );
+
+      setUpdateResult(result);
+      setFiles([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setIsUploading(false);
+      setUploadProgress(null);
+    }
+  };
+
+  const handleLoadRevisionTarget = async () => {
+    setIsLoadingRevisionTarget(true);
+    setError(null);
+    setRevisionTarget(null);
+    setUnselectedChanges([]);
+
+    try {
+      setRevisionTarget(await fetchTestContent(revisionTestId.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the test");
+    } finally {
+      setIsLoadingRevisionTarget(false);
+    }
+  };
+
+  const handleRevise = async () => {
+    if (!revisionTarget) return;
+    const testId = revisionTarget.test.test_id!;
+
+    setIsUploading(true);
+    setError(null);
+    setSuccess(null);
+    setRevisionResult(null);
+    setDryRunResult(null);
+
+    try {
+      const { sections, changeIds } = applyRevisionResolutions(
+        revisedSections,
+        [...selectedChanges],
+        bankConflicts ?? [],
+        conflictResolutions
+      );
+      if (changeIds.length === 0) {
+        throw new Error(
+          "Every selected change adds a question that is skipped; nothing to apply."
+        );
+      }
+      const result = await reviseTestOnServer(
+        testId,
+        sections,
+        changeIds,
+        (progress) => setUploadProgress(progress)
+      );
+
+      setRevisionResult(result);
+      setFiles([]);
+      setUnselectedChanges([]);
+      setRevisionTarget(await fetchTestContent(testId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Revision failed");
+    } finally {
+      setIsUploading(false);
+      setUploadProgress(null);
+    }
+  };
+
   const handleUpload = async () => {
-    if (!testTitle.trim()) {
-      setError("Please enter a test title");
+    if (uploadMode === "create" && Object.keys(detailsErrors).length > 0) {
+      setError(Object.values(detailsErrors).join(". "));
       return;
     }
 
@@ -208,7 +911,7 @@ export default function Home() {
 
     // Validate that files contain questions
     const totalQuestions = files.reduce(
-      (sum, file) => sum + file.questionCount,
+      (sum, file) => sum + file.questions.length,
       0
     );
     if (totalQuestions === 0) {
@@ -218,46 +921,219 @@ export default function Home() {
       return;
     }
 
+    const filesWithErrors = files.filter((file) => hasErrors(reportFor(file)));
+    if (filesWithErrors.length > 0) {
+      setError(
+        `Cannot upload: ${filesWithErrors.map(moduleLabel).join(", ")} ${
+          filesWithErrors.length === 1 ? "has" : "have"
+        } validation errors. Fix them in the preview, or in the spreadsheet and re-add the file.`
+      );
+      return;
+    }
+
+    if (uploadMode === "update") {
+      await handleUpdate();
+      return;
+    }
+
+    if (uploadMode === "revise") {
+      if (!revisionPlan) {
+        setError(
+          moduleCountProblem
+            ? `Cannot apply: ${moduleCountProblem}`
+            : "Load the test to revise first."
+        );
+      } else if (selectedChanges.size === 0) {
+        setError("Select at least one change to apply.");
+      } else if (!bankConflicts) {
+        setError(
+          bankCheckError
+            ? `Cannot apply: the question bank could not be checked for the added questions (${bankCheckError}).`
+            : "Still checking the question bank for the added questions. Try again in a moment."
+        );
+      } else if (pendingConflicts.length > 0) {
+        setError(
+          `Cannot apply: choose whether to skip, create or reuse the ${pendingConflicts.length} added question(s) already in the question bank.`
+        );
+      } else {
+        await handleRevise();
+      }
+      return;
+    }
+
+    // A dry run writes nothing, so it can go ahead without the bank check
+    if (!bankConflicts && !dryRun) {
+      setError(
+        bankCheckError
+          ? `Cannot upload: the question bank could not be checked for existing questions (${bankCheckError}).`
+          : "Still checking the question bank for existing questions. Try again in a moment."
+      );
+      return;
+    }
+
+    if (pendingConflicts.length > 0) {
+      setError(
+        `Cannot upload: choose whether to skip, create or reuse the ${pendingConflicts.length} question(s) already in the question bank.`
+      );
+      return;
+    }
+
+    if (moduleCountProblem) {
+      setError(`Cannot upload: ${moduleCountProblem}`);
+      return;
+    }
+
+    if (hasSectionErrors) {
+      setError("Cannot upload: fix the section settings first.");
+      return;
+    }
+
     setIsUploading(true);
     setError(null);
     setSuccess(null);
+    setUpdateResult(null);
+    setDryRunResult(null);
 
     try {
-      const modules: ModuleData[] = files.map((f) => ({
-        moduleNumber: f.moduleNumber,
-        questions: f.questions,
-      }));
+      const modules = uploadModules();
+      const test: TestDetails = {
+        ...testDetails,
+        is_full_test: isFullTestUpload(template, modules.length),
+      };
 
-      const result = await uploadBulkData(
+      if (dryRun) {
+        const repository = createMemoryRepository();
+        await uploadBulkData(
+          modules,
+          test,
+          (progress) => setUploadProgress(progress),
+          { repository, imageStorage: createMemoryImageStorage() }
+        );
+        setDryRunResult(repository.tables);
+        return;
+      }
+
+      const result = await uploadBulkDataOnServer(
         modules,
-        testTitle,
-        testDescription,
-        (progress) => setUploadProgress(progress)
+        test,
+        (progress) => setUploadProgress(progress),
+        persistUploadJournal
       );
 
       setSuccess(result);
       setFiles([]);
+      setConflictResolutions({});
+      setSectionSettings({});
       setTestTitle("");
       setTestDescription("");
+      setTestMetadata({});
     } catch (err) {
       setError(err instanceof Error ? err.message : "Upload failed");
     } finally {
       setIsUploading(false);
       setUploadProgress(null);
+      // A run whose rollback failed stays journaled and can be resumed
+      setInterruptedUploads(await loadInterruptedUploads());
     }
   };
 
+  const handleResume = async (journal: UploadJournal) => {
+    setIsUploading(true);
+    setError(null);
+    setSuccess(null);
+    setUpdateResult(null);
+    setDryRunResult(null);
+
+    try {
+      // The server resumes from its own record of the run
+      const result = await resumeUploadOnServer(
+        journal.id,
+        (progress) => setUploadProgress(progress),
+        persistUploadJournal
+      );
+
+      setSuccess(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Resume failed");
+    } finally {
+      setIsUploading(false);
+      setUploadProgress(null);
+      setInterruptedUploads(await loadInterruptedUploads());
+    }
+  };
+
+  const handleDiscard = async (journal: UploadJournal) => {
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const { failures } = await discardUploadOnServer(journal.id, (progress) =>
+        setUploadProgress(progress)
+      );
+
+      if (failures.length > 0) {
+        setError(
+          `Could not roll back ${failures.join(
+            "; "
+          )}. The interrupted upload was kept so you can try again.`
+        );
+      } else {
+        await deleteUploadJournal(journal.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Discard failed");
+    } finally {
+      setIsUploading(false);
+      setUploadProgress(null);
+      setInterruptedUploads(await loadInterruptedUploads());
+    }
+  };
+
+  const handleExport = async (testId: string, options: ExportOptions) => {
+    const data = await fetchTestContent(testId);
+    if (data.sections.length === 0) {
+      throw new Error(`Test "${data.test.title}" has no questions to export.`);
+    }
+
+    const fileName = exportFileName(data.test);
+    writeFile(buildTestWorkbook(data, options), fileName);
+
+    const questionCount = data.sections.reduce(
+      (sum, group) => sum + group.questions.length,
+      0
+    );
+    return `Downloaded ${fileName}: ${questionCount} questions in ${
+      data.sections.length
+    } section${data.sections.length === 1 ? "" : "s"}.${
+      data.missingQuestionIds.length > 0
+        ? ` ${data.missingQuestionIds.length} linked question(s) are no longer in the question bank and were left out.`
+        : ""
+    }`;
+  };
   return (
     <div className="min-h-screen py-8 px-4">
       <div className="max-w-7xl mx-auto">
         <div className="bg-white rounded-lg shadow-lg p-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Bulk Upload Excel Files
-          </h1>
-          <p className="text-gray-800 mb-8">
-            Upload 1-4 Excel files for test modules, reorder them, preview, and
-            upload to database
-          </p>
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                Bulk Upload Excel Files
+              </h1>
+              <p className="text-gray-800">
+                Upload one Excel file per section of the test template, reorder
+                them, preview, and upload to database
+              </p>
+            </div>
+            <div className="flex flex-col items-end gap-3">
+              <Link
+                href="/tests"
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium"
+              >
+                Manage Tests
+              </Link>
+              <SignInPanel />
+            </div>
+          </div>
 
           {error && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -277,51 +1153,253 @@ export default function Home() {
             </div>
           )}
 
-          <div className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-900 mb-2">
-                Test Title *
-              </label>
-              <input
-                type="text"
-                value={testTitle}
-                onChange={(e) => setTestTitle(e.target.value)}
-                placeholder="e.g., Exam 1"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
-                disabled={isUploading}
-              />
+          <InterruptedUploads
+            journals={interruptedUploads}
+            onResume={handleResume}
+            onDiscard={handleDiscard}
+            disabled={isUploading}
+          />
+
+          {updateResult && (
+            <div className="mb-6">
+              <QuestionChangeList plan={updateResult} applied />
             </div>
+          )}
 
+          {revisionResult && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-green-800 text-sm">
+                Revision applied: {revisionResult.updated.length} updated,{" "}
+                {revisionResult.added.length} added
+                {revisionResult.reused.length > 0 &&
+                  ` (${revisionResult.reused.length} reused from the bank)`}
+                , {revisionResult.removed.length} removed
+                {revisionResult.reordered.length > 0 &&
+                  `, reordered ${revisionResult.reordered.join(", ")}`}
+              </p>
+            </div>
+          )}
+
+          {dryRunResult && (
+            <div className="mb-6">
+              <DryRunResult tables={dryRunResult} />
+            </div>
+          )}
+
+          <div className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-900 mb-2">
-                Test Description
+                Upload Mode
               </label>
-              <textarea
-                value={testDescription}
-                onChange={(e) => setTestDescription(e.target.value)}
-                placeholder="e.g., Practice Exam 1"
-                rows={3}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
-                disabled={isUploading}
-              />
+              <div className="flex gap-6">
+                <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="upload-mode"
+                    checked={uploadMode === "create"}
+                    onChange={() => setUploadMode("create")}
+                    disabled={isUploading}
+                  />
+                  Create a new test
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="upload-mode"
+                    checked={uploadMode === "update"}
+                    onChange={() => setUploadMode("update")}
+                    disabled={isUploading}
+                  />
+                  Update existing questions in place (matched by reference ID)
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="upload-mode"
+                    checked={uploadMode === "revise"}
+                    onChange={() => setUploadMode("revise")}
+                    disabled={isUploading}
+                  />
+                  Revise an existing test (review a diff first)
+                </label>
+              </div>
+              {uploadMode === "revise" && (
+                <div className="mt-3">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={revisionTestId}
+                      onChange={(e) => setRevisionTestId(e.target.value)}
+                      placeholder="Test ID"
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 font-mono"
+                      disabled={isUploading}
+                    />
+                    <button
+                      onClick={handleLoadRevisionTarget}
+                      disabled={
+                        isUploading ||
+                        isLoadingRevisionTarget ||
+                        !revisionTestId.trim()
+                      }
+                      className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer"
+                    >
+                      {isLoadingRevisionTarget ? "Loading..." : "Load Test"}
+                    </button>
+                  </div>
+                  {revisionTarget && (
+                    <div className="text-xs text-gray-700 mt-1">
+                      <p>
+                        Revising &quot;{revisionTarget.test.title}&quot;. Add
+                        the revised files in section order:
+                      </p>
+                      <ol className="list-decimal list-inside">
+                        {revisionTarget.sections.map((section) => (
+                          <li key={section.test_section_id}>
+                            {section.section?.name ?? section.test_section_id} (
+                            {section.questions.length} questions)
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+                </div>
+              )}
+              {uploadMode === "create" && (
+                <label className="flex items-center gap-2 text-sm text-gray-900 cursor-pointer mt-3">
+                  <input
+                    type="checkbox"
+                    checked={dryRun}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                    disabled={isUploading}
+                  />
+                  Dry run (show the rows that would be written without touching
+                  the database)
+                </label>
+              )}
             </div>
 
+            {uploadMode === "create" && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Test Title *
+                  </label>
+                  <input
+                    type="text"
+                    value={testTitle}
+                    onChange={(e) => setTestTitle(e.target.value)}
+                    placeholder="e.g., Exam 1"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                    disabled={isUploading}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Test Description
+                  </label>
+                  <textarea
+                    value={testDescription}
+                    onChange={(e) => setTestDescription(e.target.value)}
+                    placeholder="e.g., Practice Exam 1"
+                    rows={3}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                    disabled={isUploading}
+                  />
+                </div>
+
+                <TestMetadataFields
+                  metadata={testMetadata}
+                  onChange={(changes) =>
+                    setTestMetadata((current) => ({ ...current, ...changes }))
+                  }
+                  errors={detailsErrors}
+                  checkingReferenceId={
+                    Boolean(referenceId) && referenceIdTaken === null
+                  }
+                  disabled={isUploading}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Test Template
+                  </label>
+                  <select
+                    value={testTemplate}
+                    onChange={(e) => {
+                      setTestTemplate(e.target.value as TestTemplateId);
+                      // Edited settings belong to the old template's sections
+                      setSectionSettings({});
+                    }}
+                    disabled={isUploading}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                  >
+                    {(Object.keys(TEST_TEMPLATES) as TestTemplateId[]).map(
+                      (id) => (
+                        <option key={id} value={id}>
+                          {TEST_TEMPLATES[id].name}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  <ol className="text-xs text-gray-700 mt-1 list-decimal list-inside">
+                    {template.sections.map((section) => (
+                      <li key={section.id}>
+                        {section.settings.name}
+                        {section.questionCount !== undefined &&
+                          ` (${section.questionCount} questions)`}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-900 mb-2">
-                Upload Excel Files (Max 4)
+                Upload Excel Files (Max {maxModules} modules)
               </label>
               <input
                 type="file"
                 accept=".xlsx,.xls,.csv"
                 multiple
                 onChange={handleFileUpload}
-                disabled={isLoading || isUploading || files.length >= 4}
+                disabled={
+                  isLoading || isUploading || files.length >= maxModules
+                }
                 className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
               />
               <p className="text-xs text-gray-700 mt-1">
-                Upload Excel/CSV files containing questions. {files.length}/4
-                files uploaded
+                Upload Excel/CSV files containing questions. {files.length}/
+                {maxModules} modules added
               </p>
+              <label className="flex items-center gap-2 mt-2 text-sm text-gray-900 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={splitSheets}
+                  onChange={(e) => setSplitSheets(e.target.checked)}
+                  disabled={isUploading}
+                  className="w-4 h-4"
+                />
+                Use each sheet of a multi-sheet workbook as a separate module
+              </label>
+              <label className="flex items-center gap-2 mt-2 text-sm text-gray-900">
+                Grid-in answer rules:
+                <select
+                  value={gridInRules}
+                  onChange={(e) =>
+                    setGridInRules(e.target.value as GridInRulesId)
+                  }
+                  disabled={isUploading}
+                  className="px-2 py-1 border border-gray-300 rounded text-gray-900"
+                >
+                  {(Object.keys(GRID_IN_RULES) as GridInRulesId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {GRID_IN_RULES[id].name}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
 
             {isLoading && (
@@ -353,17 +1431,41 @@ export default function Home() {
                         <SortableFileItem
                           key={file.id}
                           file={file}
+                          report={reportFor(file)}
                           onRemove={() => handleRemove(file.id)}
                         />
                       ))}
                     </div>
                   </SortableContext>
                 </DndContext>
+
+                {moduleCountProblem && (
+                  <p className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                    {moduleCountProblem}
+                  </p>
+                )}
               </div>
             )}
 
+            {files.length > 0 && uploadMode === "create" && (
+              <SectionSettingsForm
+                modules={files.map((file) => ({
+                  id: file.id,
+                  label: moduleLabel(file),
+                  settings: sectionSettingsFor(file),
+                }))}
+                onChange={(id, settings) =>
+                  setSectionSettings((current) => ({
+                    ...current,
+                    [id]: settings,
+                  }))
+                }
+                disabled={isUploading}
+              />
+            )}
+
             {files.length > 0 && (
-              <div className="mb-6">
+              <div className="mb-6 flex flex-wrap gap-3">
                 <button
                   onClick={handlePreview}
                   className="px-4 py-2 bg-gray-100 text-gray-900 rounded-lg hover:bg-gray-200 transition font-medium cursor-pointer"
@@ -371,6 +1473,15 @@ export default function Home() {
                 >
                   {isPreviewing ? "Hide Preview" : "Show Preview"}
                 </button>
+                {uploadMode === "create" && (
+                  <button
+                    onClick={() => setIsStudentPreview(true)}
+                    className="px-4 py-2 bg-gray-100 text-gray-900 rounded-lg hover:bg-gray-200 transition font-medium cursor-pointer"
+                    disabled={isUploading}
+                  >
+                    Preview as Student
+                  </button>
+                )}
               </div>
             )}
 
@@ -400,216 +1511,280 @@ export default function Home() {
                 <h2 className="text-lg font-semibold text-gray-900 mb-4">
                   Data Preview
                 </h2>
+                <div className="mb-6">
+                  {uploadMode === "revise" && !revisionPlan ? (
+                    <p className="text-sm text-gray-700">
+                      Load the test to revise to compare these files with it.
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      {revisionPlan && revisionTarget && (
+                        <TestRevisionDiff
+                          content={revisionTarget}
+                          plan={revisionPlan}
+                          selected={selectedChanges}
+                          onToggle={(changeId, selected) =>
+                            setUnselectedChanges((current) =>
+                              selected
+                                ? current.filter((id) => id !== changeId)
+                                : [...current, changeId]
+                            )
+                          }
+                          onToggleAll={(selected) =>
+                            setUnselectedChanges(
+                              selected
+                                ? []
+                                : revisionPlan.changes.map(
+                                    (change) => change.id
+                                  )
+                            )
+                          }
+                          disabled={isUploading}
+                        />
+                      )}
+                      {bankCheckError ? (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between gap-4">
+                          <p className="text-red-800 text-sm">
+                            Could not check the question bank for existing
+                            questions: {bankCheckError}
+                          </p>
+                          <button
+                            onClick={() => setBankCheckAttempt((n) => n + 1)}
+                            className="px-3 py-1 text-sm bg-white border border-red-300 text-red-800 rounded hover:bg-red-100 transition cursor-pointer flex-shrink-0"
+                          >
+                            Retry
+                          </button>
+                        </div>
+                      ) : !bankConflicts ? (
+                        <p className="text-sm text-gray-700">
+                          Checking the question bank for existing questions...
+                        </p>
+                      ) : plannedUpdates ? (
+                        <QuestionChangeList plan={plannedUpdates} />
+                      ) : bankConflicts.length === 0 ? (
+                        uploadMode === "create" && (
+                          <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                            <p className="text-green-800 text-sm">
+                              None of these questions are in the question bank
+                              yet
+                            </p>
+                          </div>
+                        )
+                      ) : (
+                        <ConflictResolutionPanel
+                          conflicts={bankConflicts}
+                          resolutions={conflictResolutions}
+                          onResolve={(referenceId, resolution) =>
+                            setConflictResolutions((current) => ({
+                              ...current,
+                              [referenceId]: resolution,
+                            }))
+                          }
+                          onResolveAll={handleResolveAll}
+                          disabled={isUploading}
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+                <PreviewToolbar
+                  filters={previewFilters}
+                  onChange={(changes) =>
+                    setPreviewFilters((current) => ({ ...current, ...changes }))
+                  }
+                  tags={previewTags}
+                  shown={Object.values(previewRows).flat().length}
+                  total={allQuestions.length}
+                  onReset={
+                    isNarrowed
+                      ? () => {
+                          setPreviewFilters(NO_FILTERS);
+                          setPreviewSort(null);
+                        }
+                      : undefined
+                  }
+                />
                 {files.map((file) => (
                   <div key={file.id} className="mb-8">
                     <h3 className="font-semibold text-gray-900 mb-3 text-base">
-                      Module {file.moduleNumber}: {file.file.name} (
-                      {file.questionCount} questions)
+                      Module {file.moduleNumber}: {file.file.name}
+                      {file.sheetName && ` › ${file.sheetName}`} (
+                      {file.questions.length} questions
+                      {editedCount(file) > 0 && `, ${editedCount(file)} edited`}
+                      {isFiltering(previewFilters) &&
+                        `, ${previewRows[file.id].length} shown`}
+                      )
                     </h3>
-                    <div className="overflow-x-auto">
-                      <table className="min-w-full border border-gray-900 text-sm">
-                        <thead className="bg-gray-100">
-                          <tr>
-                            <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
-                              Ref ID
-                            </th>
-                            <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
-                              Tag
-                            </th>
-                            <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
-                              Difficulty
-                            </th>
-                            <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
-                              Question Text
-                            </th>
-                            <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
-                              Instructions
-                            </th>
-                            <th className="px-4 py-3 border border-gray-900 text-left font-semibold text-gray-900">
-                              Actions
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {file.questions.map((q, idx) => (
-                            <tr key={idx} className="hover:bg-gray-50">
-                              <td className="px-4 py-3 border border-gray-900 text-gray-900">
-                                {q.reference_id}
-                              </td>
-                              <td className="px-4 py-3 border border-gray-900 text-gray-900">
-                                {q.tag}
-                              </td>
-                              <td className="px-4 py-3 border border-gray-900">
-                                <span
-                                  className={`px-2 py-1 rounded text-xs font-medium ${
-                                    q.difficulty === "easy"
-                                      ? "bg-green-100 text-green-800"
-                                      : q.difficulty === "medium"
-                                      ? "bg-yellow-100 text-yellow-800"
-                                      : "bg-red-100 text-red-800"
-                                  }`}
-                                >
-                                  {q.difficulty}
-                                </span>
-                              </td>
-                              <td className="px-4 py-3 border border-gray-900 text-gray-900 max-w-md">
-                                <MarkdownRenderer content={q.question_text} size="sm" />
-                              </td>
-                              <td className="px-4 py-3 border border-gray-900 text-gray-900 max-w-md">
-                                <MarkdownRenderer content={q.instructions} size="sm" />
-                              </td>
-                              <td className="px-4 py-3 border border-gray-900">
-                                <button
-                                  onClick={() => setSelectedQuestion(q)}
-                                  className="px-3 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 transition cursor-pointer"
-                                >
-                                  View Details
-                                </button>
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
+                    <div className="mb-3">
+                      <ValidationReportPanel report={reportFor(file)} />
                     </div>
+                    {isFiltering(previewFilters) &&
+                      previewRows[file.id].length === 0 && (
+                        <p className="mb-3 text-sm text-gray-700">
+                          No questions in this module match the filters.
+                        </p>
+                      )}
+                    <QuestionTable
+                      questions={file.questions}
+                      rows={previewRows[file.id]}
+                      sort={previewSort}
+                      onSort={(column) =>
+                        setPreviewSort((current) => toggleSort(current, column))
+                      }
+                      onSelect={(_, index) =>
+                        setSelectedQuestion({ fileId: file.id, index })
+                      }
+                      onChange={(index, question) =>
+                        handleQuestionChange(file.id, index, question)
+                      }
+                      originals={file.originalQuestions}
+                      gridInRules={GRID_IN_RULES[file.gridInRules]}
+                      // Dragging needs every row in upload order
+                      onReorder={
+                        isNarrowed
+                          ? undefined
+                          : (fromIndex, toIndex) =>
+                              handleQuestionReorder(file.id, fromIndex, toIndex)
+                      }
+                      moveTargets={files
+                        .filter((other) => other.id !== file.id)
+                        .map((other) => ({
+                          id: other.id,
+                          label: `Module ${other.moduleNumber}`,
+                        }))}
+                      onMove={(index, targetId) =>
+                        handleQuestionMove(file.id, index, targetId)
+                      }
+                      onExclude={(index) =>
+                        setFiles((items) =>
+                          excludeQuestion(items, { moduleId: file.id, index })
+                        )
+                      }
+                    />
+                    {file.excludedQuestions.length > 0 && (
+                      <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                        <p className="text-sm font-semibold text-gray-900 mb-2">
+                          Excluded from the upload (
+                          {file.excludedQuestions.length})
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {file.excludedQuestions.map(({ question }, index) => (
+                            <span
+                              key={index}
+                              className="inline-flex items-center gap-2 px-2 py-1 bg-white border border-gray-300 rounded text-sm text-gray-900"
+                            >
+                              {question.reference_id}
+                              <button
+                                onClick={() =>
+                                  setFiles((items) =>
+                                    restoreQuestion(items, file.id, index)
+                                  )
+                                }
+                                className="text-xs text-blue-600 hover:underline cursor-pointer"
+                              >
+                                Restore
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ))}
 
                 <div className="mt-8 flex justify-center">
                   <button
                     onClick={handleUpload}
-                    disabled={isUploading || !testTitle.trim()}
+                    disabled={
+                      isUploading ||
+                      hasValidationErrors ||
+                      hasSectionErrors ||
+                      Boolean(moduleCountProblem) ||
+                      (uploadMode === "revise" &&
+                        (selectedChanges.size === 0 ||
+                          !bankConflicts ||
+                          pendingConflicts.length > 0)) ||
+                      (uploadMode === "create" &&
+                        (Object.keys(detailsErrors).length > 0 ||
+                          (!bankConflicts && !dryRun) ||
+                          pendingConflicts.length > 0))
+                    }
                     className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition font-medium cursor-pointer text-lg"
                   >
-                    {isUploading ? "Uploading..." : "Upload to Database"}
+                    {isUploading
+                      ? "Uploading..."
+                      : uploadMode === "update"
+                      ? "Update Questions"
+                      : uploadMode === "revise"
+                      ? "Apply Selected Changes"
+                      : dryRun
+                      ? "Dry Run"
+                      : "Upload to Database"}
                   </button>
                 </div>
               </div>
             )}
 
-            {selectedQuestion && (
-              <div className="fixed inset-0 bg-black/20 bg-opacity-30 flex items-center justify-center p-4 z-50">
-                <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
-                  <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
-                    <h3 className="text-xl font-bold text-gray-900">
-                      Question Details
-                    </h3>
-                    <button
-                      onClick={() => setSelectedQuestion(null)}
-                      className="text-gray-500 hover:text-gray-700 text-2xl font-bold cursor-pointer"
-                    >
-                      ×
-                    </button>
-                  </div>
-
-                  <div className="px-6 py-4 space-y-4">
-                    <div>
-                      <label className="block text-sm font-semibold text-gray-900 mb-1">
-                        Reference ID
-                      </label>
-                      <p className="text-gray-900">
-                        {selectedQuestion.reference_id}
-                      </p>
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-semibold text-gray-900 mb-1">
-                        Tag
-                      </label>
-                      <p className="text-gray-900">{selectedQuestion.tag}</p>
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-semibold text-gray-900 mb-1">
-                        Difficulty
-                      </label>
-                      <span
-                        className={`inline-block px-3 py-1 rounded text-sm font-medium ${
-                          selectedQuestion.difficulty === "easy"
-                            ? "bg-green-100 text-green-800"
-                            : selectedQuestion.difficulty === "medium"
-                            ? "bg-yellow-100 text-yellow-800"
-                            : "bg-red-100 text-red-800"
-                        }`}
-                      >
-                        {selectedQuestion.difficulty}
-                      </span>
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-semibold text-gray-900 mb-1">
-                        Instructions
-                      </label>
-                      <div className="text-gray-900">
-                        <MarkdownRenderer content={selectedQuestion.instructions} />
-                      </div>
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-semibold text-gray-900 mb-1">
-                        Question Text
-                      </label>
-                      <div className="text-gray-900">
-                        <MarkdownRenderer content={selectedQuestion.question_text} />
-                      </div>
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-semibold text-gray-900 mb-2">
-                        Answer Choices
-                      </label>
-                      <div className="space-y-2">
-                        {selectedQuestion.answer_choices.map((choice, idx) => (
-                          <div
-                            key={idx}
-                            className={`p-3 rounded border ${
-                              (idx + 1).toString() ===
-                              selectedQuestion.correct_answer
-                                ? "bg-green-50 border-green-300"
-                                : "bg-gray-50 border-gray-200"
-                            }`}
-                          >
-                            <div className="flex items-start gap-2">
-                              <span className="font-semibold text-gray-900 flex-shrink-0">
-                                {String.fromCharCode(65 + idx)}.
-                              </span>
-                              <div className="flex-1">
-                                <MarkdownRenderer content={choice} size="sm" />
-                              </div>
-                              {(idx + 1).toString() ===
-                                selectedQuestion.correct_answer && (
-                                <span className="ml-2 text-green-700 font-semibold text-xs flex-shrink-0">
-                                  ✓ Correct
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
+            {pendingWorkbooks[0]?.mapping && (
+              <ColumnMappingDialog
+                key={pendingWorkbooks[0].id}
+                fileName={pendingWorkbooks[0].file.name}
+                columns={pendingWorkbooks[0].mapping.columns}
+                initialAssignments={pendingWorkbooks[0].mapping.assignments}
+                onConfirm={handleMappingConfirm}
+                onCancel={handlePendingCancel}
+              />
+            )}
 
-                    <div>
-                      <label className="block text-sm font-semibold text-gray-900 mb-1">
-                        Explanation
-                      </label>
-                      <div className="text-gray-900">
-                        <MarkdownRenderer content={selectedQuestion.explanation} />
-                      </div>
-                    </div>
-                  </div>
+            {pendingWorkbooks[0]?.sheets && (
+              <SheetPicker
+                key={pendingWorkbooks[0].id}
+                fileName={pendingWorkbooks[0].file.name}
+                sheets={pendingWorkbooks[0].sheets}
+                maxSelectable={maxModules - files.length}
+                onConfirm={handleSheetsConfirm}
+                onCancel={handlePendingCancel}
+              />
+            )}
 
-                  <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4">
-                    <button
-                      onClick={() => setSelectedQuestion(null)}
-                      className="w-full px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium cursor-pointer"
-                    >
-                      Close
-                    </button>
-                  </div>
-                </div>
-              </div>
+            {selectedQuestion && selectedFile && (
+              <QuestionDetailsModal
+                question={selectedFile.questions[selectedQuestion.index]}
+                original={
+                  selectedFile.originalQuestions[selectedQuestion.index]
+                }
+                onChange={(question) =>
+                  handleQuestionChange(
+                    selectedFile.id,
+                    selectedQuestion.index,
+                    question
+                  )
+                }
+                gridInRules={GRID_IN_RULES[selectedFile.gridInRules]}
+                onClose={() => setSelectedQuestion(null)}
+              />
             )}
           </div>
         </div>
+
+        {isStudentPreview && (
+          <StudentPreview
+            testTitle={testTitle}
+            sections={uploadModules()
+              .filter((moduleData) => moduleData.questions.length > 0)
+              .map((moduleData) => ({
+                settings:
+                  moduleData.section ??
+                  templateSectionSettings(template, moduleData.moduleNumber),
+                questions: moduleData.questions,
+              }))}
+            onClose={() => setIsStudentPreview(false)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow-lg p-8 mt-8">
+          <ExportTestPanel onExport={handleExport} disabled={isUploading} />
+        </div>
       </div>
     </div>
   );
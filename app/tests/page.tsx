@@ -0,0 +1,343 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  fetchTestContent,
+  fetchTestSummaries,
+  type TestContent,
+  type TestSummary,
+} from "@/lib/database";
+import {
+  deleteTestOnServer,
+  setTestArchivedOnServer,
+} from "@/lib/upload-client";
+import type { Question } from "@/lib/supabase";
+import QuestionTable from "@/app/components/QuestionTable";
+import QuestionDetailsModal from "@/app/components/QuestionDetailsModal";
+import DeleteTestDialog from "@/app/components/DeleteTestDialog";
+import SignInPanel from "@/app/components/SignInPanel";
+
+const cellClass =
+  "px-4 py-3 border border-gray-900 text-gray-900 align-top text-left";
+
+export default function TestsPage() {
+  const [summaries, setSummaries] = useState<TestSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Archiving and deleting go through /api/uploads, which needs a signed-in user
+  const [signedIn, setSignedIn] = useState(false);
+  // Test whose archive or delete request is running
+  const [busyTestId, setBusyTestId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<TestSummary | null>(null);
+  const [preview, setPreview] = useState<TestContent | null>(null);
+  const [previewLoadingId, setPreviewLoadingId] = useState<string | null>(null);
+  const [selectedQuestion, setSelectedQuestion] = useState<Question | null>(
+    null
+  );
+
+  useEffect(() => {
+    fetchTestSummaries()
+      .then(setSummaries)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load tests")
+      );
+  }, []);
+
+  const handlePreview = async (testId: string) => {
+    setPreviewLoadingId(testId);
+    setError(null);
+    try {
+      setPreview(await fetchTestContent(testId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the test");
+    } finally {
+      setPreviewLoadingId(null);
+    }
+  };
+
+  const handleArchive = async (summary: TestSummary) => {
+    const testId = summary.test.test_id!;
+    const isArchived = !summary.test.is_archived;
+
+    setBusyTestId(testId);
+    setError(null);
+    setMessage(null);
+    try {
+      await setTestArchivedOnServer(testId, isArchived);
+      setSummaries((current) =>
+        (current || []).map((s) =>
+          s.test.test_id === testId
+            ? { ...s, test: { ...s.test, is_archived: isArchived } }
+            : s
+        )
+      );
+      setMessage(
+        `“${summary.test.title}” ${isArchived ? "archived" : "restored"}.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setBusyTestId(null);
+    }
+  };
+
+  const handleDelete = async (deleteOrphanedQuestions: boolean) => {
+    if (!deleting) return;
+    const testId = deleting.test.test_id!;
+
+    setBusyTestId(testId);
+    setError(null);
+    setMessage(null);
+    try {
+      const { deletedQuestionIds } = await deleteTestOnServer(
+        testId,
+        deleteOrphanedQuestions
+      );
+      setSummaries((current) =>
+        (current || []).filter((s) => s.test.test_id !== testId)
+      );
+      if (preview?.test.test_id === testId) setPreview(null);
+      setMessage(
+        `“${deleting.test.title}” deleted${
+          deleteOrphanedQuestions
+            ? `, with ${deletedQuestionIds.length} question${
+                deletedQuestionIds.length === 1 ? "" : "s"
+              } no other test used`
+            : ""
+        }.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed");
+    } finally {
+      setBusyTestId(null);
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                Uploaded Tests
+              </h1>
+              <p className="text-gray-800">
+                Review, archive or delete the tests in the database
+              </p>
+            </div>
+            <div className="flex flex-col items-end gap-3">
+              <Link
+                href="/"
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+              >
+                Bulk Upload
+              </Link>
+              <SignInPanel onSessionChange={setSignedIn} />
+            </div>
+          </div>
+
+          {!signedIn && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-yellow-800 text-sm">
+                Sign in to archive, restore or delete tests.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          {message && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-green-800 text-sm">{message}</p>
+            </div>
+          )}
+
+          {!summaries ? (
+            !error && <p className="text-sm text-gray-800">Loading tests...</p>
+          ) : summaries.length === 0 ? (
+            <p className="text-sm text-gray-800">
+              No tests have been uploaded.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border border-gray-900 text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className={`${cellClass} font-semibold`}>Test</th>
+                    <th className={`${cellClass} font-semibold`}>Reference</th>
+                    <th className={`${cellClass} font-semibold`}>Scheduled</th>
+                    <th className={`${cellClass} font-semibold`}>Sections</th>
+                    <th className={`${cellClass} font-semibold`}>Status</th>
+                    <th className={`${cellClass} font-semibold`}>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summaries.map((summary) => {
+                    const { test } = summary;
+                    const busy = busyTestId === test.test_id;
+
+                    return (
+                      <tr
+                        key={test.test_id}
+                        className={
+                          test.is_archived ? "bg-gray-50" : "hover:bg-gray-50"
+                        }
+                      >
+                        <td className={cellClass}>
+                          <p className="font-semibold">{test.title}</p>
+                          {test.description && (
+                            <p className="text-gray-800">{test.description}</p>
+                          )}
+                          <p className="font-mono text-xs text-gray-700 mt-1">
+                            {test.test_id}
+                          </p>
+                        </td>
+                        <td className={`${cellClass} font-mono`}>
+                          {test.reference_id || "—"}
+                        </td>
+                        <td className={`${cellClass} whitespace-nowrap`}>
+                          {test.test_date || "—"}
+                        </td>
+                        <td className={cellClass}>
+                          {summary.sections.length === 0 ? (
+                            <span className="text-gray-700">No questions</span>
+                          ) : (
+                            <ul>
+                              {summary.sections.map((section) => (
+                                <li key={section.test_section_id}>
+                                  {section.name}: {section.questionCount}
+                                </li>
+                              ))}
+                              <li className="font-semibold">
+                                Total: {summary.questionCount}
+                              </li>
+                            </ul>
+                          )}
+                        </td>
+                        <td className={cellClass}>
+                          <div className="flex flex-wrap gap-1">
+                            <span
+                              className={`px-2 py-1 rounded text-xs font-medium ${
+                                test.is_archived
+                                  ? "bg-gray-200 text-gray-800"
+                                  : "bg-green-100 text-green-800"
+                              }`}
+                            >
+                              {test.is_archived ? "Archived" : "Active"}
+                            </span>
+                            {test.is_full_test && (
+                              <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                                Full test
+                              </span>
+                            )}
+                            {test.is_monitored && (
+                              <span className="px-2 py-1 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                                Monitored
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className={cellClass}>
+                          <div className="flex flex-wrap gap-2">
+                            <button
+                              onClick={() => handlePreview(test.test_id!)}
+                              disabled={previewLoadingId === test.test_id}
+                              className="px-3 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 disabled:bg-gray-300 transition cursor-pointer"
+                            >
+                              {previewLoadingId === test.test_id
+                                ? "Loading..."
+                                : "Preview"}
+                            </button>
+                            <button
+                              onClick={() => handleArchive(summary)}
+                              disabled={busy || !signedIn}
+                              className="px-3 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 disabled:bg-gray-300 transition cursor-pointer"
+                            >
+                              {test.is_archived ? "Restore" : "Archive"}
+                            </button>
+                            <button
+                              onClick={() => setDeleting(summary)}
+                              disabled={busy || !signedIn}
+                              className="px-3 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-700 disabled:bg-gray-300 transition cursor-pointer"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {preview && (
+          <div className="bg-white rounded-lg shadow-lg p-8">
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Preview: {preview.test.title}
+                </h2>
+                {preview.missingQuestionIds.length > 0 && (
+                  <p className="text-sm text-yellow-800">
+                    {preview.missingQuestionIds.length} linked question(s) are
+                    no longer in the question bank.
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={() => setPreview(null)}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium cursor-pointer"
+              >
+                Close Preview
+              </button>
+            </div>
+
+            {preview.sections.length === 0 && (
+              <p className="text-sm text-gray-800">
+                This test has no questions.
+              </p>
+            )}
+            {preview.sections.map((group, index) => (
+              <div key={group.test_section_id} className="mb-8">
+                <h3 className="font-semibold text-gray-900 mb-3 text-base">
+                  {group.section?.name ?? `Section ${index + 1}`} (
+                  {group.questions.length} questions)
+                </h3>
+                <QuestionTable
+                  questions={group.questions}
+                  onSelect={setSelectedQuestion}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {deleting && (
+          <DeleteTestDialog
+            summary={deleting}
+            onConfirm={handleDelete}
+            onCancel={() => setDeleting(null)}
+            isDeleting={busyTestId === deleting.test.test_id}
+          />
+        )}
+
+        {selectedQuestion && (
+          <QuestionDetailsModal
+            question={selectedQuestion}
+            onClose={() => setSelectedQuestion(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
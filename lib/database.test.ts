@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  reconcileUploadJournal,
+  uploadBulkData,
+  type ModuleData,
+} from "./database";
+import { createMemoryImageStorage } from "./image-storage";
+import { question } from "./question-fixtures";
+import { createMemoryRepository, type UploadRepository } from "./repository";
+import { createUploadJournal } from "./upload-journal";
+
+const TEST = { title: "Practice Test 1", reference_id: "PT1" };
+
+const modules = (...refs: string[][]): ModuleData[] =>
+  refs.map((moduleRefs, index) => ({
+    moduleNumber: index + 1,
+    questions: moduleRefs.map((ref) => question(ref)),
+  }));
+
+// A memory repository whose listed methods throw from their nth call on,
+// plus the memory repository itself for when the connection is back
+const failingRepository = (
+  failures: Partial<Record<keyof UploadRepository, number>>
+) => {
+  const memory = createMemoryRepository();
+  const calls: Partial<Record<keyof UploadRepository, number>> = {};
+  const repository = { ...memory };
+
+  for (const [name, failFrom] of Object.entries(failures)) {
+    const method = name as keyof UploadRepository;
+    const original = memory[method] as (...args: unknown[]) => unknown;
+    Object.assign(repository, {
+      [method]: async (...args: unknown[]) => {
+        calls[method] = (calls[method] ?? 0) + 1;
+        if (calls[method]! >= failFrom!) throw new Error("connection lost");
+        return original(...args);
+      },
+    });
+  }
+
+  return { repository, memory };
+};
+
+// Reference ids of a test's questions in order_in_test order
+const linkedRefs = (repository: ReturnType<typeof createMemoryRepository>) =>
+  [...repository.tables.test_questions]
+    .sort((a, b) => a.order_in_test - b.order_in_test)
+    .map(
+      (tq) =>
+        repository.tables.questions.find(
+          (q) => q.question_id === tq.question_id
+        )!.reference_id
+    );
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("uploadBulkData", () => {
+  it("rolls back every table when a step fails partway through", async () => {
+    const { repository } = failingRepository({ insertTestQuestions: 2 });
+
+    await expect(
+      uploadBulkData(
+        modules(["Q1", "Q2", "Q3"], ["Q4", "Q5"]),
+        TEST,
+        undefined,
+        {
+          repository,
+          imageStorage: createMemoryImageStorage(),
+          chunkSize: 2,
+          concurrency: 1,
+        }
+      )
+    ).rejects.toThrow(
+      /^Failed to link questions Q3, Q4: connection lost\. Rolled back/
+    );
+
+    expect(repository.tables).toEqual({
+      questions: [],
+      tests: [],
+      test_sections: [],
+      test_questions: [],
+    });
+  });
+
+  it("keeps question order when chunks finish out of order", async () => {
+    const repository = createMemoryRepository();
+    const insertQuestions = repository.insertQuestions;
+    let call = 0;
+    // Later chunks finish first, and each returns its rows reversed
+    repository.insertQuestions = async (questions) => {
+      const delay = 40 - 10 * call++;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return (await insertQuestions(questions)).reverse();
+    };
+
+    const refs = [
+      ["Q1", "Q2", "Q3", "Q4"],
+      ["Q5", "Q6", "Q7"],
+    ];
+    const result = await uploadBulkData(modules(...refs), TEST, undefined, {
+      repository,
+      imageStorage: createMemoryImageStorage(),
+      chunkSize: 2,
+      concurrency: 3,
+    });
+
+    expect(result.total_questions).toBe(7);
+    expect(linkedRefs(repository)).toEqual(refs.flat());
+    expect(
+      repository.tables.test_questions.map((tq) => tq.order_in_test).sort()
+    ).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("resumes from the journal after a run that could not be rolled back", async () => {
+    // Links fail from the second chunk on, and so does the rollback
+    const { repository, memory } = failingRepository({
+      insertTestQuestions: 2,
+      deleteTest: 1,
+      deleteTestSections: 1,
+      deleteQuestions: 1,
+    });
+    const uploadModules = modules(["Q1", "Q2", "Q3"], ["Q4", "Q5", "Q6"]);
+    const journal = createUploadJournal(TEST, uploadModules);
+    const options = {
+      imageStorage: createMemoryImageStorage(),
+      chunkSize: 2,
+      concurrency: 1,
+    };
+
+    await expect(
+      uploadBulkData(uploadModules, TEST, undefined, {
+        ...options,
+        repository,
+        journal,
+      })
+    ).rejects.toThrow(/removed or restored manually/);
+    expect(journal.status).toBe("in_progress");
+    expect(journal.linkedOrders).toEqual([1, 2]);
+
+    // The connection is back: check the journal against the tables and go on
+    const resumed = await reconcileUploadJournal(journal, {
+      repository: memory,
+    });
+    const result = await uploadBulkData(
+      resumed.modules,
+      resumed.test,
+      undefined,
+      { ...options, repository: memory, journal: resumed }
+    );
+
+    expect(resumed.status).toBe("complete");
+    expect(result.test_id).toBe(journal.testId);
+    expect(memory.tables.questions).toHaveLength(6);
+    expect(memory.tables.tests).toHaveLength(1);
+    expect(linkedRefs(memory)).toEqual(["Q1", "Q2", "Q3", "Q4", "Q5", "Q6"]);
+  });
+});
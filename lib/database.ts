@@ -1,53 +1,421 @@
+import type { Question, Test, TestQuestion, TestSection } from "./supabase";
 import {
-  supabase,
-  type Question,
-  type Test,
-  type TestQuestion,
-} from "./supabase";
+  createSupabaseImageStorage,
+  uploadEmbeddedImages,
+  type ImageStorage,
+} from "./image-storage";
+import { planQuestionUpdates, type QuestionUpdatePlan } from "./question-diff";
+import { createSupabaseRepository, type UploadRepository } from "./repository";
+import type { TestDetails } from "./test-details";
+import {
+  arrangeRevisedTest,
+  planTestRevision,
+  type RevisedSection,
+} from "./test-revision";
+import { defaultSectionSettings, type SectionSettings } from "./test-sections";
+import type { UploadJournal } from "./upload-journal";
 
 export interface UploadProgress {
-  stage: "questions" | "test" | "test_questions" | "complete";
+  stage:
+    | "images"
+    | "questions"
+    | "updates"
+    | "test"
+    | "sections"
+    | "test_questions"
+    | "rollback"
+    | "complete";
   current: number;
   total: number;
   message: string;
 }
 
+// Rows a run has written so far, so a failed run can be undone
+export interface UploadLedger {
+  questionIds: string[];
+  testId?: string;
+  // Sections created for the run; removed on rollback unless another test uses them
+  testSectionIds: string[];
+  // Stored values of questions updated in place, restored on rollback
+  previousValues: { question_id: string; values: Partial<Question> }[];
+}
+
+export function createUploadLedger(): UploadLedger {
+  return { questionIds: [], testSectionIds: [], previousValues: [] };
+}
+
+export interface RepositoryOptions {
+  // Where rows are read and written; defaults to Supabase
+  repository?: UploadRepository;
+}
+
+const repositoryFrom = (options: RepositoryOptions): UploadRepository =>
+  options.repository ?? createSupabaseRepository();
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export interface BatchOptions {
+  // Rows sent per insert request
+  chunkSize?: number;
+  // Insert requests in flight at once
+  concurrency?: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: Required<BatchOptions> = {
+  chunkSize: 25,
+  concurrency: 3,
+};
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight and
+ * returns the results in item order. After a failure no new items start, but
+ * calls already running are awaited so their writes can still be rolled back.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const errors: unknown[] = [];
+
+  const run = async () => {
+    while (errors.length === 0 && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run)
+  );
+  if (errors.length > 0) throw errors[0];
+
+  return results;
+}
+
+function chunkRows<T>(rows: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += Math.max(1, size)) {
+    chunks.push(rows.slice(i, i + Math.max(1, size)));
+  }
+  return chunks;
+}
+
+// "V1.1.1, V1.1.2, … (25 rows)" for chunk error messages
+function describeChunk(referenceIds: string[]): string {
+  const shown = referenceIds.slice(0, 10).join(", ");
+  return referenceIds.length > 10
+    ? `${shown}, … (${referenceIds.length} rows)`
+    : shown;
+}
+
 export async function uploadQuestions(
   questions: Question[],
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  ledger?: UploadLedger,
+  options: BatchOptions &
+    RepositoryOptions & {
+      // Called as each chunk is confirmed, e.g. to journal the new question_ids
+      onInserted?: (
+        rows: { reference_id: string; question_id: string }[]
+      ) => void | Promise<void>;
+    } = {}
 ): Promise<string[]> {
-  const questionIds: string[] = [];
+  const { chunkSize, concurrency } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const repository = repositoryFrom(options);
+  let uploaded = 0;
 
-  for (let i = 0; i < questions.length; i++) {
-    onProgress?.({
-      stage: "questions",
-      current: i + 1,
-      total: questions.length,
-      message: `Uploading question ${i + 1} of ${questions.length}`,
-    });
+  const chunkIds = await mapWithConcurrency(
+    chunkRows(questions, chunkSize),
+    concurrency,
+    async (chunk) => {
+      const failure = (reason: string) =>
+        new Error(
+          `Failed to upload questions ${describeChunk(
+            chunk.map((q) => q.reference_id)
+          )}: ${reason}`
+        );
+
+      let rows: { question_id: string; reference_id: string }[];
+      try {
+        rows = await repository.insertQuestions(chunk);
+      } catch (error) {
+        throw failure(errorMessage(error));
+      }
+
+      ledger?.questionIds.push(...rows.map((row) => row.question_id));
+      if (rows.length !== chunk.length) {
+        throw failure("not every row was returned");
+      }
+
+      // Rows come back in insert order; fall back to matching by reference_id if not
+      const inOrder = rows.every(
+        (row, index) => row.reference_id === chunk[index].reference_id
+      );
+      const ids = inOrder
+        ? rows.map((row) => row.question_id)
+        : chunk.map((question) => {
+            const match = rows.find(
+              (row) => row.reference_id === question.reference_id
+            )!;
+            rows.splice(rows.indexOf(match), 1);
+            return match.question_id;
+          });
 
-    const { data, error } = await supabase
-      .from("questions")
-      .insert(questions[i])
-      .select("question_id")
-      .single();
+      await options.onInserted?.(
+        chunk.map((question, index) => ({
+          reference_id: question.reference_id,
+          question_id: ids[index],
+        }))
+      );
+
+      uploaded += chunk.length;
+      onProgress?.({
+        stage: "questions",
+        current: uploaded,
+        total: questions.length,
+        message: `Uploaded ${uploaded} of ${questions.length} questions`,
+      });
 
-    if (error) {
-      console.error("Error uploading question:", error);
-      throw new Error(`Failed to upload question ${i + 1}: ${error.message}`);
+      return ids;
     }
+  );
+
+  return chunkIds.flat();
+}
+
+export async function fetchQuestionsByReferenceIds(
+  referenceIds: string[],
+  options: RepositoryOptions = {}
+): Promise<Question[]> {
+  try {
+    return await repositoryFrom(options).findQuestionsByReferenceIds(
+      referenceIds
+    );
+  } catch (error) {
+    throw new Error(
+      `Failed to look up existing questions: ${errorMessage(error)}`
+    );
+  }
+}
+
+export async function testReferenceIdExists(
+  referenceId: string,
+  options: RepositoryOptions = {}
+): Promise<boolean> {
+  try {
+    return await repositoryFrom(options).testReferenceIdExists(referenceId);
+  } catch (error) {
+    throw new Error(
+      `Failed to check test reference code "${referenceId}": ${errorMessage(
+        error
+      )}`
+    );
+  }
+}
+
+export interface TestContent {
+  test: Test;
+  // One entry per test section, in the order the test reaches them
+  sections: {
+    test_section_id: string;
+    // null when the linked section no longer exists
+    section: TestSection | null;
+    // In order_in_test order
+    questions: Question[];
+  }[];
+  // Linked questions that are no longer in the question bank
+  missingQuestionIds: string[];
+}
+
+/**
+ * Loads a test with its questions grouped by test section, following the
+ * test_questions links in order_in_test order.
+ */
+export async function fetchTestContent(
+  testId: string,
+  options: RepositoryOptions = {}
+): Promise<TestContent> {
+  const repository = repositoryFrom(options);
 
-    if (data?.question_id) {
-      questionIds.push(data.question_id);
+  try {
+    const test = await repository.findTest(testId);
+    if (!test) throw new Error("no test has this ID");
+
+    const links = await repository.findTestQuestions(testId);
+    const [questions, sections] = await Promise.all([
+      repository.findQuestionsByIds(links.map((link) => link.question_id)),
+      repository.findTestSections(links.map((link) => link.test_section_id)),
+    ]);
+    const questionsById = new Map(questions.map((q) => [q.question_id, q]));
+    const sectionsById = new Map(
+      sections.map((section) => [section.test_section_id, section])
+    );
+
+    const groups = new Map<string, TestContent["sections"][number]>();
+    const missingQuestionIds: string[] = [];
+    for (const link of links) {
+      const question = questionsById.get(link.question_id);
+      if (!question) {
+        missingQuestionIds.push(link.question_id);
+        continue;
+      }
+
+      let group = groups.get(link.test_section_id);
+      if (!group) {
+        group = {
+          test_section_id: link.test_section_id,
+          section: sectionsById.get(link.test_section_id) ?? null,
+          questions: [],
+        };
+        groups.set(link.test_section_id, group);
+      }
+      group.questions.push(question);
     }
+
+    return { test, sections: [...groups.values()], missingQuestionIds };
+  } catch (error) {
+    throw new Error(`Failed to load test ${testId}: ${errorMessage(error)}`);
   }
+}
 
-  return questionIds;
+export interface TestSummary {
+  test: Test;
+  // Sections in test order, with how many questions each one holds
+  sections: { test_section_id: string; name: string; questionCount: number }[];
+  questionCount: number;
+}
+
+// Every test with its question count per section
+export async function fetchTestSummaries(
+  options: RepositoryOptions = {}
+): Promise<TestSummary[]> {
+  const repository = repositoryFrom(options);
+
+  try {
+    const tests = await repository.listTests();
+    const links = await repository.findTestQuestionsForTests(
+      tests.map((test) => test.test_id!)
+    );
+    const sections = await repository.findTestSections(
+      links.map((link) => link.test_section_id)
+    );
+    const sectionNames = new Map(
+      sections.map((section) => [section.test_section_id, section.name])
+    );
+
+    const linksByTest = new Map<string, TestQuestion[]>();
+    for (const link of links) {
+      linksByTest.set(link.test_id, [
+        ...(linksByTest.get(link.test_id) || []),
+        link,
+      ]);
+    }
+
+    return tests.map((test) => {
+      const testLinks = (linksByTest.get(test.test_id!) || []).sort(
+        (a, b) => a.order_in_test - b.order_in_test
+      );
+      // Insertion order follows order_in_test, so sections come out in test order
+      const counts = new Map<string, number>();
+      for (const link of testLinks) {
+        counts.set(
+          link.test_section_id,
+          (counts.get(link.test_section_id) ?? 0) + 1
+        );
+      }
+
+      return {
+        test,
+        sections: [...counts].map(([test_section_id, questionCount]) => ({
+          test_section_id,
+          name: sectionNames.get(test_section_id) ?? "Unknown section",
+          questionCount,
+        })),
+        questionCount: testLinks.length,
+      };
+    });
+  } catch (error) {
+    throw new Error(`Failed to list tests: ${errorMessage(error)}`);
+  }
+}
+
+export async function setTestArchived(
+  testId: string,
+  isArchived: boolean,
+  options: RepositoryOptions = {}
+): Promise<void> {
+  try {
+    await repositoryFrom(options).updateTest(testId, {
+      is_archived: isArchived,
+    });
+  } catch (error) {
+    throw new Error(
+      `Failed to ${
+        isArchived ? "archive" : "restore"
+      } test ${testId}: ${errorMessage(error)}`
+    );
+  }
+}
+
+export interface TestDeletionResult {
+  deletedQuestionIds: string[];
+}
+
+/**
+ * Deletes a test with its question links. With deleteOrphanedQuestions, the
+ * test's questions that no other test links to are deleted too; questions
+ * still used elsewhere are always kept.
+ */
+export async function deleteTest(
+  testId: string,
+  options: RepositoryOptions & { deleteOrphanedQuestions?: boolean } = {}
+): Promise<TestDeletionResult> {
+  const repository = repositoryFrom(options);
+
+  let questionIds: string[];
+  try {
+    const links = await repository.findTestQuestions(testId);
+    questionIds = [...new Set(links.map((link) => link.question_id))];
+    if (!(await repository.deleteTest(testId))) {
+      throw new Error("the test was not deleted");
+    }
+  } catch (error) {
+    throw new Error(`Failed to delete test ${testId}: ${errorMessage(error)}`);
+  }
+
+  if (!options.deleteOrphanedQuestions || questionIds.length === 0) {
+    return { deletedQuestionIds: [] };
+  }
+
+  try {
+    const linked = new Set(await repository.findLinkedQuestionIds(questionIds));
+    const orphaned = questionIds.filter((id) => !linked.has(id));
+    return {
+      deletedQuestionIds:
+        orphaned.length > 0 ? await repository.deleteQuestions(orphaned) : [],
+    };
+  } catch (error) {
+    throw new Error(
+      `Test ${testId} was deleted, but its unused questions could not be: ${errorMessage(
+        error
+      )}`
+    );
+  }
 }
 
 export async function createTest(
   test: Test,
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  ledger?: UploadLedger,
+  options: RepositoryOptions = {}
 ): Promise<string> {
   onProgress?.({
     stage: "test",
@@ -56,93 +424,406 @@ export async function createTest(
     message: "Creating test entry...",
   });
 
-  const { data, error } = await supabase
-    .from("tests")
-    .insert(test)
-    .select("test_id")
-    .single();
-
-  if (error) {
-    console.error("Error creating test:", error);
-    throw new Error(`Failed to create test: ${error.message}`);
-  }
-
-  if (!data?.test_id) {
-    throw new Error("Test created but no test_id returned");
+  let testId: string;
+  try {
+    testId = await repositoryFrom(options).createTest(test);
+  } catch (error) {
+    throw new Error(`Failed to create test: ${errorMessage(error)}`);
   }
 
-  return data.test_id;
+  if (ledger) ledger.testId = testId;
+  return testId;
 }
 
-export async function updateTestSections(
-  moduleNumbers: number[]
-): Promise<void> {
-  // Update test sections 3 and 4 to enable desmos and mark as math sections
-  const mathModules = moduleNumbers.filter((num) => num === 3 || num === 4);
-
-  for (const moduleNum of mathModules) {
-    const testSectionId = `TESTSECTION${moduleNum}`;
+/**
+ * Finds a test section with each module's settings, creating one where none
+ * exists. Existing sections are never modified, since other tests share them.
+ * Created sections are recorded in the ledger.
+ * @returns The test_section_id for each module, in module order
+ */
+export async function resolveTestSections(
+  modules: ModuleData[],
+  onProgress?: (progress: UploadProgress) => void,
+  ledger?: UploadLedger,
+  options: RepositoryOptions = {}
+): Promise<string[]> {
+  const repository = repositoryFrom(options);
+  const sectionIds: string[] = [];
 
-    const { error } = await supabase
-      .from("test_sections")
-      .update({
-        is_desmos_allowed: true,
-        is_math_section: true,
-      })
-      .eq("test_section_id", testSectionId);
+  for (const [index, moduleData] of modules.entries()) {
+    const settings =
+      moduleData.section ?? defaultSectionSettings(moduleData.moduleNumber);
+    onProgress?.({
+      stage: "sections",
+      current: index + 1,
+      total: modules.length,
+      message: `Setting up section "${settings.name}"...`,
+    });
 
-    if (error) {
-      console.error(`Error updating test section ${testSectionId}:`, error);
-      // Don't throw error, just log it since this is a supplementary update
+    try {
+      let sectionId = await repository.findTestSection(settings);
+      if (!sectionId) {
+        sectionId = await repository.createTestSection(settings);
+        ledger?.testSectionIds.push(sectionId);
+      }
+      sectionIds.push(sectionId);
+    } catch (error) {
+      throw new Error(
+        `Failed to set up test section "${settings.name}": ${errorMessage(
+          error
+        )}`
+      );
     }
   }
+
+  return sectionIds;
 }
 
 export async function uploadTestQuestions(
   testQuestions: TestQuestion[],
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  options: BatchOptions &
+    RepositoryOptions & {
+      // Reference id of each link's question, used in error messages
+      referenceIds?: string[];
+      // Called with the order_in_test values of each confirmed chunk
+      onLinked?: (orders: number[]) => void | Promise<void>;
+    } = {}
 ): Promise<void> {
-  for (let i = 0; i < testQuestions.length; i++) {
+  const { chunkSize, concurrency } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const repository = repositoryFrom(options);
+  const chunks = chunkRows(
+    testQuestions.map((testQuestion, index) => ({
+      testQuestion,
+      label: options.referenceIds?.[index] ?? testQuestion.question_id,
+    })),
+    chunkSize
+  );
+  let linked = 0;
+
+  await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+    try {
+      await repository.insertTestQuestions(
+        chunk.map((row) => row.testQuestion)
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to link questions ${describeChunk(
+          chunk.map((row) => row.label)
+        )}: ${errorMessage(error)}`
+      );
+    }
+
+    await options.onLinked?.(
+      chunk.map((row) => row.testQuestion.order_in_test)
+    );
+
+    linked += chunk.length;
     onProgress?.({
       stage: "test_questions",
-      current: i + 1,
+      current: linked,
       total: testQuestions.length,
-      message: `Linking question ${i + 1} of ${testQuestions.length}`,
+      message: `Linked ${linked} of ${testQuestions.length} questions`,
     });
+  });
+}
 
-    const { error } = await supabase
-      .from("test_questions")
-      .insert(testQuestions[i]);
+/**
+ * Undoes everything a failed run wrote, newest first: the test and its
+ * question links, the test sections the run created that no other test links
+ * to, inserted questions, and in-place updates. Uploaded images are kept
+ * because other questions may share them.
+ * @returns What was rolled back and anything that could not be
+ */
+export async function rollbackUpload(
+  ledger: UploadLedger,
+  onProgress?: (progress: UploadProgress) => void,
+  options: RepositoryOptions = {}
+): Promise<{ rolledBack: string[]; failures: string[] }> {
+  const repository = repositoryFrom(options);
+  const rolledBack: string[] = [];
+  const failures: string[] = [];
+  const report = (message: string) =>
+    onProgress?.({ stage: "rollback", current: 0, total: 1, message });
 
-    if (error) {
-      console.error("Error uploading test question:", error);
-      throw new Error(`Failed to link question ${i + 1}: ${error.message}`);
+  if (ledger.testId) {
+    report("Rolling back: deleting the test...");
+    try {
+      if (await repository.deleteTest(ledger.testId)) {
+        rolledBack.push("the test and its question links");
+      } else {
+        failures.push(`test ${ledger.testId} (not deleted)`);
+      }
+    } catch (error) {
+      failures.push(`test ${ledger.testId} (${errorMessage(error)})`);
     }
   }
+
+  // Runs after the test is deleted, so only other tests' links keep a section
+  if (ledger.testSectionIds.length > 0) {
+    report("Rolling back: deleting new test sections...");
+    try {
+      const linked = new Set(
+        await repository.findLinkedTestSectionIds(ledger.testSectionIds)
+      );
+      const unused = ledger.testSectionIds.filter((id) => !linked.has(id));
+      const deleted = new Set(
+        unused.length > 0 ? await repository.deleteTestSections(unused) : []
+      );
+      const remaining = unused.filter((id) => !deleted.has(id));
+      if (remaining.length > 0) {
+        failures.push(`test sections ${remaining.join(", ")} (not deleted)`);
+      }
+      if (deleted.size > 0) {
+        rolledBack.push(`${deleted.size} new test sections`);
+      }
+    } catch (error) {
+      failures.push(
+        `test sections ${ledger.testSectionIds.join(", ")} (${errorMessage(
+          error
+        )})`
+      );
+    }
+  }
+
+  if (ledger.questionIds.length > 0) {
+    report(`Rolling back: deleting ${ledger.questionIds.length} questions...`);
+    let deletedIds = new Set<string>();
+    let reason = "not deleted";
+    try {
+      deletedIds = new Set(
+        await repository.deleteQuestions(ledger.questionIds)
+      );
+    } catch (error) {
+      reason = errorMessage(error);
+    }
+
+    const remaining = ledger.questionIds.filter((id) => !deletedIds.has(id));
+    if (remaining.length > 0) {
+      failures.push(`questions ${remaining.join(", ")} (${reason})`);
+    }
+    if (deletedIds.size > 0) {
+      rolledBack.push(`${deletedIds.size} new questions`);
+    }
+  }
+
+  if (ledger.previousValues.length > 0) {
+    report(
+      `Rolling back: restoring ${ledger.previousValues.length} updated questions...`
+    );
+    let restored = 0;
+    for (const { question_id, values } of ledger.previousValues) {
+      try {
+        await repository.updateQuestion(question_id, values);
+        restored++;
+      } catch (error) {
+        failures.push(`question ${question_id} (${errorMessage(error)})`);
+      }
+    }
+    if (restored > 0) {
+      rolledBack.push(
+        `${restored} updated questions (previous values restored)`
+      );
+    }
+  }
+
+  return { rolledBack, failures };
+}
+
+// Rolls back a failed run and folds the outcome into the error shown to the user.
+// `clean` is false when some rows could not be rolled back.
+async function rollBackAfter(
+  error: unknown,
+  ledger: UploadLedger,
+  onProgress?: (progress: UploadProgress) => void,
+  options: RepositoryOptions = {}
+): Promise<{ error: Error; clean: boolean }> {
+  const message = errorMessage(error);
+  const { rolledBack, failures } = await rollbackUpload(
+    ledger,
+    onProgress,
+    options
+  );
+
+  let outcome =
+    rolledBack.length > 0
+      ? ` Rolled back ${rolledBack.join(", ")}.`
+      : failures.length === 0
+      ? " Nothing had been written yet, so nothing needed rolling back."
+      : "";
+  if (failures.length > 0) {
+    outcome += ` Rollback failed for ${failures.join(
+      "; "
+    )}; these rows need to be removed or restored manually.`;
+  }
+
+  return {
+    error: new Error(`${message.replace(/\.$/, "")}.${outcome}`),
+    clean: failures.length === 0,
+  };
+}
+
+/**
+ * Checks a journal from an interrupted run against the database, keeping only
+ * the questions, test and links that actually exist. A run can stop between
+ * a write and its journal entry, or be partly rolled back, so the journal
+ * alone is not trusted.
+ */
+export async function reconcileUploadJournal(
+  journal: UploadJournal,
+  options: RepositoryOptions = {}
+): Promise<UploadJournal> {
+  const repository = repositoryFrom(options);
+  const entries = Object.entries(journal.questionIds);
+  let existingIds: Set<string>;
+  let testId: string | undefined;
+  let testSectionIds: string[];
+  let linkedOrders: number[] = [];
+
+  try {
+    existingIds = new Set(
+      await repository.findExistingQuestionIds(entries.map(([, id]) => id))
+    );
+    testSectionIds = (
+      await repository.findTestSections(journal.testSectionIds)
+    ).map((section) => section.test_section_id);
+    if (journal.testId && (await repository.testExists(journal.testId))) {
+      testId = journal.testId;
+      linkedOrders = await repository.findLinkedOrders(journal.testId);
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to check the interrupted upload: ${errorMessage(error)}`
+    );
+  }
+
+  return {
+    ...journal,
+    questionIds: Object.fromEntries(
+      entries.filter(([, id]) => existingIds.has(id))
+    ),
+    testId,
+    testSectionIds,
+    linkedOrders,
+  };
+}
+
+// Everything a journaled run created, for rolling it back
+export function journalLedger(journal: UploadJournal): UploadLedger {
+  return {
+    questionIds: Object.values(journal.questionIds),
+    testId: journal.testId,
+    testSectionIds: [...journal.testSectionIds],
+    previousValues: [],
+  };
 }
 
 export interface ModuleData {
   moduleNumber: number;
   questions: Question[];
+  // Defaults to the standard settings for the module's position
+  section?: SectionSettings;
+}
+
+export interface UploadOptions extends BatchOptions, RepositoryOptions {
+  // Where images embedded in the spreadsheets are stored; defaults to Supabase Storage
+  imageStorage?: ImageStorage;
+  // Records confirmed progress so an interrupted run can be resumed. A journal
+  // that already holds progress (see reconcileUploadJournal) resumes that run.
+  journal?: UploadJournal;
+  // Called whenever the journal changes, e.g. to persist it
+  onJournal?: (journal: UploadJournal) => void | Promise<void>;
 }
 
 export async function uploadBulkData(
   modules: ModuleData[],
-  testTitle: string,
-  testDescription: string,
-  onProgress?: (progress: UploadProgress) => void
+  // Callers set is_full_test from the template (see isFullTestUpload); when
+  // it is missing, four modules count as a full test
+  testDetails: TestDetails,
+  onProgress?: (progress: UploadProgress) => void,
+  options: UploadOptions = {}
 ): Promise<{ test_id: string; total_questions: number }> {
+  const { journal } = options;
+  const ledger = journal ? journalLedger(journal) : createUploadLedger();
+
+  // Journal problems are logged, never allowed to fail the upload itself
+  const recordJournal = async (changes: Partial<UploadJournal>) => {
+    if (!journal) return;
+    Object.assign(journal, changes, { updated_at: new Date().toISOString() });
+    try {
+      await options.onJournal?.(journal);
+    } catch (error) {
+      console.error("Error saving upload journal:", error);
+    }
+  };
+
   try {
+    // Checked again here because another upload may have taken the code since the form did
+    if (
+      testDetails.reference_id &&
+      !journal?.testId &&
+      (await testReferenceIdExists(testDetails.reference_id, options))
+    ) {
+      throw new Error(
+        `A test with reference code "${testDetails.reference_id}" already exists`
+      );
+    }
+
     // Step 1: Upload all questions and collect their IDs
     const allQuestions: Question[] = [];
     const moduleQuestionIds: { moduleNumber: number; questionIds: string[] }[] =
       [];
 
+    // Questions a resumed run already inserted are linked, not inserted again
     for (const moduleData of modules) {
-      allQuestions.push(...moduleData.questions);
+      allQuestions.push(
+        ...moduleData.questions.map((q) => {
+          const journaledId = journal?.questionIds[q.reference_id];
+          return !q.question_id && journaledId
+            ? { ...q, question_id: journaledId }
+            : q;
+        })
+      );
     }
+    await recordJournal({ status: "in_progress" });
+
+    // Questions that already have a question_id (reused from the bank) are only linked
+    let newQuestions = allQuestions.filter((q) => !q.question_id);
 
-    const questionIds = await uploadQuestions(allQuestions, onProgress);
+    // Step 0: Move embedded images to storage so questions reference URLs, not data
+    newQuestions = await uploadEmbeddedImages(
+      newQuestions,
+      options.imageStorage ?? createSupabaseImageStorage(),
+      (uploaded, total) =>
+        onProgress?.({
+          stage: "images",
+          current: uploaded,
+          total,
+          message: `Uploading image ${uploaded} of ${total}`,
+        })
+    );
+
+    const insertedIds = await uploadQuestions(
+      newQuestions,
+      onProgress,
+      ledger,
+      {
+        ...options,
+        onInserted: (rows) =>
+          recordJournal({
+            questionIds: {
+              ...journal?.questionIds,
+              ...Object.fromEntries(
+                rows.map((row) => [row.reference_id, row.question_id])
+              ),
+            },
+          }),
+      }
+    );
+    let insertedIndex = 0;
+    const questionIds = allQuestions.map(
+      (q) => q.question_id ?? insertedIds[insertedIndex++]
+    );
 
     // Map question IDs back to their modules
     let currentIndex = 0;
@@ -157,35 +838,63 @@ export async function uploadBulkData(
 
     // Step 2: Create test
     const test: Test = {
-      title: testTitle,
-      description: testDescription,
-      is_full_test: modules.length === 4,
+      ...testDetails,
+      is_full_test: testDetails.is_full_test ?? modules.length === 4,
     };
 
-    const testId = await createTest(test, onProgress);
+    const testId =
+      journal?.testId ?? (await createTest(test, onProgress, ledger, options));
+    await recordJournal({ testId });
 
-    // Step 2.5: Update test sections for math modules (3 and 4)
-    const moduleNumbers = modules.map((m) => m.moduleNumber);
-    await updateTestSections(moduleNumbers);
+    // Step 2.5: Find or create a test section matching each module's settings
+    const sectionIds = await resolveTestSections(
+      modules,
+      onProgress,
+      ledger,
+      options
+    );
+    await recordJournal({ testSectionIds: [...ledger.testSectionIds] });
 
-    // Step 3: Create test_questions
+    // Step 3: Create test_questions. order_in_test counts on across modules
+    // in the order their questions are given, as arranged in the preview.
     const testQuestions: TestQuestion[] = [];
     let orderCounter = 1;
 
-    for (const moduleData of moduleQuestionIds) {
-      const testSectionId = `TESTSECTION${moduleData.moduleNumber}`;
-
+    for (const [index, moduleData] of moduleQuestionIds.entries()) {
       for (const questionId of moduleData.questionIds) {
         testQuestions.push({
           question_id: questionId,
-          test_section_id: testSectionId,
+          test_section_id: sectionIds[index],
           test_id: testId,
           order_in_test: orderCounter++,
         });
       }
     }
 
-    await uploadTestQuestions(testQuestions, onProgress);
+    // Links are built in module order, the same order as allQuestions
+    const linkedOrders = new Set(journal?.linkedOrders);
+    const pendingLinks = testQuestions
+      .map((testQuestion, index) => ({
+        testQuestion,
+        referenceId: allQuestions[index].reference_id,
+      }))
+      .filter(
+        ({ testQuestion }) => !linkedOrders.has(testQuestion.order_in_test)
+      );
+
+    await uploadTestQuestions(
+      pendingLinks.map((link) => link.testQuestion),
+      onProgress,
+      {
+        ...options,
+        referenceIds: pendingLinks.map((link) => link.referenceId),
+        onLinked: (orders) =>
+          recordJournal({
+            linkedOrders: [...(journal?.linkedOrders || []), ...orders],
+          }),
+      }
+    );
+    await recordJournal({ status: "complete" });
 
     onProgress?.({
       stage: "complete",
@@ -200,6 +909,411 @@ export async function uploadBulkData(
     };
   } catch (error) {
     console.error("Bulk upload error:", error);
-    throw error;
+    const rollback = await rollBackAfter(error, ledger, onProgress, options);
+    // A partly failed rollback leaves rows behind, so keep the journal to resume or retry from
+    if (rollback.clean) await recordJournal({ status: "rolled_back" });
+    throw rollback.error;
+  }
+}
+
+/**
+ * Updates stored questions in place from a revised spreadsheet instead of
+ * creating a new test. Rows are matched on reference_id and only changed
+ * fields are written, so question_ids (and every test_questions link and
+ * student attempt pointing at them) stay valid.
+ * @returns What was updated, field by field, and what was left alone
+ */
+export async function updateExistingQuestions(
+  questions: Question[],
+  onProgress?: (progress: UploadProgress) => void,
+  options: UploadOptions = {}
+): Promise<QuestionUpdatePlan> {
+  const repository = repositoryFrom(options);
+  const ledger = createUploadLedger();
+
+  try {
+    const existing = await fetchQuestionsByReferenceIds(
+      questions.map((q) => q.reference_id),
+      { repository }
+    );
+    const storedIds = new Set(existing.map((q) => q.reference_id));
+
+    // Images go to storage first so the comparison sees stored URLs, not data
+    const matched = await uploadEmbeddedImages(
+      questions.filter((q) => storedIds.has(q.reference_id)),
+      options.imageStorage ?? createSupabaseImageStorage(),
+      (uploaded, total) =>
+        onProgress?.({
+          stage: "images",
+          current: uploaded,
+          total,
+          message: `Uploading image ${uploaded} of ${total}`,
+        })
+    );
+
+    const plan = planQuestionUpdates(matched, existing);
+    plan.notFound = questions
+      .filter((q) => !storedIds.has(q.reference_id))
+      .map((q) => q.reference_id);
+
+    for (let i = 0; i < plan.updates.length; i++) {
+      const update = plan.updates[i];
+      onProgress?.({
+        stage: "updates",
+        current: i + 1,
+        total: plan.updates.length,
+        message: `Updating question ${i + 1} of ${plan.updates.length} (${
+          update.reference_id
+        })`,
+      });
+
+      try {
+        await repository.updateQuestion(update.question_id, update.values);
+      } catch (error) {
+        throw new Error(
+          `Failed to update question ${update.reference_id}: ${errorMessage(
+            error
+          )}`
+        );
+      }
+      ledger.previousValues.push({
+        question_id: update.question_id,
+        values: update.previous,
+      });
+    }
+
+    onProgress?.({
+      stage: "complete",
+      current: plan.updates.length,
+      total: plan.updates.length,
+      message: "Update complete!",
+    });
+
+    return plan;
+  } catch (error) {
+    console.error("Bulk update error:", error);
+    throw (await rollBackAfter(error, ledger, onProgress, { repository }))
+      .error;
+  }
+}
+
+export interface TestRevisionResult {
+  // Reference ids of the questions each kind of change was applied to
+  updated: string[];
+  added: string[];
+  // Added questions linked from the bank rather than inserted
+  reused: string[];
+  removed: string[];
+  // Names of the sections put in the revised order
+  reordered: string[];
+}
+
+// Makes the test's question links match `desired`, matching links on section
+// and question: matched links are renumbered, the others deleted, and missing
+// ones inserted. Renumbered links pass through orders above every final one,
+// so no two links share an order_in_test along the way.
+async function syncTestLinks(
+  repository: UploadRepository,
+  testId: string,
+  desired: TestQuestion[],
+  onProgress?: (progress: UploadProgress) => void
+): Promise<void> {
+  const current = await repository.findTestQuestions(testId);
+  const linkKey = (link: TestQuestion) =>
+    `${link.test_section_id}:${link.question_id}`;
+  const unmatched = new Map<string, TestQuestion[]>();
+  for (const link of current) {
+    unmatched.set(linkKey(link), [
+      ...(unmatched.get(linkKey(link)) || []),
+      link,
+    ]);
+  }
+
+  const renumbered: { testQuestionId: string; order: number }[] = [];
+  const inserted: TestQuestion[] = [];
+  for (const link of desired) {
+    const match = unmatched.get(linkKey(link))?.shift();
+    if (!match) {
+      inserted.push(link);
+    } else if (match.order_in_test !== link.order_in_test) {
+      renumbered.push({
+        testQuestionId: match.test_question_id!,
+        order: link.order_in_test,
+      });
+    }
+  }
+  const deletedIds = [...unmatched.values()]
+    .flat()
+    .map((link) => link.test_question_id!);
+
+  const total = deletedIds.length + renumbered.length * 2 + inserted.length;
+  let done = 0;
+  const report = (count: number) => {
+    done += count;
+    onProgress?.({
+      stage: "test_questions",
+      current: done,
+      total,
+      message: `Updating question links (${done} of ${total})`,
+    });
+  };
+
+  if (deletedIds.length > 0) {
+    const deleted = await repository.deleteTestQuestions(deletedIds);
+    if (deleted.length !== deletedIds.length) {
+      throw new Error("not every removed question could be unlinked");
+    }
+    report(deleted.length);
+  }
+
+  const offset = Math.max(
+    0,
+    ...current.map((link) => link.order_in_test),
+    ...desired.map((link) => link.order_in_test)
+  );
+  for (const step of [offset, 0]) {
+    for (const { testQuestionId, order } of renumbered) {
+      await repository.updateTestQuestion(testQuestionId, {
+        order_in_test: step + order,
+      });
+      report(1);
+    }
+  }
+
+  if (inserted.length > 0) {
+    await repository.insertTestQuestions(inserted);
+    report(inserted.length);
+  }
+}
+
+/**
+ * Applies the selected changes of a revised workbook to a stored test, as
+ * planned by planTestRevision. Field changes are written to the stored
+ * questions in place; added questions are inserted unless the test already
+ * links them or they carry the question_id of a bank question to reuse,
+ * removed ones are unlinked (the questions stay in the bank), and the links
+ * are renumbered to the arranged order. The plan is made again against the
+ * test as stored now, and the run stops if a selected addition, removal or
+ * reordering is no longer part of it.
+ * On failure the links are put back and the question writes rolled back.
+ */
+export async function reviseTest(
+  testId: string,
+  sections: RevisedSection[],
+  changeIds: string[],
+  onProgress?: (progress: UploadProgress) => void,
+  options: UploadOptions = {}
+): Promise<TestRevisionResult> {
+  const repository = repositoryFrom(options);
+  const ledger = createUploadLedger();
+  const selected = new Set(changeIds);
+  // Set once the links start changing, so they can be put back
+  let originalLinks: TestQuestion[] | null = null;
+
+  try {
+    const content = await fetchTestContent(testId, { repository });
+    // Only the questions the selected changes write need their images
+    // stored; additions reused from the bank are linked, not written
+    const writtenRefs = new Set(
+      planTestRevision(content, sections).changes.flatMap((change) =>
+        !selected.has(change.id)
+          ? []
+          : change.kind === "changed"
+          ? [change.update.reference_id]
+          : change.kind === "added" && !change.question.question_id
+          ? [change.question.reference_id]
+          : []
+      )
+    );
+
+    // Images go to storage first so the comparison sees stored URLs, not data
+    const withImages = new Map(
+      (
+        await uploadEmbeddedImages(
+          sections
+            .flatMap((section) => section.questions)
+            .filter((q) => writtenRefs.has(q.reference_id)),
+          options.imageStorage ?? createSupabaseImageStorage(),
+          (uploaded, total) =>
+            onProgress?.({
+              stage: "images",
+              current: uploaded,
+              total,
+              message: `Uploading image ${uploaded} of ${total}`,
+            })
+        )
+      ).map((q) => [q.reference_id, q])
+    );
+    const revised = sections.map((section) => ({
+      ...section,
+      questions: section.questions.map(
+        (q) => withImages.get(q.reference_id) ?? q
+      ),
+    }));
+
+    const plan = planTestRevision(content, revised);
+    const plannedIds = new Set(plan.changes.map((change) => change.id));
+    // A field change can disappear once images are stored; that only means nothing is left to write
+    const stale = changeIds.filter(
+      (id) => !plannedIds.has(id) && !id.startsWith("changed:")
+    );
+    if (stale.length > 0) {
+      throw new Error(
+        `The test has changed since the diff was made (${stale.join(
+          ", "
+        )}); reload it and review the changes again`
+      );
+    }
+    const applied = plan.changes.filter((change) => selected.has(change.id));
+
+    // Step 1: Write field changes to the stored questions
+    const updates = applied.flatMap((change) =>
+      change.kind === "changed" ? [change.update] : []
+    );
+    for (const [index, update] of updates.entries()) {
+      onProgress?.({
+        stage: "updates",
+        current: index + 1,
+        total: updates.length,
+        message: `Updating question ${index + 1} of ${updates.length} (${
+          update.reference_id
+        })`,
+      });
+
+      try {
+        await repository.updateQuestion(update.question_id, update.values);
+      } catch (error) {
+        throw new Error(
+          `Failed to update question ${update.reference_id}: ${errorMessage(
+            error
+          )}`
+        );
+      }
+      ledger.previousValues.push({
+        question_id: update.question_id,
+        values: update.previous,
+      });
+    }
+
+    // Step 2: Insert added questions the test does not link to yet. One
+    // moved from another section keeps its question_id, and one reused from
+    // the bank carries the stored question_id, which must still exist under
+    // the same reference_id.
+    const questionIds = new Map(
+      content.sections
+        .flatMap((section) => section.questions)
+        .map((q) => [q.reference_id, q.question_id!])
+    );
+    const added = applied.flatMap((change) =>
+      change.kind === "added" ? [change.question] : []
+    );
+    const reused = added.filter(
+      (q) => !questionIds.has(q.reference_id) && q.question_id
+    );
+    if (reused.length > 0) {
+      const stored = new Map(
+        (
+          await repository.findQuestionsByIds(reused.map((q) => q.question_id!))
+        ).map((q) => [q.question_id, q.reference_id])
+      );
+      const unknown = reused.filter(
+        (q) => stored.get(q.question_id) !== q.reference_id
+      );
+      if (unknown.length > 0) {
+        throw new Error(
+          `No stored question matches ${unknown
+            .map((q) => `${q.reference_id} (${q.question_id})`)
+            .join(", ")}; reload the test and choose again`
+        );
+      }
+      reused.forEach((q) => questionIds.set(q.reference_id, q.question_id!));
+    }
+    const newQuestions = added.filter((q) => !questionIds.has(q.reference_id));
+    const insertedIds = await uploadQuestions(
+      newQuestions,
+      onProgress,
+      ledger,
+      { ...options, repository }
+    );
+    newQuestions.forEach((q, index) =>
+      questionIds.set(q.reference_id, insertedIds[index])
+    );
+
+    // Step 3: Relink the test in the arranged order. Links to questions no
+    // longer in the bank are kept after the others.
+    const removed = applied.flatMap((change) =>
+      change.kind === "removed" ? [change.question.reference_id] : []
+    );
+    const reordered = applied.flatMap((change) =>
+      change.kind === "reordered" ? [change.test_section_id] : []
+    );
+    if (added.length > 0 || removed.length > 0 || reordered.length > 0) {
+      originalLinks = await repository.findTestQuestions(testId);
+      const missing = new Set(content.missingQuestionIds);
+      const desired: TestQuestion[] = [
+        ...arrangeRevisedTest(content, revised, plan, selected).flatMap(
+          (section) =>
+            section.slots.map((slot) => ({
+              test_id: testId,
+              test_section_id: section.test_section_id,
+              question_id: slot.added
+                ? questionIds.get(slot.question.reference_id)!
+                : slot.question.question_id!,
+            }))
+        ),
+        ...originalLinks
+          .filter((link) => missing.has(link.question_id))
+          .map(({ test_id, test_section_id, question_id }) => ({
+            test_id,
+            test_section_id,
+            question_id,
+          })),
+      ].map((link, index) => ({ ...link, order_in_test: index + 1 }));
+
+      try {
+        await syncTestLinks(repository, testId, desired, onProgress);
+      } catch (error) {
+        throw new Error(
+          `Failed to update the test's question links: ${errorMessage(error)}`
+        );
+      }
+    }
+
+    onProgress?.({
+      stage: "complete",
+      current: applied.length,
+      total: applied.length,
+      message: "Revision complete!",
+    });
+
+    const sectionName = (sectionId: string) =>
+      content.sections.find((s) => s.test_section_id === sectionId)?.section
+        ?.name ?? sectionId;
+    return {
+      updated: [...new Set(updates.map((update) => update.reference_id))],
+      added: added.map((q) => q.reference_id),
+      reused: reused.map((q) => q.reference_id),
+      removed,
+      reordered: reordered.map(sectionName),
+    };
+  } catch (error) {
+    console.error("Test revision error:", error);
+    let failure = error;
+    if (originalLinks) {
+      try {
+        await syncTestLinks(repository, testId, originalLinks);
+      } catch (restoreError) {
+        failure = new Error(
+          `${errorMessage(error).replace(
+            /\.$/,
+            ""
+          )}. The test's question links could not be put back (${errorMessage(
+            restoreError
+          )}), so check its question order before trying again`
+        );
+      }
+    }
+    throw (await rollBackAfter(failure, ledger, onProgress, { repository }))
+      .error;
   }
 }
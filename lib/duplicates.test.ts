@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyConflictResolutions,
+  findBankConflicts,
+  findBatchDuplicates,
+  unresolvedConflicts,
+  type BatchModule,
+} from "./duplicates";
+import { question } from "./question-fixtures";
+
+const batchModule = (id: string, refs: string[]): BatchModule => ({
+  id,
+  label: `Module ${id}`,
+  sheet: "Questions",
+  questions: refs.map((ref) => question(ref)),
+});
+
+describe("findBatchDuplicates", () => {
+  it("reports an id on every module after the first that uses it", () => {
+    const issues = findBatchDuplicates([
+      batchModule("1", ["Q1", "Q2"]),
+      batchModule("2", ["Q2", "Q3"]),
+      batchModule("3", ["Q2"]),
+    ]);
+
+    expect(Object.keys(issues)).toEqual(["2", "3"]);
+    expect(issues["2"]).toEqual([
+      {
+        severity: "error",
+        sheet: "Questions",
+        reference_id: "Q2",
+        field: "reference_id",
+        message: "reference id 'Q2' is also used in Module 1",
+      },
+    ]);
+    expect(issues["3"][0].message).toBe(
+      "reference id 'Q2' is also used in Module 1"
+    );
+  });
+
+  it("leaves repeats within one module to the parser", () => {
+    expect(findBatchDuplicates([batchModule("1", ["Q1", "Q1"])])).toEqual({});
+  });
+});
+
+describe("findBankConflicts", () => {
+  it("pairs each incoming id once with every stored copy", () => {
+    const stored = [
+      question("Q1", { question_id: "a" }),
+      question("Q1", { question_id: "b" }),
+      question("Q9"),
+    ];
+    const conflicts = findBankConflicts(
+      [question("Q1"), question("Q2"), question("Q1")],
+      stored
+    );
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].reference_id).toBe("Q1");
+    expect(conflicts[0].existing.map((q) => q.question_id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("applyConflictResolutions", () => {
+  const conflicts = findBankConflicts(
+    [question("Q1"), question("Q2"), question("Q3")],
+    [
+      question("Q1", { question_id: "id-1" }),
+      question("Q2", { question_id: "id-2" }),
+      question("Q3", { question_id: "id-3" }),
+    ]
+  );
+  const modules = [
+    {
+      moduleNumber: 1,
+      questions: [
+        question("Q1"),
+        question("Q2"),
+        question("Q3"),
+        question("Q4"),
+      ],
+    },
+  ];
+
+  it("drops skipped questions and links reused ones by question_id", () => {
+    const [resolved] = applyConflictResolutions(modules, conflicts, {
+      Q1: "skip",
+      Q2: "reuse",
+      Q3: "create",
+    });
+
+    expect(
+      resolved.questions.map((q) => [q.reference_id, q.question_id])
+    ).toEqual([
+      ["Q2", "id-2"],
+      ["Q3", undefined],
+      ["Q4", undefined],
+    ]);
+    expect(modules[0].questions[1].question_id).toBeUndefined();
+  });
+
+  it("lists the conflicts still waiting for a choice", () => {
+    expect(
+      unresolvedConflicts(conflicts, { Q2: "reuse" }).map((c) => c.reference_id)
+    ).toEqual(["Q1", "Q3"]);
+  });
+});
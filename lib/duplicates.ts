@@ -0,0 +1,129 @@
+import type { Question } from "./supabase";
+import type { ModuleData } from "./database";
+import type { ValidationIssue } from "./validation";
+
+// What to do with an incoming question whose reference_id is already in the bank
+export type ConflictResolution = "skip" | "create" | "reuse";
+
+export interface QuestionConflict {
+  reference_id: string;
+  incoming: Question;
+  // Stored questions with the same reference_id; "reuse" links the first one
+  existing: Question[];
+}
+
+export interface BatchModule {
+  id: string;
+  // e.g. "Module 2 (exam.xlsx › Math)"
+  label: string;
+  sheet: string;
+  questions: Question[];
+}
+
+/**
+ * Reports reference_ids that appear in more than one module of the batch.
+ * Duplicates within one sheet are already reported by the parser, so only
+ * the second and later modules containing an id get an issue.
+ * @returns Issues keyed by module id
+ */
+export function findBatchDuplicates(
+  modules: BatchModule[]
+): Record<string, ValidationIssue[]> {
+  const firstModule = new Map<string, BatchModule>();
+  const issues: Record<string, ValidationIssue[]> = {};
+
+  for (const batchModule of modules) {
+    const referenceIds = new Set(
+      batchModule.questions.map((q) => q.reference_id)
+    );
+
+    for (const referenceId of referenceIds) {
+      const first = firstModule.get(referenceId);
+      if (!first) {
+        firstModule.set(referenceId, batchModule);
+        continue;
+      }
+
+      issues[batchModule.id] = [
+        ...(issues[batchModule.id] || []),
+        {
+          severity: "error",
+          sheet: batchModule.sheet,
+          reference_id: referenceId,
+          field: "reference_id",
+          message: `reference id '${referenceId}' is also used in ${first.label}`,
+        },
+      ];
+    }
+  }
+
+  return issues;
+}
+
+// Pairs each incoming question with the stored questions sharing its reference_id
+export function findBankConflicts(
+  questions: Question[],
+  existing: Question[]
+): QuestionConflict[] {
+  const stored = new Map<string, Question[]>();
+  for (const question of existing) {
+    stored.set(question.reference_id, [
+      ...(stored.get(question.reference_id) || []),
+      question,
+    ]);
+  }
+
+  const conflicts: QuestionConflict[] = [];
+  const seen = new Set<string>();
+  for (const question of questions) {
+    const matches = stored.get(question.reference_id);
+    if (!matches || seen.has(question.reference_id)) continue;
+    seen.add(question.reference_id);
+    conflicts.push({
+      reference_id: question.reference_id,
+      incoming: question,
+      existing: matches,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Applies the chosen resolutions before upload: skipped questions are left
+ * out of their module and reused ones carry the stored question_id, so they
+ * are linked to the test instead of inserted again.
+ */
+export function applyConflictResolutions(
+  modules: ModuleData[],
+  conflicts: QuestionConflict[],
+  resolutions: Record<string, ConflictResolution>
+): ModuleData[] {
+  const conflictsById = new Map(conflicts.map((c) => [c.reference_id, c]));
+
+  return modules.map((moduleData) => ({
+    ...moduleData,
+    questions: moduleData.questions.flatMap((question) => {
+      const conflict = conflictsById.get(question.reference_id);
+      if (!conflict) return [question];
+
+      switch (resolutions[question.reference_id]) {
+        case "skip":
+          return [];
+        case "reuse":
+          return [
+            { ...question, question_id: conflict.existing[0].question_id },
+          ];
+        default:
+          return [question];
+      }
+    }),
+  }));
+}
+
+export function unresolvedConflicts(
+  conflicts: QuestionConflict[],
+  resolutions: Record<string, ConflictResolution>
+): QuestionConflict[] {
+  return conflicts.filter((conflict) => !resolutions[conflict.reference_id]);
+}
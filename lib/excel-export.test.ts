@@ -0,0 +1,81 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import type { TestContent } from "./database";
+import { buildTestWorkbook } from "./excel-export";
+import {
+  convertParsedQuestions,
+  parseWorkbookSheets,
+  readWorkbookData,
+} from "./excel-parser";
+import { GRID_IN_RULES, parseGridInAnswers } from "./grid-in";
+import { question } from "./question-fixtures";
+import type { Question, TestSection } from "./supabase";
+
+const section = (name: string): TestSection => ({
+  test_section_id: `s-${name}`,
+  name,
+  duration_minutes: 35,
+  is_desmos_allowed: true,
+  is_math_section: true,
+});
+
+// Questions as stored: converted from a spreadsheet, so non-grid-ins have no accepted answers
+const stored = (reference_id: string, overrides: Partial<Question> = {}) =>
+  question(reference_id, { accepted_answers: null, ...overrides });
+
+const gridIn = (reference_id: string, cell: string) => {
+  const { answers } = parseGridInAnswers(cell, GRID_IN_RULES.digital_sat);
+  return stored(reference_id, {
+    question_type: "numeric",
+    answer_choices: [],
+    correct_answer: answers[0].value,
+    accepted_answers: answers,
+  });
+};
+
+describe("buildTestWorkbook", () => {
+  it("writes a test the parser reads back unchanged", () => {
+    const sections = [
+      [
+        stored("M1.1", {
+          instructions: "Use the figure.",
+          question_text: "What is $\\dfrac{1}{2} + x$?",
+          explanation: "Add $\\dfrac{1}{2}$.",
+          difficulty: "easy",
+          correct_answer: "3",
+        }),
+        stored("M1.2", {
+          question_type: "multi_select",
+          answer_choices: ["a", "b", "c", "d", "e"],
+          correct_answer: "1,5",
+          difficulty: "intense",
+        }),
+      ],
+      [gridIn("M2.1", "3/2; 1.5"), stored("M2.2", { tag: "geometry" })],
+    ];
+    const data: TestContent = {
+      test: { test_id: "t-1", title: "Practice Test 1" },
+      sections: sections.map((questions, index) => ({
+        test_section_id: `s-${index + 1}`,
+        section: section(`Math Module ${index + 1}`),
+        questions,
+      })),
+      missingQuestionIds: [],
+    };
+
+    const bytes = XLSX.write(buildTestWorkbook(data, { restoreFrac: true }), {
+      type: "array",
+      bookType: "xlsx",
+    });
+    const results = parseWorkbookSheets(readWorkbookData(bytes));
+
+    expect(results.map((result) => result.sheetName)).toEqual([
+      "Math Module 1",
+      "Math Module 2",
+    ]);
+    expect(results.flatMap((result) => result.report.issues)).toEqual([]);
+    expect(
+      results.map((result) => convertParsedQuestions(result.questions))
+    ).toEqual(sections);
+  });
+});
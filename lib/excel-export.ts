@@ -0,0 +1,129 @@
+import * as XLSX from "xlsx";
+import type { TestContent } from "./database";
+import { LETTERS } from "./excel-parser";
+import type { Question, QuestionType, Test } from "./supabase";
+
+export interface ExportOptions {
+  // Writes \frac where the parser stored \dfrac; importing converts it back
+  restoreFrac?: boolean;
+}
+
+// The spreadsheet template always has Answer A–D, even for grid-in sheets
+const MIN_ANSWER_COLUMNS = 4;
+
+// Spellings the parser's Question Type column accepts
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "multiple choice",
+  multi_select: "multi-select",
+  numeric: "numeric",
+};
+
+// Excel caps sheet names at 31 characters and forbids : \ / ? * [ ]
+const SHEET_NAME_MAX_LENGTH = 31;
+
+function uniqueSheetName(name: string, taken: Set<string>): string {
+  const base =
+    name
+      .replace(/[:\\/?*[\]]/g, "-")
+      .trim()
+      .slice(0, SHEET_NAME_MAX_LENGTH) || "Section";
+
+  let candidate = base;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, SHEET_NAME_MAX_LENGTH - suffix.length) + suffix;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Indices become letters again ("1,3" → "A, C"); grid-ins list the answers
+// the author typed, since the parser derives the decimal forms on import
+function correctAnswerCell(question: Question): string {
+  if (question.question_type === "numeric") {
+    const typed = (question.accepted_answers ?? [])
+      .filter((answer) => !answer.generated)
+      .map((answer) => answer.value);
+    return typed.length > 0 ? typed.join("; ") : question.correct_answer;
+  }
+
+  return question.correct_answer
+    .split(",")
+    .map((index) => LETTERS[Number(index) - 1] ?? index.trim())
+    .join(", ");
+}
+
+function questionRows(
+  questions: Question[],
+  options: ExportOptions
+): string[][] {
+  const text = (value: string) =>
+    options.restoreFrac ? value.replace(/\\dfrac/g, "\\frac") : value;
+  const answerColumns = Math.max(
+    MIN_ANSWER_COLUMNS,
+    ...questions.map((q) => q.answer_choices.length)
+  );
+
+  const header = [
+    "Question ID",
+    "SAT_Tag",
+    "Difficulty",
+    "Question Type",
+    "Instruction",
+    "Question",
+    ...Array.from(
+      { length: answerColumns },
+      (_, index) => `Answer ${LETTERS[index]}`
+    ),
+    "Correct Answer",
+    "Explanation",
+  ];
+
+  return [
+    header,
+    ...questions.map((question) => [
+      question.reference_id,
+      question.tag,
+      question.difficulty.toUpperCase(),
+      QUESTION_TYPE_LABELS[question.question_type],
+      text(question.instructions),
+      text(question.question_text),
+      ...Array.from({ length: answerColumns }, (_, index) =>
+        text(question.answer_choices[index] ?? "")
+      ),
+      correctAnswerCell(question),
+      text(question.explanation),
+    ]),
+  ];
+}
+
+/**
+ * Writes a loaded test back into the spreadsheet layout the parser reads,
+ * one sheet per test section in test order, so the workbook can be edited
+ * and imported again.
+ */
+export function buildTestWorkbook(
+  data: TestContent,
+  options: ExportOptions = {}
+): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const taken = new Set<string>();
+
+  data.sections.forEach((group, index) => {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet(questionRows(group.questions, options)),
+      uniqueSheetName(group.section?.name ?? `Section ${index + 1}`, taken)
+    );
+  });
+
+  return workbook;
+}
+
+// "SAT-2026-10.xlsx", or the title when the test has no reference code
+export function exportFileName(test: Test): string {
+  const name = (test.reference_id || test.title)
+    .replace(/[\\/:*?"<>|]/g, "-")
+    .trim();
+  return `${name || "test"}.xlsx`;
+}
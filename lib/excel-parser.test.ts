@@ -0,0 +1,298 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import {
+  convertToQuestion,
+  parseWorkbookSheets,
+  parseWorksheet,
+} from "./excel-parser";
+import {
+  applyMappingProfile,
+  type ColumnMappingProfile,
+} from "./mapping-profiles";
+
+const HEADERS = [
+  "Question ID",
+  "Difficulty",
+  "Question",
+  "Answer A",
+  "Answer B",
+  "Answer C",
+  "Answer D",
+  "Answer E",
+  "Correct Answer",
+];
+
+// A sheet whose used range starts at `origin`, as when the table does not start at A1
+const sheet = (rows: unknown[][], origin = "A1") => {
+  const worksheet = XLSX.utils.sheet_add_aoa({}, rows, { origin });
+  const range = XLSX.utils.decode_range(worksheet["!ref"]!);
+  range.s = XLSX.utils.decode_cell(origin);
+  worksheet["!ref"] = XLSX.utils.encode_range(range);
+  return worksheet;
+};
+
+const issues = (result: ReturnType<typeof parseWorksheet>) =>
+  result.report.issues.map(({ severity, cell, message }) => ({
+    severity,
+    cell,
+    message,
+  }));
+
+describe("parseWorksheet", () => {
+  it.each([
+    {
+      name: "an unknown correct letter",
+      row: ["Q1", "easy", "1 + 1?", "1", "2", "", "", "", "C"],
+      issue: {
+        severity: "error",
+        cell: "J4",
+        message: "correct answer 'C' is not one of A–B or F–G",
+      },
+    },
+    {
+      name: "a gap in the answer choices",
+      row: ["Q1", "easy", "1 + 1?", "1", "", "3", "", "", "A"],
+      issue: {
+        severity: "error",
+        cell: "F4",
+        message: "answer B is empty but answer C is filled",
+      },
+    },
+    {
+      name: "an unknown difficulty",
+      row: ["Q1", "tricky", "1 + 1?", "1", "2", "", "", "", "B"],
+      issue: {
+        severity: "error",
+        cell: "C4",
+        message: "difficulty 'tricky' is not one of easy, medium, hard/intense",
+      },
+    },
+    {
+      name: "a repeated reference id",
+      row: ["Q0", "easy", "1 + 1?", "1", "2", "", "", "", "B"],
+      issue: {
+        severity: "error",
+        cell: "B4",
+        message: "duplicate reference id 'Q0' (first seen in row 3)",
+      },
+    },
+  ])("reports $name at its cell", ({ row, issue }) => {
+    // The table starts at B2, so cells are offset by a row and a column
+    const result = parseWorksheet(
+      sheet(
+        [HEADERS, ["Q0", "easy", "2 + 2?", "3", "4", "", "", "", "B"], row],
+        "B2"
+      ),
+      "Module 1"
+    );
+
+    expect(issues(result)).toEqual([issue]);
+  });
+
+  it("reads headers through a saved mapping profile", () => {
+    const headers = ["ID", "Level", "Prompt", "Opt 1", "Opt 2", "Key"];
+    const profile: ColumnMappingProfile = {
+      name: "Vendor export",
+      headers: ["id", "level", "prompt", "opt1", "opt2", "key"],
+      assignments: {
+        id: "reference_id",
+        level: "difficulty",
+        prompt: "question_text",
+        opt1: "answer_1",
+        opt2: "answer_2",
+        key: "correct_answer",
+      },
+      updated_at: "2026-10-01T00:00:00.000Z",
+    };
+    const worksheet = sheet([headers, ["V1", "hard", "2 + 2?", "3", "4", "B"]]);
+
+    const result = parseWorksheet(worksheet, "Module 1", {
+      assignments: applyMappingProfile(headers, profile),
+    });
+
+    expect(result.report.issues).toEqual([]);
+    expect(result.questions.map(convertToQuestion)).toEqual([
+      {
+        reference_id: "V1",
+        question_type: "multiple_choice",
+        question_text: "2 + 2?",
+        instructions: "",
+        explanation: "",
+        difficulty: "intense",
+        tag: "",
+        answer_choices: ["3", "4"],
+        correct_answer: "2",
+        accepted_answers: null,
+      },
+    ]);
+    expect(issues(parseWorksheet(worksheet, "Module 1"))).toEqual([
+      {
+        severity: "error",
+        cell: undefined,
+        message:
+          'Missing required column \'question_id\' or \'reference_id\'. Detected columns: "ID", "Level", "Prompt", "Opt 1", "Opt 2", "Key"',
+      },
+    ]);
+  });
+
+  it.each([
+    ["A, C", "multi_select", "1,3"],
+    ["AE", "multi_select", "1,5"],
+    ["F;H", "multi_select", "1,3"],
+    ["G J K", "multi_select", "2,4,5"],
+    ["K", "multiple_choice", "5"],
+  ])(
+    "reads correct answer %s as %s choices %s",
+    (correct, questionType, choices) => {
+      const result = parseWorksheet(
+        sheet([
+          HEADERS,
+          ["Q1", "easy", "Pick", "a", "b", "c", "d", "e", correct],
+        ]),
+        "Module 1"
+      );
+
+      expect(result.report.issues).toEqual([]);
+      expect(convertToQuestion(result.questions[0])).toMatchObject({
+        question_type: questionType,
+        correct_answer: choices,
+      });
+    }
+  );
+
+  it("names both letterings when a letter is in neither", () => {
+    const result = parseWorksheet(
+      sheet([HEADERS, ["Q1", "easy", "Pick", "a", "b", "c", "d", "e", "A, L"]]),
+      "Module 1"
+    );
+
+    expect(issues(result)).toEqual([
+      {
+        severity: "error",
+        cell: "I2",
+        message: "correct answer 'A, L' is not one of A–E or F–K",
+      },
+    ]);
+  });
+});
+
+describe("parseWorkbookSheets", () => {
+  // A workbook as read with bookFiles, with pictures on the drawing layer
+  const workbookWithImages = (
+    anchors: { row: number; col: number; media: string }[]
+  ) => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      sheet([
+        [
+          "Question ID",
+          "Difficulty",
+          "Question",
+          "Answer A",
+          "Answer B",
+          "Correct Answer",
+        ],
+        ["Q1", "easy", "Which figure?", "", "Second", "B"],
+        ["Q2", "easy", "", "1", "2", "A"],
+      ]),
+      "Module 1"
+    );
+
+    const xml = (text: string) => ({ content: new TextEncoder().encode(text) });
+    const relationship = (id: string, type: string, target: string) =>
+      `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`;
+    const media = [...new Set(anchors.map((anchor) => anchor.media))];
+
+    return Object.assign(workbook, {
+      files: {
+        "xl/workbook.xml": xml(
+          '<workbook><sheets><sheet name="Module 1" sheetId="1" r:id="rId1"/></sheets></workbook>'
+        ),
+        "xl/_rels/workbook.xml.rels": xml(
+          `<Relationships>${relationship(
+            "rId1",
+            "worksheet",
+            "worksheets/sheet1.xml"
+          )}</Relationships>`
+        ),
+        "xl/worksheets/_rels/sheet1.xml.rels": xml(
+          `<Relationships>${relationship(
+            "rId1",
+            "drawing",
+            "../drawings/drawing1.xml"
+          )}</Relationships>`
+        ),
+        "xl/drawings/drawing1.xml": xml(
+          `<xdr:wsDr>${anchors
+            .map(
+              (anchor) =>
+                `<xdr:twoCellAnchor><xdr:from><xdr:col>${
+                  anchor.col
+                }</xdr:col><xdr:row>${
+                  anchor.row
+                }</xdr:row></xdr:from><xdr:pic><xdr:blipFill><a:blip r:embed="rId${
+                  media.indexOf(anchor.media) + 1
+                }"/></xdr:blipFill></xdr:pic></xdr:twoCellAnchor>`
+            )
+            .join("")}</xdr:wsDr>`
+        ),
+        "xl/drawings/_rels/drawing1.xml.rels": xml(
+          `<Relationships>${media
+            .map((name, index) =>
+              relationship(`rId${index + 1}`, "image", `../media/${name}`)
+            )
+            .join("")}</Relationships>`
+        ),
+        ...Object.fromEntries(
+          media.map((name) => [
+            `xl/media/${name}`,
+            { content: new Uint8Array([1, 2, 3]) },
+          ])
+        ),
+      },
+    });
+  };
+
+  it("places embedded images in the cell they are anchored to", () => {
+    const [result] = parseWorkbookSheets(
+      workbookWithImages([
+        { row: 1, col: 2, media: "image1.png" },
+        { row: 1, col: 3, media: "image2.jpeg" },
+        { row: 2, col: 5, media: "image1.png" },
+        { row: 5, col: 2, media: "image2.jpeg" },
+      ])
+    );
+
+    expect(result.questions.map((q) => q.question_text)).toEqual([
+      "Which figure?\n\n![image1.png](data:image/png;base64,AQID)",
+      "![image1.png](data:image/png;base64,AQID)",
+    ]);
+    expect(result.questions[0].answer_choices).toEqual([
+      "![image2.jpeg](data:image/jpeg;base64,AQID)",
+      "Second",
+    ]);
+    expect(issues(result)).toEqual([
+      {
+        severity: "warning",
+        cell: "C6",
+        message:
+          "image 'image2.jpeg' is not on a question row, so it was dropped",
+      },
+    ]);
+  });
+
+  it("drops images in formats browsers cannot show", () => {
+    const [result] = parseWorkbookSheets(
+      workbookWithImages([{ row: 1, col: 2, media: "image1.emf" }])
+    );
+
+    expect(result.questions[0].question_text).toBe("Which figure?");
+    expect(issues(result)).toContainEqual({
+      severity: "warning",
+      cell: "C2",
+      message:
+        "image 'image1.emf' is not a format browsers can show, so it was dropped; use PNG, JPEG, GIF, SVG or WebP",
+    });
+  });
+});
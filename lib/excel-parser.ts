@@ -1,5 +1,13 @@
 import * as XLSX from "xlsx";
-import type { Question } from "./supabase";
+import type { GridInAnswer, Question, QuestionType } from "./supabase";
+import { GRID_IN_RULES, parseGridInAnswers, type GridInRules } from "./grid-in";
+import { checkLatex } from "./latex-check";
+import { extractSheetImages, toDataUrl, type SheetImage } from "./xlsx-images";
+import {
+  createReport,
+  type ValidationIssue,
+  type ValidationReport,
+} from "./validation";
 
 export interface ParsedQuestion {
   reference_id: string;
@@ -7,266 +15,730 @@ export interface ParsedQuestion {
   difficulty: string;
   instructions: string;
   question_text: string;
-  answer_a: string;
-  answer_b: string;
-  answer_c: string;
-  answer_d: string;
+  // One entry per mapped answer column, in choice order; blank cells stay ""
+  answer_choices: string[];
   correct_answer: string;
   explanation: string;
+  // From the Question Type column when present, otherwise inferred from the choices
+  question_type: QuestionType;
+  // Parsed from correct_answer when the question has no answer choices
+  accepted_answers?: GridInAnswer[];
 }
 
-export async function parseExcelFile(file: File): Promise<ParsedQuestion[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: "array" });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-
-        // Convert to JSON with headers
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-          defval: "",
-        }) as Record<string, string>[];
-
-        // Validate that we have data
-        if (jsonData.length === 0) {
-          reject(
-            new Error(
-              "The Excel file is empty or has no data rows. Please ensure your file contains data."
-            )
-          );
-          return;
-        }
-
-        // Helper function to normalize column names (will be defined below)
-        const normalizeKey = (key: string): string => {
-          return key.toLowerCase().replace(/[_\s]/g, "");
-        };
-
-        // Validate required headers exist
-        const headers = Object.keys(jsonData[0] || {});
-        const normalizedHeaders = headers.map((h) => normalizeKey(h));
-        const requiredHeaders = [
-          "questionid",
-          "referenceid",
-          "question_id",
-          "reference_id",
-        ];
-        const hasRequiredHeader = requiredHeaders.some((req) =>
-          normalizedHeaders.includes(normalizeKey(req))
-        );
-
-        if (!hasRequiredHeader) {
-          const detectedHeaders = headers.join('", "');
-          reject(
-            new Error(
-              `Missing required column 'question_id' or 'reference_id'.\n\nDetected columns: "${detectedHeaders}"\n\nPlease ensure your Excel file has a column named 'question_id', 'Question_ID', 'Question ID', 'reference_id', 'Reference_ID', or 'Reference ID'.`
-            )
-          );
-          return;
-        }
-
-        // Helper function to preserve linebreaks while trimming only leading/trailing whitespace
-        const trimPreserveLinebreaks = (str: string): string => {
-          return str.replace(/^[\t ]+|[\t ]+$/gm, "");
-        };
-
-        // Helper function to convert \frac to \dfrac in LaTeX
-        const convertFracToDisplayFrac = (str: string): string => {
-          return str.replace(/\\frac/g, "\\dfrac");
-        };
-
-        // Helper function to get value with fallback headers (case-insensitive, space/underscore flexible)
-        const getValue = (
-          row: Record<string, string>,
-          primary: string,
-          fallbacks: string[] = []
-        ): string => {
-          // Create a normalized key map for flexible lookup
-          const normalizedRow: Record<string, string> = {};
-          Object.keys(row).forEach((key) => {
-            normalizedRow[normalizeKey(key)] = row[key];
-          });
-
-          // Check primary key (normalized)
-          if (normalizedRow[normalizeKey(primary)])
-            return normalizedRow[normalizeKey(primary)];
-
-          // Check fallback keys (normalized)
-          for (const fallback of fallbacks) {
-            if (normalizedRow[normalizeKey(fallback)])
-              return normalizedRow[normalizeKey(fallback)];
-          }
-          return "";
-        };
-
-        // Parse rows using header names
-        const questions: ParsedQuestion[] = [];
-        let skippedRows = 0;
-
-        for (const row of jsonData) {
-          const questionId = getValue(row, "question_id", [
-            "reference_id",
-            "question id",
-            "reference id",
-          ]);
-
-          // Skip empty rows
-          if (!questionId || String(questionId).trim() === "") {
-            skippedRows++;
-            continue;
-          }
-
-          questions.push({
-            reference_id: String(questionId).trim(),
-            tag: String(
-              getValue(row, "tag", ["sat_tag", "sat tag", "category"]) || ""
-            ).trim(),
-            difficulty: String(getValue(row, "difficulty") || "medium")
-              .toLowerCase()
-              .trim()
-              .replace("hard", "intense"),
-            instructions: convertFracToDisplayFrac(
-              trimPreserveLinebreaks(
-                String(
-                  getValue(row, "instructions", ["instruction", "passage"]) ||
-                    ""
-                )
-              )
-            ),
-            question_text: convertFracToDisplayFrac(
-              trimPreserveLinebreaks(
-                String(
-                  getValue(row, "question_text", [
-                    "question",
-                    "question text",
-                  ]) || ""
-                )
-              )
-            ),
-            answer_a: convertFracToDisplayFrac(
-              trimPreserveLinebreaks(
-                String(
-                  getValue(row, "answer_a", [
-                    "option_a",
-                    "option_1",
-                    "answer a",
-                    "option a",
-                    "option 1",
-                  ]) || ""
-                )
-              )
-            ),
-            answer_b: convertFracToDisplayFrac(
-              trimPreserveLinebreaks(
-                String(
-                  getValue(row, "answer_b", [
-                    "option_b",
-                    "option_2",
-                    "answer b",
-                    "option b",
-                    "option 2",
-                  ]) || ""
-                )
-              )
-            ),
-            answer_c: convertFracToDisplayFrac(
-              trimPreserveLinebreaks(
-                String(
-                  getValue(row, "answer_c", [
-                    "option_c",
-                    "option_3",
-                    "answer c",
-                    "option c",
-                    "option 3",
-                  ]) || ""
-                )
-              )
-            ),
-            answer_d: convertFracToDisplayFrac(
-              trimPreserveLinebreaks(
-                String(
-                  getValue(row, "answer_d", [
-                    "option_d",
-                    "option_4",
-                    "answer d",
-                    "option d",
-                    "option 4",
-                  ]) || ""
-                )
-              )
-            ),
-            correct_answer: String(
-              getValue(row, "correct_answer", ["correct answer"]) || ""
-            )
-              .trim()
-              .toUpperCase(),
-            explanation: convertFracToDisplayFrac(
-              trimPreserveLinebreaks(
-                String(getValue(row, "explanation", ["solution"]) || "")
-              )
-            ),
-          });
-        }
-
-        // Log warning if rows were skipped
-        if (skippedRows > 0) {
-          console.warn(
-            `Skipped ${skippedRows} row(s) without a valid question_id/reference_id`
-          );
-        }
-
-        // Validate that we parsed at least one question
-        if (questions.length === 0) {
-          const detectedHeaders = headers.join('", "');
-          reject(
-            new Error(
-              `No valid questions found in the Excel file. ${
-                skippedRows > 0
-                  ? `${skippedRows} row(s) were skipped because they had no question_id/reference_id value.`
-                  : ""
-              }\n\nDetected columns: "${detectedHeaders}"\n\nPlease ensure:\n1. Your column headers match the expected format (e.g., 'question_id', 'Question_ID', or 'Question ID')\n2. Your data rows contain values in the question_id/reference_id column`
-            )
-          );
-          return;
-        }
-
-        resolve(questions);
-      } catch (error) {
-        reject(error);
-      }
-    };
+// Answer columns are numbered by position, so "Answer A" and "Answer F" can both be the first choice
+export type AnswerChoiceField = `answer_${number}`;
+
+export type ParsedQuestionField =
+  | "reference_id"
+  | "tag"
+  | "difficulty"
+  | "question_type"
+  | "instructions"
+  | "question_text"
+  | AnswerChoiceField
+  | "correct_answer"
+  | "explanation";
+
+export interface ParseOptions {
+  // Header assignments from the mapping step; the built-in aliases are used when omitted
+  assignments?: ColumnAssignments;
+  gridInRules?: GridInRules;
+  // Pictures from the sheet's drawing layer, filled in by parseWorkbookSheets
+  images?: SheetImage[];
+}
+
+// Header text → field it feeds; "ignore" skips the column, null means not mapped yet
+export type ColumnAssignments = Record<
+  string,
+  ParsedQuestionField | "ignore" | null
+>;
+
+export interface ColumnMappingAnalysis {
+  unmappedHeaders: string[];
+  ambiguousFields: { field: ParsedQuestionField; headers: string[] }[];
+  missingRequired: ParsedQuestionField[];
+}
+
+export interface SheetParseResult {
+  sheetName: string;
+  headers: string[];
+  questions: ParsedQuestion[];
+  report: ValidationReport;
+}
+
+// Built-in header names per field, used to suggest a mapping for new spreadsheets.
+// Answer columns are matched by ANSWER_COLUMN_PATTERN instead.
+const COLUMN_ALIASES: Partial<Record<ParsedQuestionField, string[]>> = {
+  reference_id: ["question_id", "reference_id", "question id", "reference id"],
+  tag: ["tag", "sat_tag", "sat tag", "category"],
+  difficulty: ["difficulty"],
+  question_type: ["question_type", "question type", "type"],
+  instructions: ["instructions", "instruction", "passage"],
+  question_text: ["question_text", "question", "question text"],
+  correct_answer: ["correct_answer", "correct answer"],
+  explanation: ["explanation", "solution"],
+};
+
+// "Answer A", "option_3", "Choice F"...
+const ANSWER_COLUMN_PATTERN =
+  /^(?:answer|option|choice)[_\s-]*([a-z]|\d{1,2})$/i;
+
+// Answer choice letters in choice order
+export const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// ACT alternates A–E and F–K (skipping I) between odd and even questions
+const ALTERNATE_LETTERS = "FGHJK";
 
-    reader.onerror = (error) => reject(error);
-    reader.readAsArrayBuffer(file);
+export const MAX_ANSWER_CHOICES = 10;
+
+export const answerChoiceField = (index: number): AnswerChoiceField =>
+  `answer_${index + 1}`;
+
+export const isAnswerChoiceField = (
+  field: string
+): field is AnswerChoiceField => /^answer_\d+$/.test(field);
+
+const choiceFieldIndex = (field: AnswerChoiceField): number =>
+  Number(field.slice("answer_".length)) - 1;
+
+export const PARSED_QUESTION_FIELDS: {
+  field: ParsedQuestionField;
+  label: string;
+}[] = [
+  { field: "reference_id", label: "Question ID" },
+  { field: "tag", label: "Tag" },
+  { field: "difficulty", label: "Difficulty" },
+  { field: "question_type", label: "Question Type" },
+  { field: "instructions", label: "Instructions" },
+  { field: "question_text", label: "Question Text" },
+  ...Array.from({ length: MAX_ANSWER_CHOICES }, (_, index) => ({
+    field: answerChoiceField(index),
+    label: `Choice ${index + 1} (${[LETTERS[index], ALTERNATE_LETTERS[index]]
+      .filter(Boolean)
+      .join(" / ")})`,
+  })),
+  { field: "correct_answer", label: "Correct Answer" },
+  { field: "explanation", label: "Explanation" },
+];
+
+const REQUIRED_FIELDS: ParsedQuestionField[] = ["reference_id"];
+
+// Markdown fields that may contain math, besides the answer choices
+const MATH_FIELDS: ("instructions" | "question_text" | "explanation")[] = [
+  "instructions",
+  "question_text",
+  "explanation",
+];
+
+const DIFFICULTIES = ["easy", "medium", "intense"];
+
+// Spellings accepted in the Question Type column, keyed by normalizeKey
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+  multiplechoice: "multiple_choice",
+  multichoice: "multiple_choice",
+  mcq: "multiple_choice",
+  mc: "multiple_choice",
+  multiselect: "multi_select",
+  multipleselect: "multi_select",
+  selectall: "multi_select",
+  selectallthatapply: "multi_select",
+  checkbox: "multi_select",
+  numeric: "numeric",
+  gridin: "numeric",
+  spr: "numeric",
+};
+
+// Helper function to normalize column names
+export const normalizeKey = (key: string): string => {
+  return key.toLowerCase().replace(/[_\s]/g, "");
+};
+
+function parseQuestionType(value: string): QuestionType | undefined {
+  return QUESTION_TYPE_ALIASES[normalizeKey(value).replace(/-/g, "")];
+}
+
+// Zero-based choice index for a letter. F–K are read as the alternate ACT
+// lettering when the question doesn't have that many choices.
+function letterToChoiceIndex(letter: string, choiceCount: number): number {
+  const index = LETTERS.indexOf(letter);
+  if (index !== -1 && index < choiceCount) return index;
+  const alternate = ALTERNATE_LETTERS.indexOf(letter);
+  return alternate !== -1 && alternate < choiceCount ? alternate : -1;
+}
+
+// Reads "B", "A, C", "A;C" or "AC" into sorted zero-based choice indices
+export function parseCorrectLetters(
+  value: string,
+  choiceCount: number
+): { indices: number[]; invalid: string[] } {
+  const indices = new Set<number>();
+  const invalid: string[] = [];
+
+  for (const token of value.toUpperCase().split(/[\s,;|/&]+/)) {
+    if (!token || token === "AND") continue;
+    const letters = /^[A-Z]+$/.test(token) ? token.split("") : [token];
+    for (const letter of letters) {
+      const index = letterToChoiceIndex(letter, choiceCount);
+      if (index === -1) invalid.push(letter);
+      else indices.add(index);
+    }
+  }
+
+  return { indices: [...indices].sort((a, b) => a - b), invalid };
+}
+
+// "A–D", or "A–E or F–K" when the alternate lettering fits
+function choiceRangeLabel(choiceCount: number): string {
+  const range = `A–${LETTERS[choiceCount - 1]}`;
+  return choiceCount <= ALTERNATE_LETTERS.length
+    ? `${range} or F–${ALTERNATE_LETTERS[choiceCount - 1]}`
+    : range;
+}
+
+type ReportIssue = (
+  severity: ValidationIssue["severity"],
+  field: ParsedQuestionField,
+  message: string
+) => void;
+
+/**
+ * The checks a question's values get wherever they come from: a spreadsheet
+ * row (parseWorksheet) or an edit in the preview (checkEditedQuestion).
+ * Values are in row form: correct_answer holds letters or grid-in answers.
+ * answer_choices are the question's choices, each of which must be filled;
+ * a row's empty cells after its last filled choice are not among them.
+ * @param report - Receives each issue with the field it concerns
+ * @param choiceField - The field of each answer choice; answer_1, answer_2... by default
+ * @returns The accepted answers of a grid-in question
+ */
+export function checkQuestionValues(
+  question: ParsedQuestion,
+  report: ReportIssue,
+  options: {
+    choiceField?: (index: number) => ParsedQuestionField;
+    gridInRules?: GridInRules;
+  } = {}
+): GridInAnswer[] | undefined {
+  const {
+    choiceField = answerChoiceField,
+    gridInRules = GRID_IN_RULES.digital_sat,
+  } = options;
+
+  if (!DIFFICULTIES.includes(question.difficulty)) {
+    report(
+      "error",
+      "difficulty",
+      `difficulty '${question.difficulty}' is not one of easy, medium, hard/intense`
+    );
+  }
+
+  if (!question.question_text.trim() && !question.instructions.trim()) {
+    report(
+      "error",
+      "question_text",
+      "question text and instructions are both empty"
+    );
+  } else if (!question.question_text.trim()) {
+    report("warning", "question_text", "question text is empty");
+  }
+
+  // Empty choices are dropped on conversion, so a gap would shift the letters after it
+  const choiceCount = question.answer_choices.length;
+  const lastFilled = question.answer_choices
+    .map((choice) => choice.trim() !== "")
+    .lastIndexOf(true);
+  question.answer_choices.forEach((choice, index) => {
+    if (choice.trim()) return;
+    report(
+      "error",
+      choiceField(index),
+      index < lastFilled
+        ? `answer ${LETTERS[index]} is empty but answer ${LETTERS[lastFilled]} is filled`
+        : `answer ${LETTERS[index]} is empty`
+    );
   });
+
+  let acceptedAnswers: GridInAnswer[] | undefined;
+  const { indices, invalid } = parseCorrectLetters(
+    question.correct_answer,
+    choiceCount
+  );
+  if (!question.correct_answer.trim()) {
+    report("error", "correct_answer", "correct answer is empty");
+  } else if (question.question_type === "numeric" && choiceCount > 0) {
+    report(
+      "error",
+      "question_type",
+      "question type is numeric but the question has answer choices"
+    );
+  } else if (question.question_type !== "numeric" && choiceCount === 0) {
+    report(
+      "error",
+      "question_type",
+      "the question type needs answer choices but none are filled"
+    );
+  } else if (choiceCount > 0) {
+    if (invalid.length > 0) {
+      report(
+        "error",
+        "correct_answer",
+        `correct answer '${
+          question.correct_answer
+        }' is not one of ${choiceRangeLabel(choiceCount)}`
+      );
+    } else if (
+      question.question_type === "multiple_choice" &&
+      indices.length > 1
+    ) {
+      report(
+        "error",
+        "correct_answer",
+        `correct answer '${question.correct_answer}' lists ${indices.length} choices but the question type is multiple choice`
+      );
+    }
+  } else {
+    // No answer choices: a grid-in, possibly listing several accepted forms
+    const { answers, problems } = parseGridInAnswers(
+      question.correct_answer,
+      gridInRules
+    );
+    problems.forEach((problem) =>
+      report(problem.severity, "correct_answer", problem.message)
+    );
+    acceptedAnswers = answers;
+  }
+
+  for (const field of MATH_FIELDS) {
+    checkLatex(question[field]).forEach((problem) =>
+      report(problem.severity, field, problem.message)
+    );
+  }
+  question.answer_choices.forEach((choice, index) =>
+    checkLatex(choice).forEach((problem) =>
+      report(problem.severity, choiceField(index), problem.message)
+    )
+  );
+
+  return acceptedAnswers;
 }
 
-export function convertToQuestion(parsed: ParsedQuestion): Question {
-  // Convert letter (A, B, C, D) to index (1, 2, 3, 4)
-  const answerMap: { [key: string]: string } = {
-    A: "1",
-    B: "2",
-    C: "3",
-    D: "4",
+// Helper function to preserve linebreaks while trimming only leading/trailing whitespace
+const trimPreserveLinebreaks = (str: string): string => {
+  return str.replace(/^[\t ]+|[\t ]+$/gm, "");
+};
+
+// Helper function to convert \frac to \dfrac in LaTeX
+const convertFracToDisplayFrac = (str: string): string => {
+  return str.replace(/\\frac/g, "\\dfrac");
+};
+
+// Suggests a field for each header from the built-in aliases (case-insensitive, space/underscore flexible).
+// Answer columns are numbered in letter/number order, e.g. Answer F–K become choices 1–5.
+export function suggestColumnAssignments(headers: string[]): ColumnAssignments {
+  const assignments: ColumnAssignments = {};
+  const answerRanks = new Map<string, number>();
+
+  for (const header of headers) {
+    if (!header) continue;
+    const answerMatch = header.trim().match(ANSWER_COLUMN_PATTERN);
+    if (answerMatch) {
+      const key = answerMatch[1].toUpperCase();
+      answerRanks.set(
+        header,
+        /\d/.test(key) ? Number(key) : LETTERS.indexOf(key) + 1
+      );
+      assignments[header] = null;
+      continue;
+    }
+
+    const normalized = normalizeKey(header);
+    const match = (Object.keys(COLUMN_ALIASES) as ParsedQuestionField[]).find(
+      (field) =>
+        COLUMN_ALIASES[field]?.some(
+          (alias) => normalizeKey(alias) === normalized
+        )
+    );
+    assignments[header] = match ?? null;
+  }
+
+  // Headers with the same rank ("Answer A" and "Option 1") share a field and show up as ambiguous
+  const ranks = [...new Set(answerRanks.values())].sort((a, b) => a - b);
+  for (const [header, rank] of answerRanks) {
+    const position = ranks.indexOf(rank);
+    assignments[header] =
+      position < MAX_ANSWER_CHOICES ? answerChoiceField(position) : null;
+  }
+
+  return assignments;
+}
+
+export function analyzeColumnAssignments(
+  assignments: ColumnAssignments
+): ColumnMappingAnalysis {
+  const headersByField = new Map<ParsedQuestionField, string[]>();
+  const unmappedHeaders: string[] = [];
+
+  for (const [header, field] of Object.entries(assignments)) {
+    if (field === null) {
+      unmappedHeaders.push(header);
+    } else if (field !== "ignore") {
+      headersByField.set(field, [...(headersByField.get(field) || []), header]);
+    }
+  }
+
+  return {
+    unmappedHeaders,
+    ambiguousFields: [...headersByField.entries()]
+      .filter(([, headers]) => headers.length > 1)
+      .map(([field, headers]) => ({ field, headers })),
+    missingRequired: REQUIRED_FIELDS.filter(
+      (field) => !headersByField.has(field)
+    ),
   };
+}
+
+export function hasMappingProblems(analysis: ColumnMappingAnalysis): boolean {
+  return (
+    analysis.unmappedHeaders.length > 0 ||
+    analysis.ambiguousFields.length > 0 ||
+    analysis.missingRequired.length > 0
+  );
+}
+
+// Returns each header with the first non-blank value below it, for the mapping step
+export function previewSheetColumns(
+  worksheet: XLSX.WorkSheet
+): { header: string; sample: string }[] {
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(
+    worksheet,
+    { header: 1, defval: "" }
+  );
+
+  return headerRow.map((h, index) => ({
+    header: String(h ?? "").trim(),
+    sample: String(
+      dataRows.find((row) => String(row[index] ?? "").trim() !== "")?.[index] ??
+        ""
+    ),
+  }));
+}
+
+// Resolves each field to the index of the first header assigned to it
+function resolveColumns(
+  headers: string[],
+  assignments: ColumnAssignments
+): Partial<Record<ParsedQuestionField, number>> {
+  const columns: Partial<Record<ParsedQuestionField, number>> = {};
+
+  headers.forEach((header, index) => {
+    const field = assignments[header];
+    if (field && field !== "ignore" && columns[field] === undefined) {
+      columns[field] = index;
+    }
+  });
+
+  return columns;
+}
+
+export function parseWorksheet(
+  worksheet: XLSX.WorkSheet,
+  sheetName: string,
+  options: ParseOptions = {}
+): SheetParseResult {
+  const {
+    assignments,
+    gridInRules = GRID_IN_RULES.digital_sat,
+    images = [],
+  } = options;
+  const issues: ValidationIssue[] = [];
+  const questions: ParsedQuestion[] = [];
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    defval: "",
+    blankrows: true,
+  });
+  const headers = (rows[0] || []).map((h) => String(h ?? "").trim());
+  const result = (): SheetParseResult => ({
+    sheetName,
+    headers,
+    questions,
+    report: createReport(issues),
+  });
+
+  // Validate that we have data
+  if (rows.length <= 1) {
+    issues.push({
+      severity: "error",
+      sheet: sheetName,
+      message:
+        "The sheet is empty or has no data rows. Please ensure it contains a header row followed by questions.",
+    });
+    return result();
+  }
+
+  // sheet_to_json rows and columns are relative to the top-left of the used range
+  const range = XLSX.utils.decode_range(worksheet["!ref"] || "A1");
+  const cellAddress = (rowIndex: number, columnIndex: number): string =>
+    XLSX.utils.encode_cell({
+      r: range.s.r + rowIndex,
+      c: range.s.c + columnIndex,
+    });
+
+  const columns = resolveColumns(
+    headers,
+    assignments ?? suggestColumnAssignments(headers)
+  );
+
+  if (columns.reference_id === undefined) {
+    issues.push({
+      severity: "error",
+      sheet: sheetName,
+      row: range.s.r + 1,
+      message: `Missing required column 'question_id' or 'reference_id'${
+        assignments ? " in the column mapping" : ""
+      }. Detected columns: "${headers.join('", "')}"`,
+    });
+    return result();
+  }
+
+  // Mapped answer columns in choice order; gaps in the numbering are closed up
+  const choiceFields = (Object.keys(columns) as ParsedQuestionField[])
+    .filter(isAnswerChoiceField)
+    .sort((a, b) => choiceFieldIndex(a) - choiceFieldIndex(b));
+  const markdownFields = [...MATH_FIELDS, ...choiceFields];
+
+  // Pictures belong to the question on their anchor row. Ones anchored outside
+  // a markdown column are shown with the question text.
+  const imagesByRow = new Map<
+    number,
+    {
+      field: ParsedQuestionField;
+      image: SheetImage & { contentType: string };
+    }[]
+  >();
+  for (const image of images) {
+    const { contentType } = image;
+    if (!contentType) {
+      issues.push({
+        severity: "warning",
+        sheet: sheetName,
+        row: image.row + 1,
+        cell: XLSX.utils.encode_cell({ r: image.row, c: image.col }),
+        message: `image '${image.fileName}' is not a format browsers can show, so it was dropped; use PNG, JPEG, GIF, SVG or WebP`,
+      });
+      continue;
+    }
+    const rowIndex = image.row - range.s.r;
+    const field =
+      markdownFields.find((f) => columns[f] === image.col - range.s.c) ??
+      "question_text";
+    imagesByRow.set(rowIndex, [
+      ...(imagesByRow.get(rowIndex) || []),
+      { field, image: { ...image, contentType } },
+    ]);
+  }
+  const placedImageRows = new Set<number>();
+
+  const seenReferenceIds = new Map<string, number>();
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    const rowNumber = range.s.r + i + 1;
+
+    // Skip rows that are entirely blank
+    if (row.every((value) => String(value ?? "").trim() === "")) continue;
+
+    const raw = (field: ParsedQuestionField): string => {
+      const column = columns[field];
+      return column === undefined ? "" : String(row[column] ?? "");
+    };
+    const text = (field: ParsedQuestionField): string =>
+      [
+        convertFracToDisplayFrac(trimPreserveLinebreaks(raw(field))),
+        ...(imagesByRow.get(i) || [])
+          .filter((placed) => placed.field === field)
+          .map(({ image }) => `![${image.fileName}](${toDataUrl(image)})`),
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+    const report = (
+      severity: ValidationIssue["severity"],
+      field: ParsedQuestionField,
+      message: string,
+      referenceId?: string
+    ) => {
+      const column = columns[field];
+      issues.push({
+        severity,
+        sheet: sheetName,
+        row: rowNumber,
+        cell: column === undefined ? undefined : cellAddress(i, column),
+        reference_id: referenceId,
+        field,
+        message,
+      });
+    };
+
+    const referenceId = raw("reference_id").trim();
+    if (!referenceId) {
+      report(
+        "warning",
+        "reference_id",
+        "row has content but no question_id/reference_id, so it was skipped"
+      );
+      continue;
+    }
+
+    const firstSeen = seenReferenceIds.get(referenceId);
+    if (firstSeen !== undefined) {
+      report(
+        "error",
+        "reference_id",
+        `duplicate reference id '${referenceId}' (first seen in row ${firstSeen})`,
+        referenceId
+      );
+    } else {
+      seenReferenceIds.set(referenceId, rowNumber);
+    }
+
+    const rawDifficulty = raw("difficulty").toLowerCase().trim();
+    if (!rawDifficulty) {
+      report(
+        "warning",
+        "difficulty",
+        "difficulty is blank, defaulting to 'medium'",
+        referenceId
+      );
+    }
+
+    const rawType = raw("question_type").trim();
+    const declaredType = rawType ? parseQuestionType(rawType) : undefined;
+    if (rawType && !declaredType) {
+      report(
+        "error",
+        "question_type",
+        `question type '${rawType}' is not one of multiple choice, multi-select, numeric`,
+        referenceId
+      );
+    }
+
+    const question: ParsedQuestion = {
+      reference_id: referenceId,
+      tag: raw("tag").trim(),
+      difficulty:
+        rawDifficulty === "hard" ? "intense" : rawDifficulty || "medium",
+      instructions: text("instructions"),
+      question_text: text("question_text"),
+      answer_choices: choiceFields.map((field) => text(field)),
+      correct_answer: raw("correct_answer").trim().toUpperCase(),
+      explanation: text("explanation"),
+      question_type: declaredType ?? "multiple_choice",
+    };
+
+    const choiceCount =
+      question.answer_choices
+        .map((choice) => choice.trim() !== "")
+        .lastIndexOf(true) + 1;
+    if (!declaredType) {
+      question.question_type =
+        choiceCount === 0
+          ? "numeric"
+          : parseCorrectLetters(question.correct_answer, choiceCount).indices
+              .length > 1
+          ? "multi_select"
+          : "multiple_choice";
+    }
+
+    const acceptedAnswers = checkQuestionValues(
+      {
+        ...question,
+        answer_choices: question.answer_choices.slice(0, choiceCount),
+      },
+      (severity, field, message) =>
+        report(severity, field, message, referenceId),
+      { choiceField: (index) => choiceFields[index], gridInRules }
+    );
+    if (acceptedAnswers) question.accepted_answers = acceptedAnswers;
+
+    questions.push(question);
+    placedImageRows.add(i);
+  }
+
+  for (const [rowIndex, placed] of imagesByRow) {
+    if (placedImageRows.has(rowIndex)) continue;
+    for (const { image } of placed) {
+      issues.push({
+        severity: "warning",
+        sheet: sheetName,
+        row: image.row + 1,
+        cell: XLSX.utils.encode_cell({ r: image.row, c: image.col }),
+        message: `image '${image.fileName}' is not on a question row, so it was dropped`,
+      });
+    }
+  }
+
+  // Validate that we parsed at least one question
+  if (questions.length === 0) {
+    issues.push({
+      severity: "error",
+      sheet: sheetName,
+      message:
+        "No valid questions found. Please ensure your data rows contain values in the question_id/reference_id column.",
+    });
+  }
+
+  return result();
+}
+
+// Works on bytes from any source: a browser File or a file read from disk
+export function readWorkbookData(
+  data: ArrayBuffer | Uint8Array
+): XLSX.WorkBook {
+  // bookFiles keeps the raw zip entries so embedded images can be extracted
+  return XLSX.read(data, { type: "array", bookFiles: true });
+}
+
+export async function readWorkbook(file: File): Promise<XLSX.WorkBook> {
+  return readWorkbookData(await file.arrayBuffer());
+}
+
+export function parseWorkbookSheets(
+  workbook: XLSX.WorkBook,
+  sheetNames: string[] = workbook.SheetNames,
+  options: ParseOptions = {}
+): SheetParseResult[] {
+  return sheetNames.map((sheetName) =>
+    parseWorksheet(workbook.Sheets[sheetName], sheetName, {
+      ...options,
+      images: extractSheetImages(workbook, sheetName),
+    })
+  );
+}
+
+export async function parseExcelFile(file: File): Promise<SheetParseResult> {
+  const workbook = await readWorkbook(file);
+  return parseWorkbookSheets(workbook, [workbook.SheetNames[0]])[0];
+}
+
+export function convertToQuestion(parsed: ParsedQuestion): Question {
+  const answerChoices = parsed.answer_choices.filter((choice) => choice !== "");
 
-  const answerChoices = [
-    parsed.answer_a,
-    parsed.answer_b,
-    parsed.answer_c,
-    parsed.answer_d,
-  ].filter((choice) => choice !== "");
+  const isNumeric = parsed.question_type === "numeric";
+  const acceptedAnswers = parsed.accepted_answers ?? [];
 
-  // Detect numeric questions: no answer choices provided
-  const isNumeric = answerChoices.length === 0;
+  // Letters become 1-based indices ("A, C" → "1,3"). Unknown letters are
+  // reported by parseWorksheet; never guess an answer here.
+  const { indices, invalid } = parseCorrectLetters(
+    parsed.correct_answer,
+    answerChoices.length
+  );
+  const correctChoices =
+    invalid.length === 0 ? indices.map((index) => index + 1).join(",") : "";
 
   return {
     reference_id: parsed.reference_id,
-    question_type: isNumeric ? "numeric" : "multiple_choice",
+    question_type: parsed.question_type,
     question_text: parsed.question_text,
     instructions: parsed.instructions,
     explanation: parsed.explanation,
@@ -274,8 +746,9 @@ export function convertToQuestion(parsed: ParsedQuestion): Question {
     tag: parsed.tag,
     answer_choices: answerChoices,
     correct_answer: isNumeric
-      ? parsed.correct_answer
-      : answerMap[parsed.correct_answer] || "1",
+      ? acceptedAnswers[0]?.value ?? parsed.correct_answer
+      : correctChoices,
+    accepted_answers: isNumeric ? acceptedAnswers : null,
   };
 }
 
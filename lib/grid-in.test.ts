@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  GRID_IN_RULES,
+  equivalentDecimalForms,
+  parseGridInAnswers,
+  type GridInRules,
+} from "./grid-in";
+
+const values = (cell: string, rules: GridInRules = GRID_IN_RULES.digital_sat) =>
+  parseGridInAnswers(cell, rules).answers.map((answer) => answer.value);
+
+const errors = (cell: string, rules: GridInRules = GRID_IN_RULES.digital_sat) =>
+  parseGridInAnswers(cell, rules)
+    .problems.filter((problem) => problem.severity === "error")
+    .map((problem) => problem.message);
+
+describe("equivalentDecimalForms", () => {
+  it("truncates and rounds a repeating decimal to every position", () => {
+    expect(
+      equivalentDecimalForms(
+        { numerator: 2, denominator: 3 },
+        GRID_IN_RULES.digital_sat
+      )
+    ).toEqual([".6666", ".6667", "0.666", "0.667"]);
+  });
+
+  it("keeps an exact decimal without trailing zeros", () => {
+    expect(
+      equivalentDecimalForms(
+        { numerator: 7, denominator: 2 },
+        GRID_IN_RULES.digital_sat
+      )
+    ).toEqual(["3.5"]);
+  });
+
+  it("gives negative answers one more character for the sign", () => {
+    expect(
+      equivalentDecimalForms(
+        { numerator: -1, denominator: 3 },
+        GRID_IN_RULES.digital_sat
+      )
+    ).toEqual(["-.3333", "-0.333"]);
+  });
+
+  it("uses the shorter length of the paper rules", () => {
+    expect(
+      equivalentDecimalForms(
+        { numerator: 2, denominator: 3 },
+        GRID_IN_RULES.paper_sat
+      )
+    ).toEqual([".666", ".667", "0.66", "0.67"]);
+  });
+});
+
+describe("parseGridInAnswers", () => {
+  it("adds the decimal forms of a fraction as generated answers", () => {
+    const { answers, problems } = parseGridInAnswers("2/3");
+
+    expect(problems).toEqual([]);
+    expect(answers[0]).toEqual({
+      value: "2/3",
+      kind: "fraction",
+      generated: false,
+    });
+    expect(answers.slice(1).every((answer) => answer.generated)).toBe(true);
+    expect(answers.map((answer) => answer.value)).toContain(".6667");
+  });
+
+  it("accepts every listed delimiter and drops duplicates", () => {
+    expect(values("7/2; 3.5 | 3.5\n7/2")).toEqual(["7/2", "3.5"]);
+  });
+
+  it("accepts decimals that match the fraction or fill every position", () => {
+    expect(errors("2/3, .6666, 0.667")).toEqual([]);
+  });
+
+  it("rejects a decimal that is not precise enough", () => {
+    expect(errors("2/3, .67")).toEqual([
+      "'.67' is not precise enough for this answer; accepted decimal forms are .6666, .6667, 0.666, 0.667",
+    ]);
+  });
+
+  it("rejects answers that are not equivalent to the first exact value", () => {
+    expect(errors("1/2, 2/3")).toEqual(["'2/3' is not equivalent to '1/2'"]);
+  });
+
+  it("treats equal fractions in different terms as equivalent", () => {
+    expect(errors("1/2; 2/4")).toEqual([]);
+  });
+
+  it("rejects malformed values and zero denominators", () => {
+    expect(errors("1.2.3")).toHaveLength(1);
+    expect(errors("3/0")).toEqual(["'3/0' has a zero denominator"]);
+  });
+
+  it("enforces the length and sign rules", () => {
+    expect(errors("123456")).toEqual([
+      "'123456' is 6 characters; positive answers fit at most 5",
+    ]);
+    expect(errors("-12345")).toEqual([]);
+    expect(errors("-3", GRID_IN_RULES.paper_sat)).toEqual([
+      "'-3' is negative, which Paper SAT (no negatives) grid-ins do not allow",
+    ]);
+  });
+
+  it("warns about decimals that differ by more than the last place", () => {
+    const { problems } = parseGridInAnswers("0.5; 0.7");
+
+    expect(problems).toEqual([
+      {
+        severity: "warning",
+        message:
+          "'0.7' and '0.5' are different values; check they are both meant to be accepted",
+      },
+    ]);
+    expect(parseGridInAnswers(".6666; .6667").problems).toEqual([]);
+  });
+
+  it("reports an empty cell", () => {
+    expect(errors("  ")).toEqual(["correct answer is empty"]);
+  });
+});
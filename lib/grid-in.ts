@@ -0,0 +1,280 @@
+import type { GridInAnswer } from "./supabase";
+
+export interface GridInRules {
+  name: string;
+  // Maximum characters for a positive answer; negative answers get one more for the sign
+  maxLength: number;
+  allowNegative: boolean;
+}
+
+export const GRID_IN_RULES = {
+  digital_sat: {
+    name: "Digital SAT (negatives allowed)",
+    maxLength: 5,
+    allowNegative: true,
+  },
+  paper_sat: {
+    name: "Paper SAT (no negatives)",
+    maxLength: 4,
+    allowNegative: false,
+  },
+} satisfies Record<string, GridInRules>;
+
+export type GridInRulesId = keyof typeof GRID_IN_RULES;
+
+export interface GridInProblem {
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface GridInParseResult {
+  answers: GridInAnswer[];
+  problems: GridInProblem[];
+}
+
+// Authors may list several accepted answers in one cell; commas are never valid inside a grid-in value
+const ANSWER_DELIMITER = /[;,|\n]/;
+
+const GRID_IN_PATTERN = /^-?(\d+|\d*\.\d+|\d+\/\d+)$/;
+
+interface Rational {
+  numerator: number;
+  denominator: number;
+}
+
+function classify(value: string): GridInAnswer["kind"] {
+  if (value.includes("/")) return "fraction";
+  if (value.includes(".")) return "decimal";
+  return "integer";
+}
+
+function toRational(value: string): Rational {
+  const negative = value.startsWith("-");
+  const unsigned = negative ? value.slice(1) : value;
+  const sign = negative ? -1 : 1;
+
+  if (unsigned.includes("/")) {
+    const [numerator, denominator] = unsigned.split("/").map(Number);
+    return { numerator: sign * numerator, denominator };
+  }
+
+  const [whole, fraction = ""] = unsigned.split(".");
+  const denominator = 10 ** fraction.length;
+  return {
+    numerator:
+      sign * (Number(whole || "0") * denominator + Number(fraction || "0")),
+    denominator,
+  };
+}
+
+function isEqual(a: Rational, b: Rational): boolean {
+  return a.numerator * b.denominator === b.numerator * a.denominator;
+}
+
+function maxLengthFor(value: number, rules: GridInRules): number {
+  return value < 0 ? rules.maxLength + 1 : rules.maxLength;
+}
+
+// Formats |numerator/denominator| scaled to `places` decimals, with and without a leading zero
+function formatScaled(
+  scaled: number,
+  places: number,
+  negative: boolean
+): string[] {
+  const digits = String(scaled).padStart(places + 1, "0");
+  const whole = digits.slice(0, digits.length - places);
+  const fraction = digits.slice(digits.length - places);
+  const sign = negative ? "-" : "";
+
+  if (whole === "0") {
+    return [`${sign}.${fraction}`, `${sign}0.${fraction}`];
+  }
+  return [`${sign}${whole}.${fraction}`];
+}
+
+/**
+ * Lists the decimal forms a student could enter for a value: the exact decimal
+ * when it fits, otherwise the truncated and rounded forms that fill every
+ * available position (e.g. 2/3 → .6666, .6667, 0.666, 0.667).
+ */
+export function equivalentDecimalForms(
+  value: Rational,
+  rules: GridInRules
+): string[] {
+  const negative = value.numerator < 0;
+  const numerator = Math.abs(value.numerator);
+  const { denominator } = value;
+  const maxLength = maxLengthFor(value.numerator / denominator, rules);
+  const forms = new Set<string>();
+
+  for (const withLeadingZero of [false, true]) {
+    const wholeDigits = Math.floor(numerator / denominator);
+    const wholeLength =
+      wholeDigits === 0
+        ? withLeadingZero
+          ? 1
+          : 0
+        : String(wholeDigits).length;
+    const places = maxLength - (negative ? 1 : 0) - wholeLength - 1;
+    if (places <= 0) continue;
+
+    const scale = 10 ** places;
+    const truncated = Math.floor((numerator * scale) / denominator);
+    const exact = (numerator * scale) % denominator === 0;
+    const rounded = Math.floor(
+      (2 * numerator * scale + denominator) / (2 * denominator)
+    );
+
+    const candidates = exact
+      ? formatScaled(truncated, places, negative).map((form) =>
+          // Drop trailing zeros from exact decimals (3.5000 → 3.5)
+          form.replace(/\.?0+$/, "")
+        )
+      : [
+          ...formatScaled(truncated, places, negative),
+          ...formatScaled(rounded, places, negative),
+        ];
+
+    for (const form of candidates) {
+      const hasLeadingZero = /^-?0\./.test(form);
+      if (
+        form.length <= maxLength &&
+        form.includes(".") &&
+        hasLeadingZero === withLeadingZero
+      ) {
+        forms.add(form);
+      }
+    }
+  }
+
+  return [...forms];
+}
+
+/**
+ * Parses the accepted answers listed in a grid-in Correct Answer cell,
+ * validates each one against the grid-in rules and adds the equivalent
+ * decimal forms of any fraction.
+ */
+export function parseGridInAnswers(
+  cell: string,
+  rules: GridInRules = GRID_IN_RULES.digital_sat
+): GridInParseResult {
+  const problems: GridInProblem[] = [];
+  const answers: GridInAnswer[] = [];
+  const values = cell
+    .split(ANSWER_DELIMITER)
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  // The first fraction or integer fixes the exact value every other answer must match
+  let exactValue: { value: string; rational: Rational } | undefined;
+  const decimals: { value: string; rational: Rational }[] = [];
+
+  for (const value of values) {
+    if (!GRID_IN_PATTERN.test(value)) {
+      problems.push({
+        severity: "error",
+        message: `'${value}' is not a valid grid-in answer (use digits, one decimal point, or a fraction like 7/2)`,
+      });
+      continue;
+    }
+
+    const rational = toRational(value);
+    if (rational.denominator === 0) {
+      problems.push({
+        severity: "error",
+        message: `'${value}' has a zero denominator`,
+      });
+      continue;
+    }
+
+    const negative = rational.numerator < 0;
+    if (negative && !rules.allowNegative) {
+      problems.push({
+        severity: "error",
+        message: `'${value}' is negative, which ${rules.name} grid-ins do not allow`,
+      });
+      continue;
+    }
+
+    const maxLength = maxLengthFor(rational.numerator, rules);
+    if (value.length > maxLength) {
+      problems.push({
+        severity: "error",
+        message: `'${value}' is ${value.length} characters; ${
+          negative ? "negative" : "positive"
+        } answers fit at most ${maxLength}`,
+      });
+      continue;
+    }
+
+    const kind = classify(value);
+    if (kind === "decimal") {
+      decimals.push({ value, rational });
+    } else {
+      exactValue ??= { value, rational };
+      if (!isEqual(exactValue.rational, rational)) {
+        problems.push({
+          severity: "error",
+          message: `'${value}' is not equivalent to '${exactValue.value}'`,
+        });
+        continue;
+      }
+    }
+
+    if (!answers.some((answer) => answer.value === value)) {
+      answers.push({ value, kind, generated: false });
+    }
+  }
+
+  if (exactValue) {
+    const expected = equivalentDecimalForms(exactValue.rational, rules);
+
+    // Decimals must be exact or use every available position
+    for (const decimal of decimals) {
+      if (
+        !isEqual(exactValue.rational, decimal.rational) &&
+        !expected.includes(decimal.value)
+      ) {
+        problems.push({
+          severity: "error",
+          message: `'${
+            decimal.value
+          }' is not precise enough for this answer; accepted decimal forms are ${expected.join(
+            ", "
+          )}`,
+        });
+      }
+    }
+
+    for (const form of expected) {
+      if (!answers.some((answer) => answer.value === form)) {
+        answers.push({ value: form, kind: "decimal", generated: true });
+      }
+    }
+  } else if (decimals.length > 1) {
+    // Without a fraction to compare against, allow differences in the last decimal place only
+    const [first, ...rest] = decimals;
+    const places = (value: string) => value.split(".")[1].length;
+    for (const decimal of rest) {
+      const tolerance =
+        1.5 * 10 ** -Math.min(places(first.value), places(decimal.value));
+      const difference = Math.abs(
+        first.rational.numerator / first.rational.denominator -
+          decimal.rational.numerator / decimal.rational.denominator
+      );
+      if (difference > tolerance) {
+        problems.push({
+          severity: "warning",
+          message: `'${decimal.value}' and '${first.value}' are different values; check they are both meant to be accepted`,
+        });
+      }
+    }
+  }
+
+  if (values.length === 0) {
+    problems.push({ severity: "error", message: "correct answer is empty" });
+  }
+
+  return { answers, problems };
+}
@@ -0,0 +1,149 @@
+import { getSupabaseClient, type Question } from "./supabase";
+
+export interface ImageStorage {
+  // Stores the image and returns the URL questions should reference
+  upload(path: string, data: Uint8Array, contentType: string): Promise<string>;
+}
+
+export const IMAGE_BUCKET =
+  process.env.NEXT_PUBLIC_SUPABASE_IMAGE_BUCKET || "question-images";
+
+export function createSupabaseImageStorage(
+  client = getSupabaseClient(),
+  bucket = IMAGE_BUCKET
+): ImageStorage {
+  return {
+    async upload(path, data, contentType) {
+      const { error } = await client.storage
+        .from(bucket)
+        .upload(path, data, { contentType, upsert: true });
+
+      if (error) {
+        console.error("Error uploading image:", error);
+        throw new Error(`Failed to upload image ${path}: ${error.message}`);
+      }
+
+      return client.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+    },
+  };
+}
+
+// Local stand-in that keeps uploaded images in memory instead of a bucket
+export function createMemoryImageStorage(
+  bucket = IMAGE_BUCKET
+): ImageStorage & {
+  files: Map<string, { data: Uint8Array; contentType: string }>;
+} {
+  const files = new Map<string, { data: Uint8Array; contentType: string }>();
+
+  return {
+    files,
+    async upload(path, data, contentType) {
+      files.set(path, { data, contentType });
+      return `memory://${bucket}/${path}`;
+    },
+  };
+}
+
+// Markdown images whose source is an inline base64 data URL, as inserted by the parser
+const EMBEDDED_IMAGE_PATTERN =
+  /!\[([^\]]*)\]\(data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)\)/g;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/svg+xml": "svg",
+  "image/webp": "webp",
+};
+
+function decodeBase64(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function contentHash(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function markdownFields(question: Question): string[] {
+  return [
+    question.instructions,
+    question.question_text,
+    question.explanation,
+    ...question.answer_choices,
+  ];
+}
+
+export function countEmbeddedImages(questions: Question[]): number {
+  const sources = new Set<string>();
+  for (const question of questions) {
+    for (const field of markdownFields(question)) {
+      for (const match of field.matchAll(EMBEDDED_IMAGE_PATTERN)) {
+        sources.add(match[3]);
+      }
+    }
+  }
+  return sources.size;
+}
+
+/**
+ * Uploads every image embedded in the questions' markdown as a data URL and
+ * returns copies of the questions that reference the stored URLs instead.
+ * Images are stored under their content hash, so identical figures are
+ * uploaded once and re-uploads overwrite rather than duplicate.
+ */
+export async function uploadEmbeddedImages(
+  questions: Question[],
+  storage: ImageStorage,
+  onImageUploaded?: (uploaded: number, total: number) => void
+): Promise<Question[]> {
+  const total = countEmbeddedImages(questions);
+  const urls = new Map<string, string>();
+  if (total === 0) return questions;
+
+  const replaceImages = async (text: string): Promise<string> => {
+    let result = text;
+    for (const match of text.matchAll(EMBEDDED_IMAGE_PATTERN)) {
+      const [markdown, alt, contentType, base64] = match;
+
+      let url = urls.get(base64);
+      if (!url) {
+        const data = decodeBase64(base64);
+        const path = `embedded/${await contentHash(data)}.${
+          EXTENSIONS[contentType] || "bin"
+        }`;
+        url = await storage.upload(path, data, contentType);
+        urls.set(base64, url);
+        onImageUploaded?.(urls.size, total);
+      }
+
+      result = result.replace(markdown, () => `![${alt}](${url})`);
+    }
+    return result;
+  };
+
+  const uploaded: Question[] = [];
+  for (const question of questions) {
+    const answerChoices: string[] = [];
+    for (const choice of question.answer_choices) {
+      answerChoices.push(await replaceImages(choice));
+    }
+
+    uploaded.push({
+      ...question,
+      instructions: await replaceImages(question.instructions),
+      question_text: await replaceImages(question.question_text),
+      explanation: await replaceImages(question.explanation),
+      answer_choices: answerChoices,
+    });
+  }
+
+  return uploaded;
+}
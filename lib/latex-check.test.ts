@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { checkLatex } from "./latex-check";
+
+const messages = (text: string) =>
+  checkLatex(text).map((problem) => `${problem.severity}: ${problem.message}`);
+
+describe("checkLatex", () => {
+  it("accepts text without math and valid math", () => {
+    expect(checkLatex("No math here")).toEqual([]);
+    expect(checkLatex("Solve $x^2 + \\dfrac{1}{2} = 3$ for $$x$$")).toEqual([]);
+  });
+
+  it("decodes HTML entities before compiling the math", () => {
+    expect(checkLatex("If $a &lt; b$ and $b &gt; c$")).toEqual([]);
+    expect(checkLatex("If $a &#60; b$ and $b &#x3E; c$")).toEqual([]);
+    expect(checkLatex("Costs &#36;5")[0].severity).toBe("warning");
+  });
+
+  it("reports math KaTeX cannot parse", () => {
+    expect(messages("Find $\\frac{1}{$")).toHaveLength(1);
+    expect(checkLatex("Find $\\notacommand$")[0]).toMatchObject({
+      severity: "error",
+      message: expect.stringContaining("KaTeX error in '\\notacommand'"),
+    });
+  });
+
+  it("treats an unclosed $$ as an error and an unclosed $ as a warning", () => {
+    expect(checkLatex("Total $$x + 1")[0].severity).toBe("error");
+    expect(checkLatex("It costs $5")[0].severity).toBe("warning");
+    expect(checkLatex("It costs \\$5")).toEqual([]);
+  });
+
+  it("warns about \\dfrac in text-size contexts", () => {
+    expect(messages("$x^{\\dfrac{1}{2}}$")).toEqual([
+      "warning: \\dfrac inside a superscript in 'x^{\\dfrac{1}{2}}' renders at display size; use \\tfrac there (\\frac is converted to \\dfrac on import)",
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import katex from "katex";
+import { decodeHtmlEntities } from "./utils";
+
+export interface LatexProblem {
+  severity: "error" | "warning";
+  message: string;
+}
+
+interface MathSpan {
+  tex: string;
+  display: boolean;
+}
+
+// Splits text into the math spans remark-math would find, reporting any
+// opening delimiter that is never closed. Escaped dollars (\$) are literal.
+function extractMathSpans(text: string): {
+  spans: MathSpan[];
+  unclosed: string[];
+} {
+  const spans: MathSpan[] = [];
+  const unclosed: string[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] !== "$") {
+      i++;
+      continue;
+    }
+
+    const delimiter = text.startsWith("$$", i) ? "$$" : "$";
+    const start = i + delimiter.length;
+    let end = start;
+    while (end < text.length) {
+      if (text[end] === "\\") {
+        end += 2;
+        continue;
+      }
+      if (text.startsWith(delimiter, end)) break;
+      end++;
+    }
+
+    if (end >= text.length) {
+      unclosed.push(
+        `${delimiter}${text.slice(start, start + 30)}${
+          text.length - start > 30 ? "…" : ""
+        }`
+      );
+      break;
+    }
+
+    spans.push({ tex: text.slice(start, end), display: delimiter === "$$" });
+    i = end + delimiter.length;
+  }
+
+  return { spans, unclosed };
+}
+
+// Finds \dfrac used where only text-size fractions belong (inside \tfrac or
+// a super/subscript). The parser turns every \frac into \dfrac, so a \frac
+// that was fine in the spreadsheet can end up here.
+function findDisplayFracInTextContexts(tex: string): string[] {
+  type Pending = { label: string; groups: number } | null;
+  const stack: { label: string | null; resume: Pending }[] = [];
+  const contexts = new Set<string>();
+  let pending: Pending = null;
+
+  for (let i = 0; i < tex.length; i++) {
+    if (tex.startsWith("\\tfrac", i)) {
+      pending = { label: "\\tfrac", groups: 2 };
+      i += "\\tfrac".length - 1;
+      continue;
+    }
+    if (tex.startsWith("\\dfrac", i)) {
+      const enclosing =
+        pending?.label ?? stack.find((frame) => frame.label)?.label;
+      if (enclosing) contexts.add(enclosing);
+      pending = null;
+      i += "\\dfrac".length - 1;
+      continue;
+    }
+
+    const char = tex[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "^" || char === "_") {
+      pending = {
+        label: char === "^" ? "a superscript" : "a subscript",
+        groups: 1,
+      };
+    } else if (char === "{") {
+      stack.push({
+        label: pending?.label ?? null,
+        resume:
+          pending && pending.groups > 1
+            ? { ...pending, groups: pending.groups - 1 }
+            : null,
+      });
+      pending = null;
+    } else if (char === "}") {
+      pending = stack.pop()?.resume ?? null;
+    } else if (!/\s/.test(char)) {
+      pending = null;
+    }
+  }
+
+  return [...contexts];
+}
+
+function katexErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.replace(/^KaTeX parse error: /, "");
+}
+
+/**
+ * Runs every math span in a markdown field through KaTeX the way
+ * MarkdownRenderer would, but with errors thrown instead of rendered in red.
+ * HTML entities are decoded first, as the renderer does, so `&lt;` reaches
+ * KaTeX as `<`. Spans that only fail KaTeX's strict mode are reported as
+ * warnings.
+ */
+export function checkLatex(text: string): LatexProblem[] {
+  const decoded = decodeHtmlEntities(text);
+  if (!decoded || !decoded.includes("$")) return [];
+
+  const problems: LatexProblem[] = [];
+  const { spans, unclosed } = extractMathSpans(decoded);
+
+  for (const fragment of unclosed) {
+    // A stray "$" usually just renders literally; an open "$$" swallows the rest of the field
+    problems.push({
+      severity: fragment.startsWith("$$") ? "error" : "warning",
+      message: `unbalanced math delimiter: '${fragment}' is never closed (escape literal dollar signs as \\$)`,
+    });
+  }
+
+  for (const { tex, display } of spans) {
+    const preview = tex.length > 40 ? `${tex.slice(0, 40)}…` : tex;
+
+    try {
+      katex.renderToString(tex, {
+        displayMode: display,
+        throwOnError: true,
+        strict: "ignore",
+      });
+    } catch (error) {
+      problems.push({
+        severity: "error",
+        message: `KaTeX error in '${preview}': ${katexErrorMessage(error)}`,
+      });
+      continue;
+    }
+
+    try {
+      katex.renderToString(tex, {
+        displayMode: display,
+        throwOnError: true,
+        strict: "error",
+      });
+    } catch (error) {
+      problems.push({
+        severity: "warning",
+        message: `KaTeX strict mode rejects '${preview}': ${katexErrorMessage(
+          error
+        )}`,
+      });
+    }
+
+    for (const context of findDisplayFracInTextContexts(tex)) {
+      problems.push({
+        severity: "warning",
+        message: `\\dfrac inside ${context} in '${preview}' renders at display size; use \\tfrac there (\\frac is converted to \\dfrac on import)`,
+      });
+    }
+  }
+
+  return problems;
+}
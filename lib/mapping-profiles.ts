@@ -0,0 +1,93 @@
+import { normalizeKey, type ColumnAssignments } from "./excel-parser";
+
+const STORAGE_KEY = "bulk-upload:column-mapping-profiles";
+
+export interface ColumnMappingProfile {
+  name: string;
+  // Normalized headers the profile was saved for, used to auto-select it
+  headers: string[];
+  // Keyed by normalized header so "Question ID" and "question_id" share a profile
+  assignments: ColumnAssignments;
+  updated_at: string;
+}
+
+function headerSignature(headers: string[]): string {
+  return headers
+    .filter(Boolean)
+    .map((h) => normalizeKey(h))
+    .sort()
+    .join("|");
+}
+
+export function loadMappingProfiles(): ColumnMappingProfile[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ColumnMappingProfile[]) : [];
+  } catch (error) {
+    console.error("Error loading column mapping profiles:", error);
+    return [];
+  }
+}
+
+function storeMappingProfiles(profiles: ColumnMappingProfile[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function saveMappingProfile(
+  name: string,
+  headers: string[],
+  assignments: ColumnAssignments
+): ColumnMappingProfile {
+  const profile: ColumnMappingProfile = {
+    name,
+    headers: headers.filter(Boolean).map((h) => normalizeKey(h)),
+    assignments: Object.fromEntries(
+      Object.entries(assignments).map(([header, field]) => [
+        normalizeKey(header),
+        field,
+      ])
+    ),
+    updated_at: new Date().toISOString(),
+  };
+
+  // Saving under an existing name replaces that profile
+  storeMappingProfiles([
+    ...loadMappingProfiles().filter((p) => p.name !== name),
+    profile,
+  ]);
+
+  return profile;
+}
+
+export function deleteMappingProfile(name: string): void {
+  storeMappingProfiles(loadMappingProfiles().filter((p) => p.name !== name));
+}
+
+// Finds the most recently saved profile whose headers match exactly (order-insensitive)
+export function findMatchingProfile(
+  headers: string[],
+  profiles: ColumnMappingProfile[] = loadMappingProfiles()
+): ColumnMappingProfile | undefined {
+  const signature = headerSignature(headers);
+
+  return profiles
+    .filter((profile) => headerSignature(profile.headers) === signature)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+}
+
+// Re-keys a profile's assignments onto the exact header text of a sheet
+export function applyMappingProfile(
+  headers: string[],
+  profile: ColumnMappingProfile
+): ColumnAssignments {
+  const assignments: ColumnAssignments = {};
+
+  for (const header of headers) {
+    if (!header) continue;
+    assignments[header] = profile.assignments[normalizeKey(header)] ?? null;
+  }
+
+  return assignments;
+}
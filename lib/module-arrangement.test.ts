@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  arrangedReport,
+  excludeQuestion,
+  moveQuestion,
+  restoreQuestion,
+  type ArrangedModule,
+} from "./module-arrangement";
+import { question } from "./question-fixtures";
+import { createReport, type ValidationIssue } from "./validation";
+
+const issue = (reference_id?: string): ValidationIssue => ({
+  severity: "warning",
+  sheet: "Sheet1",
+  reference_id,
+  message: `issue ${reference_id ?? "sheet"}`,
+});
+
+// Questions carry an edited tag so each can be told from its parsed values
+const arrangedModule = (
+  id: string,
+  refs: string[],
+  issues: ValidationIssue[] = []
+): ArrangedModule => ({
+  id,
+  questions: refs.map((ref) => question(ref, { tag: "edited" })),
+  originalQuestions: refs.map((ref) => question(ref, { tag: "parsed" })),
+  excludedQuestions: [],
+  sourceSheet: `Sheet ${id}`,
+  report: createReport(issues),
+});
+
+const refs = (modules: ArrangedModule[]) =>
+  modules.map((m) => m.questions.map((q) => q.reference_id));
+
+describe("moveQuestion", () => {
+  const modules = [
+    arrangedModule("a", ["Q1", "Q2", "Q3"]),
+    arrangedModule("b", ["Q4"]),
+  ];
+
+  it("counts the target index after the question is taken out", () => {
+    const moved = moveQuestion(
+      modules,
+      { moduleId: "a", index: 0 },
+      { moduleId: "a", index: 2 }
+    );
+
+    expect(refs(moved)).toEqual([["Q2", "Q3", "Q1"], ["Q4"]]);
+  });
+
+  it("moves a question and its parsed values into another module", () => {
+    const [a, b] = moveQuestion(
+      modules,
+      { moduleId: "a", index: 1 },
+      { moduleId: "b", index: 0 }
+    );
+
+    expect(refs([a, b])).toEqual([
+      ["Q1", "Q3"],
+      ["Q2", "Q4"],
+    ]);
+    expect(b.originalQuestions.map((q) => q.reference_id)).toEqual([
+      "Q2",
+      "Q4",
+    ]);
+    expect(b.originalQuestions[0].tag).toBe("parsed");
+  });
+
+  it("ignores a position without a question", () => {
+    expect(
+      moveQuestion(
+        modules,
+        { moduleId: "a", index: 5 },
+        { moduleId: "b", index: 0 }
+      )
+    ).toBe(modules);
+  });
+});
+
+describe("excludeQuestion and restoreQuestion", () => {
+  it("keeps an excluded question with its parsed values and puts it back last", () => {
+    const excluded = excludeQuestion([arrangedModule("a", ["Q1", "Q2"])], {
+      moduleId: "a",
+      index: 0,
+    });
+
+    expect(refs(excluded)).toEqual([["Q2"]]);
+    expect(excluded[0].excludedQuestions).toEqual([
+      {
+        question: question("Q1", { tag: "edited" }),
+        original: question("Q1", { tag: "parsed" }),
+      },
+    ]);
+
+    const restored = restoreQuestion(excluded, "a", 0);
+    expect(refs(restored)).toEqual([["Q2", "Q1"]]);
+    expect(restored[0].originalQuestions[1]).toEqual(
+      question("Q1", { tag: "parsed" })
+    );
+    expect(restored[0].excludedQuestions).toEqual([]);
+  });
+});
+
+describe("arrangedReport", () => {
+  it("moves question issues with their question and drops excluded ones", () => {
+    const modules = excludeQuestion(
+      moveQuestion(
+        [
+          arrangedModule(
+            "a",
+            ["Q1", "Q2"],
+            [issue(), issue("Q1"), issue("Q2")]
+          ),
+          arrangedModule("b", ["Q3"], [issue("Q3")]),
+        ],
+        { moduleId: "a", index: 0 },
+        { moduleId: "b", index: 1 }
+      ),
+      { moduleId: "b", index: 0 }
+    );
+
+    expect(arrangedReport(modules[0], modules).issues).toEqual([
+      issue(),
+      issue("Q2"),
+    ]);
+    expect(arrangedReport(modules[1], modules).issues).toEqual([issue("Q1")]);
+  });
+
+  it("reports a module left without questions", () => {
+    const [empty] = excludeQuestion([arrangedModule("a", ["Q1"])], {
+      moduleId: "a",
+      index: 0,
+    });
+
+    expect(arrangedReport(empty, [empty]).issues).toEqual([
+      {
+        severity: "error",
+        sheet: "Sheet a",
+        message:
+          "No questions are left in this module. Move questions into it or remove it.",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { Question } from "./supabase";
+import {
+  createReport,
+  type ValidationIssue,
+  type ValidationReport,
+} from "./validation";
+
+// A question left out of the upload, kept so it can be put back
+export interface ExcludedQuestion {
+  question: Question;
+  // The values it was parsed with
+  original: Question;
+}
+
+// The parts of a preview module that change as questions are rearranged
+export interface ArrangedModule {
+  id: string;
+  // Upload order within the module; order_in_test and test_section_id follow it
+  questions: Question[];
+  // Parsed values of each question, index for index with questions
+  originalQuestions: Question[];
+  excludedQuestions: ExcludedQuestion[];
+  // Worksheet the module was read from
+  sourceSheet: string;
+  report: ValidationReport;
+}
+
+export interface QuestionPosition {
+  moduleId: string;
+  index: number;
+}
+
+const withoutIndex = <T>(items: T[], index: number): T[] =>
+  items.filter((_, i) => i !== index);
+
+const withInserted = <T>(items: T[], index: number, item: T): T[] => [
+  ...items.slice(0, index),
+  item,
+  ...items.slice(index),
+];
+
+// Moves a question, with its parsed values, to another position in the same
+// module or into another module. The target index counts positions after
+// the question has been taken out, as arrayMove does.
+export function moveQuestion<T extends ArrangedModule>(
+  modules: T[],
+  from: QuestionPosition,
+  to: QuestionPosition
+): T[] {
+  const source = modules.find((m) => m.id === from.moduleId);
+  if (!source || !source.questions[from.index]) return modules;
+  const question = source.questions[from.index];
+  const original = source.originalQuestions[from.index];
+
+  const removed = modules.map((m) =>
+    m.id === from.moduleId
+      ? {
+          ...m,
+          questions: withoutIndex(m.questions, from.index),
+          originalQuestions: withoutIndex(m.originalQuestions, from.index),
+        }
+      : m
+  );
+  return removed.map((m) =>
+    m.id === to.moduleId
+      ? {
+          ...m,
+          questions: withInserted(m.questions, to.index, question),
+          originalQuestions: withInserted(
+            m.originalQuestions,
+            to.index,
+            original
+          ),
+        }
+      : m
+  );
+}
+
+export function excludeQuestion<T extends ArrangedModule>(
+  modules: T[],
+  at: QuestionPosition
+): T[] {
+  return modules.map((m) =>
+    m.id === at.moduleId && m.questions[at.index]
+      ? {
+          ...m,
+          questions: withoutIndex(m.questions, at.index),
+          originalQuestions: withoutIndex(m.originalQuestions, at.index),
+          excludedQuestions: [
+            ...m.excludedQuestions,
+            {
+              question: m.questions[at.index],
+              original: m.originalQuestions[at.index],
+            },
+          ],
+        }
+      : m
+  );
+}
+
+// Puts an excluded question back at the end of the module it was excluded from
+export function restoreQuestion<T extends ArrangedModule>(
+  modules: T[],
+  moduleId: string,
+  excludedIndex: number
+): T[] {
+  return modules.map((m) => {
+    const excluded = m.excludedQuestions[excludedIndex];
+    if (m.id !== moduleId || !excluded) return m;
+    return {
+      ...m,
+      questions: [...m.questions, excluded.question],
+      originalQuestions: [...m.originalQuestions, excluded.original],
+      excludedQuestions: withoutIndex(m.excludedQuestions, excludedIndex),
+    };
+  });
+}
+
+// A module's parse report after rearranging: issues tied to a question
+// follow it into whichever module now holds it, and issues of excluded
+// questions no longer count. Sheet-level issues stay with their module.
+export function arrangedReport(
+  arranged: ArrangedModule,
+  modules: ArrangedModule[]
+): ValidationReport {
+  const referenceIds = new Set(arranged.questions.map((q) => q.reference_id));
+  const issues: ValidationIssue[] = [
+    ...arranged.report.issues.filter((issue) => !issue.reference_id),
+    ...modules.flatMap((m) =>
+      m.report.issues.filter(
+        (issue) => issue.reference_id && referenceIds.has(issue.reference_id)
+      )
+    ),
+  ];
+
+  if (
+    arranged.questions.length === 0 &&
+    !issues.some((issue) => issue.severity === "error")
+  ) {
+    issues.push({
+      severity: "error",
+      sheet: arranged.sourceSheet,
+      message:
+        "No questions are left in this module. Move questions into it or remove it.",
+    });
+  }
+
+  return createReport(issues);
+}
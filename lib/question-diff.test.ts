@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  commonSubsequence,
+  diffQuestions,
+  diffWords,
+  planQuestionUpdates,
+} from "./question-diff";
+import { question } from "./question-fixtures";
+import type { Question } from "./supabase";
+
+describe("diffQuestions", () => {
+  it("lists changed fields in display form", () => {
+    expect(
+      diffQuestions(
+        question("Q1"),
+        question("Q1", { correct_answer: "2", tag: "math" })
+      )
+    ).toEqual([
+      { field: "tag", label: "Tag", before: "algebra", after: "math" },
+      {
+        field: "correct_answer",
+        label: "Correct Answer",
+        before: "A",
+        after: "B",
+      },
+    ]);
+  });
+
+  it("treats null from the database like an empty string", () => {
+    const stored = {
+      ...question("Q1"),
+      explanation: null,
+    } as unknown as Question;
+
+    expect(diffQuestions(stored, question("Q1"))).toEqual([]);
+  });
+});
+
+describe("planQuestionUpdates", () => {
+  it("updates every stored copy that differs, with the values to restore", () => {
+    const plan = planQuestionUpdates(
+      [question("Q1", { tag: "math" }), question("Q1", { reference_id: "Q2" })],
+      [
+        question("Q1", { question_id: "a" }),
+        question("Q1", { question_id: "b", tag: "math" }),
+        question("Q1", { question_id: "c" }),
+      ]
+    );
+
+    expect(plan.updates.map((u) => u.question_id)).toEqual(["a", "c"]);
+    expect(plan.updates[0]).toMatchObject({
+      values: { tag: "math" },
+      previous: { tag: "algebra" },
+    });
+    expect(plan.notFound).toEqual(["Q2"]);
+    expect(plan.unchanged).toEqual([]);
+  });
+
+  it("reports questions whose stored rows already match", () => {
+    expect(
+      planQuestionUpdates(
+        [question("Q1")],
+        [question("Q1", { question_id: "a" })]
+      )
+    ).toEqual({ updates: [], unchanged: ["Q1"], notFound: [] });
+  });
+});
+
+describe("commonSubsequence", () => {
+  it("pairs the positions of a longest common run", () => {
+    const pairs = commonSubsequence(["a", "b", "c", "d"], ["b", "a", "c", "d"]);
+
+    expect(pairs).toHaveLength(3);
+    expect(pairs.slice(1)).toEqual([
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  it("handles empty lists", () => {
+    expect(commonSubsequence([], ["a"])).toEqual([]);
+  });
+});
+
+describe("diffWords", () => {
+  it("marks the words that changed and keeps whitespace with them", () => {
+    const parts = diffWords("The cat sat down", "The dog sat down quietly");
+
+    expect(parts).toEqual([
+      { text: "The", kind: "same" },
+      { text: " cat", kind: "removed" },
+      { text: " dog", kind: "added" },
+      { text: " sat down", kind: "same" },
+      { text: " quietly", kind: "added" },
+    ]);
+  });
+
+  it("rebuilds both versions from its parts", () => {
+    const before = "  one two\nthree ";
+    const after = "one three  four";
+    const parts = diffWords(before, after);
+    const join = (kind: "added" | "removed") =>
+      parts
+        .filter((part) => part.kind !== kind)
+        .map((part) => part.text)
+        .join("");
+
+    expect(join("added")).toBe(before);
+    expect(join("removed")).toBe(after);
+  });
+});
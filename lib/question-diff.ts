@@ -0,0 +1,211 @@
+import type { Question } from "./supabase";
+import { formatCorrectAnswer } from "./utils";
+
+export type QuestionDiffField =
+  | "question_type"
+  | "difficulty"
+  | "tag"
+  | "instructions"
+  | "question_text"
+  | "answer_choices"
+  | "correct_answer"
+  | "accepted_answers"
+  | "explanation";
+
+export const QUESTION_DIFF_FIELDS: {
+  field: QuestionDiffField;
+  label: string;
+  // Rendered as markdown when shown side by side
+  markdown: boolean;
+}[] = [
+  { field: "question_type", label: "Type", markdown: false },
+  { field: "difficulty", label: "Difficulty", markdown: false },
+  { field: "tag", label: "Tag", markdown: false },
+  { field: "instructions", label: "Instructions", markdown: true },
+  { field: "question_text", label: "Question Text", markdown: true },
+  { field: "answer_choices", label: "Answer Choices", markdown: true },
+  { field: "correct_answer", label: "Correct Answer", markdown: false },
+  { field: "accepted_answers", label: "Accepted Answers", markdown: false },
+  { field: "explanation", label: "Explanation", markdown: true },
+];
+
+export interface QuestionFieldChange {
+  field: QuestionDiffField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Display form of a field. Rows read back from Supabase may hold null where
+// parsed questions hold "", so both format the same.
+export function formatQuestionField(
+  question: Question,
+  field: QuestionDiffField
+): string {
+  switch (field) {
+    case "answer_choices":
+      return (question.answer_choices ?? [])
+        .map((choice, index) => `${String.fromCharCode(65 + index)}. ${choice}`)
+        .join("\n\n");
+    case "correct_answer":
+      return formatCorrectAnswer({
+        question_type: question.question_type,
+        correct_answer: question.correct_answer ?? "",
+      });
+    case "accepted_answers":
+      return (question.accepted_answers ?? [])
+        .map((answer) => answer.value)
+        .join(", ");
+    default:
+      return String(question[field] ?? "");
+  }
+}
+
+// Lists the fields that differ between two versions of a question
+export function diffQuestions(
+  before: Question,
+  after: Question
+): QuestionFieldChange[] {
+  const changes: QuestionFieldChange[] = [];
+
+  for (const { field, label } of QUESTION_DIFF_FIELDS) {
+    const beforeValue = formatQuestionField(before, field);
+    const afterValue = formatQuestionField(after, field);
+    if (beforeValue !== afterValue) {
+      changes.push({ field, label, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return changes;
+}
+
+export interface QuestionUpdate {
+  reference_id: string;
+  question_id: string;
+  changes: QuestionFieldChange[];
+  // Column values to write: only the fields that changed
+  values: Partial<Question>;
+  // The stored values of those fields, to restore if the update is rolled back
+  previous: Partial<Question>;
+}
+
+export interface QuestionUpdatePlan {
+  updates: QuestionUpdate[];
+  // Reference ids whose stored rows already match the spreadsheet
+  unchanged: string[];
+  // Reference ids with no stored question to update
+  notFound: string[];
+}
+
+/**
+ * Matches incoming questions to stored ones by reference_id and works out
+ * which fields of each stored row need updating. Every stored copy of a
+ * reference_id is updated, so duplicates from earlier uploads stay in sync.
+ */
+export function planQuestionUpdates(
+  incoming: Question[],
+  existing: Question[]
+): QuestionUpdatePlan {
+  const plan: QuestionUpdatePlan = { updates: [], unchanged: [], notFound: [] };
+
+  for (const question of incoming) {
+    const matches = existing.filter(
+      (stored) => stored.reference_id === question.reference_id
+    );
+    if (matches.length === 0) {
+      plan.notFound.push(question.reference_id);
+      continue;
+    }
+
+    let changed = false;
+    for (const stored of matches) {
+      const changes = diffQuestions(stored, question);
+      if (changes.length === 0 || !stored.question_id) continue;
+
+      changed = true;
+      plan.updates.push({
+        reference_id: question.reference_id,
+        question_id: stored.question_id,
+        changes,
+        values: Object.fromEntries(
+          changes.map(({ field }) => [field, question[field]])
+        ),
+        previous: Object.fromEntries(
+          changes.map(({ field }) => [field, stored[field]])
+        ),
+      });
+    }
+    if (!changed) plan.unchanged.push(question.reference_id);
+  }
+
+  return plan;
+}
+
+// Pairs of indices into `a` and `b` that form a longest common subsequence,
+// in order
+export function commonSubsequence<T>(a: T[], b: T[]): [number, number][] {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+export interface TextDiffPart {
+  text: string;
+  kind: "same" | "added" | "removed";
+}
+
+// Beyond this many word pairs a field is shown as replaced outright
+const MAX_WORD_DIFF_CELLS = 250_000;
+
+/**
+ * Word-level diff of two field values, for highlighting an edit inline.
+ * Whitespace is kept with the words, so joining the "same" and "removed"
+ * parts gives back `before` and the "same" and "added" parts give `after`.
+ */
+export function diffWords(before: string, after: string): TextDiffPart[] {
+  const a = before.match(/\s*\S+|\s+$/g) ?? [];
+  const b = after.match(/\s*\S+|\s+$/g) ?? [];
+  const pairs =
+    a.length * b.length > MAX_WORD_DIFF_CELLS ? [] : commonSubsequence(a, b);
+
+  const parts: TextDiffPart[] = [];
+  const push = (text: string, kind: TextDiffPart["kind"]) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [pairA, pairB] of [...pairs, [a.length, b.length]]) {
+    push(a.slice(i, pairA).join(""), "removed");
+    push(b.slice(j, pairB).join(""), "added");
+    if (pairA < a.length) push(a[pairA], "same");
+    i = pairA + 1;
+    j = pairB + 1;
+  }
+  return parts;
+}
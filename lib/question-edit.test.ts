@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkEditedQuestion,
+  isQuestionModified,
+  revalidateEdits,
+  typedGridInAnswers,
+  withCorrectChoice,
+  withGridInAnswers,
+  withQuestionType,
+  withRemovedChoice,
+} from "./question-edit";
+import { question } from "./question-fixtures";
+import type { Question } from "./supabase";
+import { createReport } from "./validation";
+
+const numeric = (typed: string) =>
+  withGridInAnswers(
+    question("Q1", {
+      question_type: "numeric",
+      answer_choices: [],
+      correct_answer: "",
+    }),
+    typed
+  );
+
+describe("isQuestionModified", () => {
+  it("compares field values rather than identity", () => {
+    const original = question("Q1");
+
+    expect(isQuestionModified(original, original)).toBe(false);
+    expect(isQuestionModified(original, { ...original })).toBe(false);
+    expect(isQuestionModified(original, { ...original, tag: "other" })).toBe(
+      true
+    );
+  });
+});
+
+describe("grid-in answers", () => {
+  it("stores the first accepted form and keeps what was typed", () => {
+    const edited = numeric("7/2; 3.5");
+
+    expect(edited.correct_answer).toBe("7/2");
+    expect(typedGridInAnswers(edited)).toBe("7/2; 3.5");
+  });
+
+  it("keeps unparseable text as the correct answer", () => {
+    expect(numeric("seven").correct_answer).toBe("seven");
+  });
+});
+
+describe("withQuestionType", () => {
+  it("keeps the answer between the two choice types", () => {
+    expect(
+      withQuestionType(question("Q1"), "multi_select").correct_answer
+    ).toBe("1");
+  });
+
+  it("clears the answer when switching to or from a grid-in", () => {
+    expect(withQuestionType(question("Q1"), "numeric")).toMatchObject({
+      correct_answer: "",
+      accepted_answers: [],
+    });
+    expect(withQuestionType(numeric("3"), "multiple_choice")).toMatchObject({
+      correct_answer: "",
+      accepted_answers: null,
+    });
+  });
+});
+
+describe("withCorrectChoice", () => {
+  it("replaces a multiple choice answer", () => {
+    expect(withCorrectChoice(question("Q1"), 3).correct_answer).toBe("4");
+  });
+
+  it("toggles multi-select choices in order", () => {
+    const multi = question("Q1", {
+      question_type: "multi_select",
+      correct_answer: "3",
+    });
+
+    expect(withCorrectChoice(multi, 0).correct_answer).toBe("1,3");
+    expect(withCorrectChoice(multi, 2).correct_answer).toBe("");
+  });
+});
+
+describe("withRemovedChoice", () => {
+  it("moves later correct answers up a letter", () => {
+    const multi = question("Q1", {
+      question_type: "multi_select",
+      correct_answer: "1,2,4",
+    });
+
+    expect(withRemovedChoice(multi, 1)).toMatchObject({
+      answer_choices: ["1", "3", "4"],
+      correct_answer: "1,3",
+    });
+  });
+});
+
+describe("checkEditedQuestion", () => {
+  const messages = (edited: Question) =>
+    checkEditedQuestion(edited, "Sheet1").map((issue) => issue.message);
+
+  it("accepts a complete question", () => {
+    expect(checkEditedQuestion(question("Q1"), "Sheet1")).toEqual([]);
+  });
+
+  it("reports empty fields and answers outside the choices", () => {
+    expect(
+      messages(
+        question("Q1", {
+          question_text: "",
+          answer_choices: ["1", ""],
+          correct_answer: "3",
+        })
+      )
+    ).toEqual([
+      "question text and instructions are both empty",
+      "answer B is empty",
+      "correct answer '3' is not one of A–B or F–G",
+    ]);
+  });
+
+  it("applies the spreadsheet row rules", () => {
+    expect(
+      messages(
+        question("Q1", {
+          answer_choices: ["1", "", "3"],
+          difficulty: "hard" as Question["difficulty"],
+        })
+      )
+    ).toEqual([
+      "difficulty 'hard' is not one of easy, medium, hard/intense",
+      "answer B is empty but answer C is filled",
+    ]);
+  });
+
+  it("reports several answers on a multiple choice question", () => {
+    expect(messages(question("Q1", { correct_answer: "1,2" }))).toEqual([
+      "correct answer 'A, B' lists 2 choices but the question type is multiple choice",
+    ]);
+  });
+
+  it("runs the grid-in and LaTeX checks", () => {
+    expect(messages(numeric("3/0"))).toEqual(["'3/0' has a zero denominator"]);
+    expect(
+      checkEditedQuestion(
+        question("Q1", { explanation: "$\\notacommand$" }),
+        "Sheet1"
+      )[0]
+    ).toMatchObject({ severity: "error", field: "explanation" });
+  });
+});
+
+describe("revalidateEdits", () => {
+  it("replaces the issues of edited questions and keeps the others", () => {
+    const originals = [
+      question("Q1", { correct_answer: "" }),
+      question("Q1", { reference_id: "Q2", correct_answer: "" }),
+    ];
+    const issue = (reference_id: string, field: string) => ({
+      severity: "error" as const,
+      sheet: "Sheet1",
+      reference_id,
+      field,
+      message: `${field} problem`,
+    });
+    const report = createReport([
+      issue("Q1", "correct_answer"),
+      issue("Q1", "reference_id"),
+      issue("Q2", "correct_answer"),
+    ]);
+
+    const revalidated = revalidateEdits(
+      report,
+      originals,
+      [question("Q1"), originals[1]],
+      "Sheet1"
+    );
+
+    expect(revalidated.issues).toEqual([
+      issue("Q1", "reference_id"),
+      issue("Q2", "correct_answer"),
+    ]);
+    expect(revalidateEdits(report, originals, originals, "Sheet1")).toBe(
+      report
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import type { Question, QuestionType } from "./supabase";
+import { GRID_IN_RULES, parseGridInAnswers, type GridInRules } from "./grid-in";
+import { diffQuestions } from "./question-diff";
+import {
+  checkQuestionValues,
+  LETTERS,
+  MAX_ANSWER_CHOICES,
+} from "./excel-parser";
+import { correctChoiceIndices } from "./utils";
+import {
+  createReport,
+  type ValidationIssue,
+  type ValidationReport,
+} from "./validation";
+
+export function isQuestionModified(
+  original: Question,
+  edited: Question
+): boolean {
+  return original !== edited && diffQuestions(original, edited).length > 0;
+}
+
+// Grid-in answers as the author typed them ("7/2; 3.5"), without the
+// decimal forms generated from them
+export function typedGridInAnswers(question: Question): string {
+  const typed = (question.accepted_answers ?? [])
+    .filter((answer) => !answer.generated)
+    .map((answer) => answer.value);
+  return typed.length > 0 ? typed.join("; ") : question.correct_answer;
+}
+
+// Same rules as a spreadsheet cell: correct_answer holds the first accepted
+// form, or the text as typed while it has none
+export function withGridInAnswers(
+  question: Question,
+  typed: string,
+  rules: GridInRules = GRID_IN_RULES.digital_sat
+): Question {
+  const { answers } = parseGridInAnswers(typed, rules);
+  return {
+    ...question,
+    correct_answer: answers[0]?.value ?? typed.trim(),
+    accepted_answers: answers,
+  };
+}
+
+// Switching between choices and a grid-in clears the answer, since an index
+// and a numeric value mean different things
+export function withQuestionType(
+  question: Question,
+  questionType: QuestionType
+): Question {
+  const wasNumeric = question.question_type === "numeric";
+  if (wasNumeric === (questionType === "numeric")) {
+    return { ...question, question_type: questionType };
+  }
+  return {
+    ...question,
+    question_type: questionType,
+    correct_answer: "",
+    accepted_answers: questionType === "numeric" ? [] : null,
+  };
+}
+
+// Multiple choice keeps a single answer; multi-select toggles the choice
+export function withCorrectChoice(question: Question, index: number): Question {
+  const current = correctChoiceIndices(question);
+  const indices =
+    question.question_type === "multi_select"
+      ? current.includes(index)
+        ? current.filter((i) => i !== index)
+        : [...current, index].sort((a, b) => a - b)
+      : [index];
+  return {
+    ...question,
+    correct_answer: indices.map((i) => i + 1).join(","),
+  };
+}
+
+export function withAddedChoice(question: Question): Question {
+  if (question.answer_choices.length >= MAX_ANSWER_CHOICES) return question;
+  return { ...question, answer_choices: [...question.answer_choices, ""] };
+}
+
+// Later choices move up a letter, so the correct answer indices move with them
+export function withRemovedChoice(question: Question, index: number): Question {
+  return {
+    ...question,
+    answer_choices: question.answer_choices.filter((_, i) => i !== index),
+    correct_answer: correctChoiceIndices(question)
+      .filter((i) => i !== index)
+      .map((i) => (i > index ? i : i + 1))
+      .join(","),
+  };
+}
+
+// The checks parseWorksheet runs on a row, applied to an edited question
+// in row form: choice indices become letters and a grid-in's answers are
+// the ones the author typed. Edits are not tied to a cell, so issues carry
+// the sheet and field only.
+export function checkEditedQuestion(
+  question: Question,
+  sheet: string,
+  rules: GridInRules = GRID_IN_RULES.digital_sat
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const choiceCount = question.answer_choices.length;
+
+  checkQuestionValues(
+    {
+      ...question,
+      accepted_answers: undefined,
+      correct_answer:
+        question.question_type === "numeric"
+          ? typedGridInAnswers(question)
+          : correctChoiceIndices(question)
+              // Past the last choice: a number, which no letter can be mistaken for
+              .map((index) =>
+                index < choiceCount ? LETTERS[index] : String(index + 1)
+              )
+              .join(", "),
+    },
+    (severity, field, message) =>
+      issues.push({
+        severity,
+        sheet,
+        reference_id: question.reference_id,
+        field,
+        message,
+      }),
+    { gridInRules: rules }
+  );
+
+  return issues;
+}
+
+// A module's parse report with the issues of each edited question replaced
+// by a fresh check of its edited values. Duplicate reference id errors stay,
+// since the reference id cannot be edited.
+export function revalidateEdits(
+  report: ValidationReport,
+  originals: Question[],
+  questions: Question[],
+  sheet: string,
+  rules?: GridInRules
+): ValidationReport {
+  const edited = questions.filter((question, index) =>
+    isQuestionModified(originals[index], question)
+  );
+  if (edited.length === 0) return report;
+
+  const editedIds = new Set(edited.map((question) => question.reference_id));
+  return createReport([
+    ...report.issues.filter(
+      (issue) =>
+        !issue.reference_id ||
+        !editedIds.has(issue.reference_id) ||
+        issue.field === "reference_id"
+    ),
+    ...edited.flatMap((question) =>
+      checkEditedQuestion(question, sheet, rules)
+    ),
+  ]);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  NO_FILTERS,
+  filterQuestions,
+  isFiltering,
+  questionStatus,
+  toggleSort,
+  type QuestionFilters,
+} from "./question-filter";
+import { question } from "./question-fixtures";
+import { createReport } from "./validation";
+
+const questions = [
+  question("Q10", { tag: "geometry", difficulty: "intense" }),
+  question("Q2", {
+    difficulty: "easy",
+    answer_choices: ["Triangle", "Square"],
+  }),
+  question("Q1", { question_type: "numeric", answer_choices: [] }),
+  question("Q3", { tag: "geometry", explanation: "Uses the triangle rule" }),
+];
+
+const report = createReport([
+  { severity: "warning", sheet: "Sheet1", reference_id: "Q2", message: "w" },
+  { severity: "warning", sheet: "Sheet1", reference_id: "Q3", message: "w" },
+  { severity: "error", sheet: "Sheet1", reference_id: "Q3", message: "e" },
+]);
+
+const filtered = (filters: Partial<QuestionFilters>) =>
+  filterQuestions(questions, report, { ...NO_FILTERS, ...filters }, null);
+
+describe("toggleSort", () => {
+  it("cycles ascending, descending and upload order", () => {
+    const asc = toggleSort(null, "tag");
+    const desc = toggleSort(asc, "tag");
+
+    expect(asc).toEqual({ column: "tag", direction: "asc" });
+    expect(desc).toEqual({ column: "tag", direction: "desc" });
+    expect(toggleSort(desc, "tag")).toBeNull();
+    expect(toggleSort(desc, "difficulty")).toEqual({
+      column: "difficulty",
+      direction: "asc",
+    });
+  });
+});
+
+describe("questionStatus", () => {
+  it("gives the worst issue of the question", () => {
+    expect(questions.map((q) => questionStatus(q, report))).toEqual([
+      "ok",
+      "warning",
+      "ok",
+      "error",
+    ]);
+  });
+});
+
+describe("filterQuestions", () => {
+  it("keeps upload order without filters or sorting", () => {
+    expect(filtered({})).toEqual([0, 1, 2, 3]);
+    expect(isFiltering(NO_FILTERS)).toBe(false);
+    expect(isFiltering({ ...NO_FILTERS, search: "  " })).toBe(false);
+  });
+
+  it("searches text, choices and explanation case-insensitively", () => {
+    expect(filtered({ search: " TRIANGLE" })).toEqual([1, 3]);
+  });
+
+  it("combines the filters", () => {
+    expect(filtered({ tag: "geometry" })).toEqual([0, 3]);
+    expect(filtered({ tag: "geometry", difficulty: "medium" })).toEqual([3]);
+    expect(filtered({ questionType: "numeric" })).toEqual([2]);
+    expect(filtered({ status: "warning" })).toEqual([1]);
+    expect(filtered({ onlyProblems: true })).toEqual([1, 3]);
+  });
+
+  it("sorts reference ids numerically and difficulty by level", () => {
+    expect(
+      filterQuestions(questions, report, NO_FILTERS, {
+        column: "reference_id",
+        direction: "asc",
+      })
+    ).toEqual([2, 1, 3, 0]);
+    expect(
+      filterQuestions(questions, report, NO_FILTERS, {
+        column: "difficulty",
+        direction: "desc",
+      })
+    ).toEqual([0, 2, 3, 1]);
+  });
+
+  it("keeps upload order between equal values", () => {
+    expect(
+      filterQuestions(questions, report, NO_FILTERS, {
+        column: "tag",
+        direction: "desc",
+      })
+    ).toEqual([0, 3, 1, 2]);
+  });
+});
@@ -0,0 +1,139 @@
+import type { DifficultyLevel, Question, QuestionType } from "./supabase";
+import type { ValidationReport } from "./validation";
+
+export type QuestionStatus = "error" | "warning" | "ok";
+
+// Empty strings match everything
+export interface QuestionFilters {
+  // Matched case-insensitively against question text, instructions,
+  // answer choices and explanation
+  search: string;
+  tag: string;
+  difficulty: DifficultyLevel | "";
+  questionType: QuestionType | "";
+  status: QuestionStatus | "";
+  // Only questions with an error or a warning
+  onlyProblems: boolean;
+}
+
+export const NO_FILTERS: QuestionFilters = {
+  search: "",
+  tag: "",
+  difficulty: "",
+  questionType: "",
+  status: "",
+  onlyProblems: false,
+};
+
+export type QuestionSortColumn =
+  | "reference_id"
+  | "tag"
+  | "difficulty"
+  | "question_text";
+
+// null keeps the upload order
+export type QuestionSort = {
+  column: QuestionSortColumn;
+  direction: "asc" | "desc";
+} | null;
+
+// A column header click: ascending, then descending, then back to upload order
+export function toggleSort(
+  sort: QuestionSort,
+  column: QuestionSortColumn
+): QuestionSort {
+  if (sort?.column !== column) return { column, direction: "asc" };
+  return sort.direction === "asc" ? { column, direction: "desc" } : null;
+}
+
+const DIFFICULTY_ORDER: DifficultyLevel[] = ["easy", "medium", "intense"];
+
+// The worst issue the report holds for the question
+export function questionStatus(
+  question: Question,
+  report: ValidationReport
+): QuestionStatus {
+  const issues = report.issues.filter(
+    (issue) => issue.reference_id === question.reference_id
+  );
+  if (issues.some((issue) => issue.severity === "error")) return "error";
+  return issues.length > 0 ? "warning" : "ok";
+}
+
+function matchesSearch(question: Question, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    question.question_text,
+    question.instructions,
+    question.explanation,
+    ...question.answer_choices,
+  ].some((text) => (text ?? "").toLowerCase().includes(needle));
+}
+
+export function isFiltering(filters: QuestionFilters): boolean {
+  return (
+    filters.search.trim() !== "" ||
+    filters.tag !== "" ||
+    filters.difficulty !== "" ||
+    filters.questionType !== "" ||
+    filters.status !== "" ||
+    filters.onlyProblems
+  );
+}
+
+function compareQuestions(
+  a: Question,
+  b: Question,
+  column: QuestionSortColumn
+): number {
+  switch (column) {
+    case "difficulty":
+      return (
+        DIFFICULTY_ORDER.indexOf(a.difficulty) -
+        DIFFICULTY_ORDER.indexOf(b.difficulty)
+      );
+    default:
+      return (a[column] ?? "").localeCompare(b[column] ?? "", undefined, {
+        numeric: true,
+        sensitivity: "base",
+      });
+  }
+}
+
+/**
+ * Positions of the module's questions that pass the filters, in display
+ * order. Positions rather than questions are returned so edits and moves
+ * still reach the right question. Ties keep the upload order.
+ */
+export function filterQuestions(
+  questions: Question[],
+  report: ValidationReport,
+  filters: QuestionFilters,
+  sort: QuestionSort
+): number[] {
+  const indices = questions
+    .map((question, index) => ({ question, index }))
+    .filter(({ question }) => {
+      const status = questionStatus(question, report);
+      return (
+        matchesSearch(question, filters.search) &&
+        (!filters.tag || question.tag === filters.tag) &&
+        (!filters.difficulty || question.difficulty === filters.difficulty) &&
+        (!filters.questionType ||
+          question.question_type === filters.questionType) &&
+        (!filters.status || status === filters.status) &&
+        (!filters.onlyProblems || status !== "ok")
+      );
+    });
+
+  if (sort) {
+    const sign = sort.direction === "asc" ? 1 : -1;
+    indices.sort(
+      (a, b) =>
+        sign * compareQuestions(a.question, b.question, sort.column) ||
+        a.index - b.index
+    );
+  }
+  return indices.map(({ index }) => index);
+}
@@ -0,0 +1,18 @@
+import type { Question } from "./supabase";
+
+// A valid multiple choice question for tests: four choices, the first correct
+export const question = (
+  reference_id = "Q1",
+  overrides: Partial<Question> = {}
+): Question => ({
+  reference_id,
+  question_type: "multiple_choice",
+  question_text: `Question ${reference_id}`,
+  instructions: "",
+  explanation: "",
+  difficulty: "medium",
+  tag: "algebra",
+  answer_choices: ["1", "2", "3", "4"],
+  correct_answer: "1",
+  ...overrides,
+});
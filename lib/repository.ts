@@ -0,0 +1,602 @@
+import {
+  getSupabaseClient,
+  type Question,
+  type Test,
+  type TestQuestion,
+  type TestSection,
+} from "./supabase";
+import type { SectionSettings } from "./test-sections";
+
+/**
+ * Every read and write the upload pipeline and test export make. Methods
+ * throw on failure with the backend's message; callers add the context.
+ */
+export interface UploadRepository {
+  // Returns the new ids in insert order
+  insertQuestions(
+    questions: Question[]
+  ): Promise<{ question_id: string; reference_id: string }[]>;
+  findQuestionsByReferenceIds(referenceIds: string[]): Promise<Question[]>;
+  // Which of the given question_ids still exist
+  findExistingQuestionIds(questionIds: string[]): Promise<string[]>;
+  updateQuestion(questionId: string, values: Partial<Question>): Promise<void>;
+  // Returns the ids that were actually deleted
+  deleteQuestions(questionIds: string[]): Promise<string[]>;
+  createTest(test: Test): Promise<string>;
+  testExists(testId: string): Promise<boolean>;
+  testReferenceIdExists(referenceId: string): Promise<boolean>;
+  // Deletes the test with its question links; false when no test was deleted
+  deleteTest(testId: string): Promise<boolean>;
+  // A section with exactly these settings, if one exists
+  findTestSection(settings: SectionSettings): Promise<string | null>;
+  createTestSection(settings: SectionSettings): Promise<string>;
+  insertTestQuestions(testQuestions: TestQuestion[]): Promise<void>;
+  updateTestQuestion(
+    testQuestionId: string,
+    values: Partial<TestQuestion>
+  ): Promise<void>;
+  // Returns the ids that were actually deleted
+  deleteTestQuestions(testQuestionIds: string[]): Promise<string[]>;
+  // order_in_test of every question already linked to the test
+  findLinkedOrders(testId: string): Promise<number[]>;
+  findTest(testId: string): Promise<Test | null>;
+  // The test's question links in order_in_test order
+  findTestQuestions(testId: string): Promise<TestQuestion[]>;
+  findQuestionsByIds(questionIds: string[]): Promise<Question[]>;
+  findTestSections(testSectionIds: string[]): Promise<TestSection[]>;
+  // Which of the given sections any test links questions to
+  findLinkedTestSectionIds(testSectionIds: string[]): Promise<string[]>;
+  // Returns the ids that were actually deleted
+  deleteTestSections(testSectionIds: string[]): Promise<string[]>;
+  // Every test, by title
+  listTests(): Promise<Test[]>;
+  findTestQuestionsForTests(testIds: string[]): Promise<TestQuestion[]>;
+  updateTest(testId: string, values: Partial<Test>): Promise<void>;
+  // Which of the given questions are linked to any test
+  findLinkedQuestionIds(questionIds: string[]): Promise<string[]>;
+}
+
+// Keeps each .in() filter well inside PostgREST's URL length limit
+const LOOKUP_CHUNK_SIZE = 200;
+
+// PostgREST's default cap on the rows one request returns
+const PAGE_SIZE = 1000;
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += LOOKUP_CHUNK_SIZE) {
+    result.push(items.slice(i, i + LOOKUP_CHUNK_SIZE));
+  }
+  return result;
+}
+
+function fail(context: string, error: { message: string }): never {
+  console.error(`Error ${context}: ${error.message}`);
+  throw new Error(error.message);
+}
+
+export function createSupabaseRepository(
+  client = getSupabaseClient()
+): UploadRepository {
+  return {
+    async insertQuestions(questions) {
+      const { data, error } = await client
+        .from("questions")
+        .insert(questions)
+        .select("question_id, reference_id");
+      if (error) fail("inserting questions", error);
+      return data || [];
+    },
+
+    async findQuestionsByReferenceIds(referenceIds) {
+      const questions: Question[] = [];
+      for (const chunk of chunks([...new Set(referenceIds)])) {
+        const { data, error } = await client
+          .from("questions")
+          .select("*")
+          .in("reference_id", chunk);
+        if (error) fail("looking up questions", error);
+        questions.push(...((data as Question[]) || []));
+      }
+      return questions;
+    },
+
+    async findExistingQuestionIds(questionIds) {
+      const existing: string[] = [];
+      for (const chunk of chunks(questionIds)) {
+        const { data, error } = await client
+          .from("questions")
+          .select("question_id")
+          .in("question_id", chunk);
+        if (error) fail("checking questions", error);
+        existing.push(...(data || []).map((row) => row.question_id));
+      }
+      return existing;
+    },
+
+    async updateQuestion(questionId, values) {
+      // Row-level security can turn an update into a silent no-op, so ask what was updated
+      const { data, error } = await client
+        .from("questions")
+        .update(values)
+        .eq("question_id", questionId)
+        .select("question_id");
+      if (error) fail(`updating question ${questionId}`, error);
+      if (!data?.length) {
+        throw new Error(`question ${questionId} was not updated`);
+      }
+    },
+
+    async deleteQuestions(questionIds) {
+      const deleted: string[] = [];
+      for (const chunk of chunks(questionIds)) {
+        // Row-level security can turn a delete into a silent no-op, so ask what was deleted
+        const { data, error } = await client
+          .from("questions")
+          .delete()
+          .in("question_id", chunk)
+          .select("question_id");
+        if (error) fail("deleting questions", error);
+        deleted.push(...(data || []).map((row) => row.question_id));
+      }
+      return deleted;
+    },
+
+    async createTest(test) {
+      const { data, error } = await client
+        .from("tests")
+        .insert(test)
+        .select("test_id")
+        .single();
+      if (error) fail("creating test", error);
+      if (!data?.test_id) throw new Error("no test_id returned");
+      return data.test_id;
+    },
+
+    async testExists(testId) {
+      const { data, error } = await client
+        .from("tests")
+        .select("test_id")
+        .eq("test_id", testId)
+        .maybeSingle();
+      if (error) fail(`checking test ${testId}`, error);
+      return Boolean(data);
+    },
+
+    async testReferenceIdExists(referenceId) {
+      const { data, error } = await client
+        .from("tests")
+        .select("test_id")
+        .eq("reference_id", referenceId)
+        .limit(1);
+      if (error) fail(`checking test reference ${referenceId}`, error);
+      return Boolean(data?.length);
+    },
+
+    async deleteTest(testId) {
+      const { error: linksError } = await client
+        .from("test_questions")
+        .delete()
+        .eq("test_id", testId);
+      if (linksError) fail(`deleting links of test ${testId}`, linksError);
+
+      const { data, error } = await client
+        .from("tests")
+        .delete()
+        .eq("test_id", testId)
+        .select("test_id");
+      if (error) fail(`deleting test ${testId}`, error);
+      return Boolean(data?.length);
+    },
+
+    async findTestSection(settings) {
+      const { data, error } = await client
+        .from("test_sections")
+        .select("test_section_id")
+        .eq("name", settings.name)
+        .eq("duration_minutes", settings.duration_minutes)
+        .eq("is_desmos_allowed", settings.is_desmos_allowed)
+        .eq("is_math_section", settings.is_math_section)
+        .order("test_section_id")
+        .limit(1);
+      if (error) fail(`looking up test section "${settings.name}"`, error);
+      return data?.[0]?.test_section_id ?? null;
+    },
+
+    async createTestSection(settings) {
+      const { data, error } = await client
+        .from("test_sections")
+        .insert({ ...settings, test_section_id: crypto.randomUUID() })
+        .select("test_section_id")
+        .single();
+      if (error) fail(`creating test section "${settings.name}"`, error);
+      if (!data?.test_section_id)
+        throw new Error("no test_section_id returned");
+      return data.test_section_id;
+    },
+
+    async insertTestQuestions(testQuestions) {
+      const { error } = await client
+        .from("test_questions")
+        .insert(testQuestions)
+        .select("test_question_id");
+      if (error) fail("linking questions", error);
+    },
+
+    async updateTestQuestion(testQuestionId, values) {
+      const { data, error } = await client
+        .from("test_questions")
+        .update(values)
+        .eq("test_question_id", testQuestionId)
+        .select("test_question_id");
+      if (error) fail(`updating question link ${testQuestionId}`, error);
+      if (!data?.length) {
+        throw new Error(`question link ${testQuestionId} was not updated`);
+      }
+    },
+
+    async deleteTestQuestions(testQuestionIds) {
+      const deleted: string[] = [];
+      for (const chunk of chunks(testQuestionIds)) {
+        const { data, error } = await client
+          .from("test_questions")
+          .delete()
+          .in("test_question_id", chunk)
+          .select("test_question_id");
+        if (error) fail("unlinking questions", error);
+        deleted.push(...(data || []).map((row) => row.test_question_id));
+      }
+      return deleted;
+    },
+
+    async findLinkedOrders(testId) {
+      const { data, error } = await client
+        .from("test_questions")
+        .select("order_in_test")
+        .eq("test_id", testId);
+      if (error) fail(`checking links of test ${testId}`, error);
+      return (data || []).map((row) => row.order_in_test);
+    },
+
+    async findTest(testId) {
+      const { data, error } = await client
+        .from("tests")
+        .select("*")
+        .eq("test_id", testId)
+        .maybeSingle();
+      if (error) fail(`loading test ${testId}`, error);
+      return (data as Test | null) ?? null;
+    },
+
+    async findTestQuestions(testId) {
+      const { data, error } = await client
+        .from("test_questions")
+        .select("*")
+        .eq("test_id", testId)
+        .order("order_in_test");
+      if (error) fail(`loading questions of test ${testId}`, error);
+      return (data as TestQuestion[]) || [];
+    },
+
+    async findQuestionsByIds(questionIds) {
+      const questions: Question[] = [];
+      for (const chunk of chunks([...new Set(questionIds)])) {
+        const { data, error } = await client
+          .from("questions")
+          .select("*")
+          .in("question_id", chunk);
+        if (error) fail("loading questions", error);
+        questions.push(...((data as Question[]) || []));
+      }
+      return questions;
+    },
+
+    async findTestSections(testSectionIds) {
+      const sections: TestSection[] = [];
+      for (const chunk of chunks([...new Set(testSectionIds)])) {
+        const { data, error } = await client
+          .from("test_sections")
+          .select("*")
+          .in("test_section_id", chunk);
+        if (error) fail("loading test sections", error);
+        sections.push(...((data as TestSection[]) || []));
+      }
+      return sections;
+    },
+
+    async findLinkedTestSectionIds(testSectionIds) {
+      const linked = new Set<string>();
+      for (const chunk of chunks([...new Set(testSectionIds)])) {
+        const { data, error } = await client
+          .from("test_questions")
+          .select("test_section_id")
+          .in("test_section_id", chunk);
+        if (error) fail("checking test section links", error);
+        for (const row of data || []) linked.add(row.test_section_id);
+      }
+      return [...linked];
+    },
+
+    async deleteTestSections(testSectionIds) {
+      const deleted: string[] = [];
+      for (const chunk of chunks(testSectionIds)) {
+        const { data, error } = await client
+          .from("test_sections")
+          .delete()
+          .in("test_section_id", chunk)
+          .select("test_section_id");
+        if (error) fail("deleting test sections", error);
+        deleted.push(...(data || []).map((row) => row.test_section_id));
+      }
+      return deleted;
+    },
+
+    async listTests() {
+      const tests: Test[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await client
+          .from("tests")
+          .select("*")
+          .order("title")
+          .order("test_id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) fail("listing tests", error);
+        tests.push(...((data as Test[]) || []));
+        if (!data || data.length < PAGE_SIZE) return tests;
+      }
+    },
+
+    async findTestQuestionsForTests(testIds) {
+      const links: TestQuestion[] = [];
+      for (const chunk of chunks([...new Set(testIds)])) {
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const { data, error } = await client
+            .from("test_questions")
+            .select("*")
+            .in("test_id", chunk)
+            .order("test_id")
+            .order("order_in_test")
+            .range(from, from + PAGE_SIZE - 1);
+          if (error) fail("loading test questions", error);
+          links.push(...((data as TestQuestion[]) || []));
+          if (!data || data.length < PAGE_SIZE) break;
+        }
+      }
+      return links;
+    },
+
+    async updateTest(testId, values) {
+      const { data, error } = await client
+        .from("tests")
+        .update(values)
+        .eq("test_id", testId)
+        .select("test_id");
+      if (error) fail(`updating test ${testId}`, error);
+      if (!data?.length) throw new Error(`test ${testId} was not updated`);
+    },
+
+    async findLinkedQuestionIds(questionIds) {
+      const linked = new Set<string>();
+      for (const chunk of chunks([...new Set(questionIds)])) {
+        const { data, error } = await client
+          .from("test_questions")
+          .select("question_id")
+          .in("question_id", chunk);
+        if (error) fail("checking question links", error);
+        for (const row of data || []) linked.add(row.question_id);
+      }
+      return [...linked];
+    },
+  };
+}
+
+export interface MemoryTables {
+  questions: Question[];
+  tests: Test[];
+  test_sections: TestSection[];
+  test_questions: TestQuestion[];
+}
+
+// Local stand-in that keeps every row in memory, for dry runs
+export function createMemoryRepository(): UploadRepository & {
+  tables: MemoryTables;
+} {
+  const tables: MemoryTables = {
+    questions: [],
+    tests: [],
+    test_sections: [],
+    test_questions: [],
+  };
+
+  return {
+    tables,
+
+    async insertQuestions(questions) {
+      const rows = questions.map((question) => ({
+        ...question,
+        question_id: crypto.randomUUID(),
+      }));
+      tables.questions.push(...rows);
+      return rows.map(({ question_id, reference_id }) => ({
+        question_id,
+        reference_id,
+      }));
+    },
+
+    async findQuestionsByReferenceIds(referenceIds) {
+      return tables.questions.filter((q) =>
+        referenceIds.includes(q.reference_id)
+      );
+    },
+
+    async findExistingQuestionIds(questionIds) {
+      return tables.questions
+        .map((q) => q.question_id!)
+        .filter((id) => questionIds.includes(id));
+    },
+
+    async updateQuestion(questionId, values) {
+      const question = tables.questions.find(
+        (q) => q.question_id === questionId
+      );
+      if (!question) throw new Error(`question ${questionId} was not updated`);
+      Object.assign(question, values);
+    },
+
+    async deleteQuestions(questionIds) {
+      const deleted = tables.questions
+        .map((q) => q.question_id!)
+        .filter((id) => questionIds.includes(id));
+      tables.questions = tables.questions.filter(
+        (q) => !deleted.includes(q.question_id!)
+      );
+      return deleted;
+    },
+
+    async createTest(test) {
+      const testId = crypto.randomUUID();
+      tables.tests.push({ ...test, test_id: testId });
+      return testId;
+    },
+
+    async testExists(testId) {
+      return tables.tests.some((t) => t.test_id === testId);
+    },
+
+    async testReferenceIdExists(referenceId) {
+      return tables.tests.some((t) => t.reference_id === referenceId);
+    },
+
+    async deleteTest(testId) {
+      const count = tables.tests.length;
+      tables.test_questions = tables.test_questions.filter(
+        (tq) => tq.test_id !== testId
+      );
+      tables.tests = tables.tests.filter((t) => t.test_id !== testId);
+      return tables.tests.length < count;
+    },
+
+    async findTestSection(settings) {
+      const section = tables.test_sections.find(
+        (s) =>
+          s.name === settings.name &&
+          s.duration_minutes === settings.duration_minutes &&
+          s.is_desmos_allowed === settings.is_desmos_allowed &&
+          s.is_math_section === settings.is_math_section
+      );
+      return section?.test_section_id ?? null;
+    },
+
+    async createTestSection(settings) {
+      const testSectionId = crypto.randomUUID();
+      tables.test_sections.push({
+        ...settings,
+        test_section_id: testSectionId,
+      });
+      return testSectionId;
+    },
+
+    async insertTestQuestions(testQuestions) {
+      tables.test_questions.push(
+        ...testQuestions.map((tq) => ({
+          ...tq,
+          test_question_id: crypto.randomUUID(),
+        }))
+      );
+    },
+
+    async updateTestQuestion(testQuestionId, values) {
+      const link = tables.test_questions.find(
+        (tq) => tq.test_question_id === testQuestionId
+      );
+      if (!link) {
+        throw new Error(`question link ${testQuestionId} was not updated`);
+      }
+      Object.assign(link, values);
+    },
+
+    async deleteTestQuestions(testQuestionIds) {
+      const deleted = tables.test_questions
+        .map((tq) => tq.test_question_id!)
+        .filter((id) => testQuestionIds.includes(id));
+      tables.test_questions = tables.test_questions.filter(
+        (tq) => !deleted.includes(tq.test_question_id!)
+      );
+      return deleted;
+    },
+
+    async findLinkedOrders(testId) {
+      return tables.test_questions
+        .filter((tq) => tq.test_id === testId)
+        .map((tq) => tq.order_in_test);
+    },
+
+    async findTest(testId) {
+      return tables.tests.find((t) => t.test_id === testId) ?? null;
+    },
+
+    // Copies, as a query would return, so callers can keep them as a snapshot
+    async findTestQuestions(testId) {
+      return tables.test_questions
+        .filter((tq) => tq.test_id === testId)
+        .sort((a, b) => a.order_in_test - b.order_in_test)
+        .map((tq) => ({ ...tq }));
+    },
+
+    async findQuestionsByIds(questionIds) {
+      return tables.questions.filter((q) =>
+        questionIds.includes(q.question_id!)
+      );
+    },
+
+    async findTestSections(testSectionIds) {
+      return tables.test_sections.filter((s) =>
+        testSectionIds.includes(s.test_section_id)
+      );
+    },
+
+    async findLinkedTestSectionIds(testSectionIds) {
+      return [
+        ...new Set(
+          tables.test_questions
+            .map((tq) => tq.test_section_id)
+            .filter((id) => testSectionIds.includes(id))
+        ),
+      ];
+    },
+
+    async deleteTestSections(testSectionIds) {
+      const deleted = tables.test_sections
+        .map((s) => s.test_section_id)
+        .filter((id) => testSectionIds.includes(id));
+      tables.test_sections = tables.test_sections.filter(
+        (s) => !deleted.includes(s.test_section_id)
+      );
+      return deleted;
+    },
+
+    async listTests() {
+      return [...tables.tests].sort((a, b) => a.title.localeCompare(b.title));
+    },
+
+    async findTestQuestionsForTests(testIds) {
+      return tables.test_questions.filter((tq) => testIds.includes(tq.test_id));
+    },
+
+    async updateTest(testId, values) {
+      const test = tables.tests.find((t) => t.test_id === testId);
+      if (!test) throw new Error(`test ${testId} was not updated`);
+      Object.assign(test, values);
+    },
+
+    async findLinkedQuestionIds(questionIds) {
+      return [
+        ...new Set(
+          tables.test_questions
+            .map((tq) => tq.question_id)
+            .filter((id) => questionIds.includes(id))
+        ),
+      ];
+    },
+  };
+}
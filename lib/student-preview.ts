@@ -0,0 +1,95 @@
+import type { Question } from "./supabase";
+import type { SectionSettings } from "./test-sections";
+import { correctChoiceIndices } from "./utils";
+
+// One module as a student takes it, with questions in order_in_test order
+export interface PreviewSection {
+  settings: SectionSettings;
+  questions: Question[];
+}
+
+// Chosen zero-based choice indices, or the text typed into a grid-in box
+export type StudentResponse = number[] | string;
+
+export interface SectionScore {
+  name: string;
+  correct: number;
+  answered: number;
+  total: number;
+}
+
+export interface PreviewScore {
+  sections: SectionScore[];
+  correct: number;
+  total: number;
+}
+
+// Key of a response: questions are identified by position, since a reference
+// id may appear in more than one module
+export const responseKey = (sectionIndex: number, questionIndex: number) =>
+  `${sectionIndex}:${questionIndex}`;
+
+export function isAnswered(
+  response: StudentResponse | undefined
+): response is StudentResponse {
+  if (response === undefined) return false;
+  return typeof response === "string"
+    ? response.trim() !== ""
+    : response.length > 0;
+}
+
+// Choice questions need exactly the correct set of choices; a grid-in must
+// match one of its accepted forms, the generated decimals included
+export function isResponseCorrect(
+  question: Question,
+  response: StudentResponse | undefined
+): boolean {
+  if (!isAnswered(response)) return false;
+
+  if (question.question_type === "numeric") {
+    if (typeof response !== "string") return false;
+    const accepted = question.accepted_answers?.length
+      ? question.accepted_answers.map((answer) => answer.value)
+      : [question.correct_answer];
+    return accepted.includes(response.trim());
+  }
+
+  if (typeof response === "string") return false;
+  const correct = correctChoiceIndices(question);
+  return (
+    correct.length === response.length &&
+    correct.every((index) => response.includes(index))
+  );
+}
+
+export function scorePreview(
+  sections: PreviewSection[],
+  responses: Record<string, StudentResponse>
+): PreviewScore {
+  const scores = sections.map((section, sectionIndex) => {
+    const sectionResponses = section.questions.map(
+      (_, questionIndex) => responses[responseKey(sectionIndex, questionIndex)]
+    );
+    return {
+      name: section.settings.name,
+      correct: section.questions.filter((question, questionIndex) =>
+        isResponseCorrect(question, sectionResponses[questionIndex])
+      ).length,
+      answered: sectionResponses.filter(isAnswered).length,
+      total: section.questions.length,
+    };
+  });
+
+  return {
+    sections: scores,
+    correct: scores.reduce((sum, score) => sum + score.correct, 0),
+    total: scores.reduce((sum, score) => sum + score.total, 0),
+  };
+}
+
+// "31:58" for a countdown
+export function formatTimeLeft(seconds: number): string {
+  const clamped = Math.max(0, seconds);
+  const minutes = Math.floor(clamped / 60);
+  return `${minutes}:${String(clamped % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,43 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Supabase client authenticated with the service-role key, which bypasses
+ * row-level security. Only server code (route handlers and the bulk-upload
+ * CLI) may create it: the key is read from a server-only variable and must
+ * never be sent to the browser.
+ */
+export function createServiceRoleClient() {
+  if (typeof window !== "undefined") {
+    throw new Error("The service-role client can only be used on the server");
+  }
+
+  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error(
+      "Server uploads need SUPABASE_SERVICE_ROLE_KEY and a Supabase URL in the server environment"
+    );
+  }
+
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/**
+ * The signed-in user a request was made for: the Supabase access token it
+ * carries as `Authorization: Bearer <token>` is checked with the auth
+ * server. Returns null when the token is missing, expired or not valid.
+ */
+export async function requestUserId(
+  request: Request,
+  client: SupabaseClient
+): Promise<string | null> {
+  const token = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) return null;
+
+  const { data, error } = await client.auth.getUser(token);
+  return error || !data.user ? null : data.user.id;
+}
@@ -1,13 +1,36 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+let client: SupabaseClient | null = null;
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+/**
+ * The anon-key client, created on first use so that modules needing only the
+ * types below (the CLI's --help and dry runs, unit tests) load without the
+ * Supabase environment variables.
+ */
+export function getSupabaseClient(): SupabaseClient {
+  if (!client) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error(
+        "NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY must be set"
+      );
+    }
+    client = createClient(supabaseUrl, supabaseKey);
+  }
+  return client;
+}
 
-export type QuestionType = "multiple_choice" | "numeric";
+export type QuestionType = "multiple_choice" | "multi_select" | "numeric";
 export type DifficultyLevel = "easy" | "medium" | "intense";
 
+export interface GridInAnswer {
+  value: string;
+  kind: "integer" | "decimal" | "fraction";
+  // True for equivalent decimal forms derived from a fraction rather than typed by the author
+  generated: boolean;
+}
+
 export interface Question {
   question_id?: string;
   reference_id: string;
@@ -18,7 +41,11 @@ export interface Question {
   difficulty: DifficultyLevel;
   tag: string;
   answer_choices: string[];
+  // 1-based choice index ("2"), comma-separated indices for multi_select ("1,3"),
+  // or the answer itself for numeric questions
   correct_answer: string;
+  // Every accepted form of a numeric (grid-in) answer; correct_answer holds the first one
+  accepted_answers?: GridInAnswer[] | null;
 }
 
 export interface Test {
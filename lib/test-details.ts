@@ -0,0 +1,59 @@
+import type { Test } from "./supabase";
+
+// Everything stored on the tests row except its generated id
+export type TestDetails = Omit<Test, "test_id">;
+
+export type TestDetailsField = "title" | "reference_id" | "test_date";
+
+// Short code such as "SAT-2026-10"; letters, digits, ".", "_" and "-"
+const REFERENCE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const REFERENCE_ID_MAX_LENGTH = 50;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A day as YYYY-MM-DD in local time, the format of <input type="date">
+function localDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Problems with the details that would stop the test from being created,
+ * keyed by field. Uniqueness of reference_id needs the database and is
+ * checked separately (see testReferenceIdExists).
+ * @param today - Now in the user's time zone, for the past-date check. The
+ * server passes null to skip it: its day can already be the next one for
+ * users west of UTC.
+ */
+export function testDetailsErrors(
+  details: TestDetails,
+  today: Date | null = new Date()
+): Partial<Record<TestDetailsField, string>> {
+  const errors: Partial<Record<TestDetailsField, string>> = {};
+
+  if (!details.title.trim()) errors.title = "Please enter a test title";
+
+  const referenceId = details.reference_id ?? "";
+  if (referenceId && !REFERENCE_ID_PATTERN.test(referenceId)) {
+    errors.reference_id =
+      'Reference code may only contain letters, digits, ".", "_" and "-", and must start with a letter or digit';
+  } else if (referenceId.length > REFERENCE_ID_MAX_LENGTH) {
+    errors.reference_id = `Reference code must be at most ${REFERENCE_ID_MAX_LENGTH} characters`;
+  }
+
+  const testDate = details.test_date ?? "";
+  if (testDate) {
+    if (
+      !DATE_PATTERN.test(testDate) ||
+      Number.isNaN(Date.parse(`${testDate}T00:00:00`))
+    ) {
+      errors.test_date = "Scheduled date is not a valid date";
+    } else if (today && testDate < localDate(today)) {
+      errors.test_date = "Scheduled date is in the past";
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import type { TestContent } from "./database";
+import { findBankConflicts } from "./duplicates";
+import { question } from "./question-fixtures";
+import {
+  applyRevisionResolutions,
+  arrangeRevisedTest,
+  newlyAddedQuestions,
+  planTestRevision,
+  type RevisedSection,
+} from "./test-revision";
+
+// Stored questions have question_id "id-<reference_id>"
+const content = (sections: Record<string, string[]>): TestContent => ({
+  test: { test_id: "test-1", title: "Practice Test" },
+  sections: Object.entries(sections).map(([id, refs]) => ({
+    test_section_id: id,
+    section: null,
+    questions: refs.map((ref) => question(ref, { question_id: `id-${ref}` })),
+  })),
+  missingQuestionIds: [],
+});
+
+const revisedSection = (
+  test_section_id: string,
+  refs: string[]
+): RevisedSection => ({
+  test_section_id,
+  questions: refs.map((ref) => question(ref)),
+});
+
+const arrangedRefs = (
+  stored: TestContent,
+  revised: RevisedSection[],
+  selected: string[]
+) =>
+  arrangeRevisedTest(
+    stored,
+    revised,
+    planTestRevision(stored, revised),
+    new Set(selected)
+  ).map((section) => section.slots.map((slot) => slot.question.reference_id));
+
+describe("planTestRevision", () => {
+  it("lists additions, removals, moves and field changes", () => {
+    const stored = content({ s1: ["Q1", "Q2", "Q3"], s2: ["Q4"] });
+    const revised = [
+      {
+        test_section_id: "s1",
+        questions: [
+          question("Q3"),
+          question("Q1", { tag: "geometry" }),
+          question("Q5"),
+        ],
+      },
+    ];
+
+    const plan = planTestRevision(stored, revised);
+
+    expect(plan.changes.map((change) => change.id)).toEqual([
+      "added:s1:Q5",
+      "removed:s1:Q2",
+      "order:s1",
+      "changed:id-Q1",
+    ]);
+    expect(plan.changes[0]).toMatchObject({ kind: "added", position: 3 });
+    expect(plan.changes[2]).toMatchObject({
+      kind: "reordered",
+      moves: [{ reference_id: "Q1", from: 1, to: 2 }],
+    });
+    expect(plan.unchanged).toEqual(["Q3"]);
+  });
+
+  it("finds no changes when the files match the test", () => {
+    const stored = content({ s1: ["Q1", "Q2"] });
+
+    expect(
+      planTestRevision(stored, [revisedSection("s1", ["Q1", "Q2"])])
+    ).toEqual({ changes: [], unchanged: ["Q1", "Q2"] });
+  });
+
+  it("rejects more modules than the test has sections", () => {
+    const stored = content({ s1: ["Q1"] });
+
+    expect(() =>
+      planTestRevision(stored, [
+        revisedSection("s1", ["Q1"]),
+        revisedSection("s2", []),
+      ])
+    ).toThrow("The test has 1 sections, but 2 modules were given");
+  });
+});
+
+describe("arrangeRevisedTest", () => {
+  const stored = content({ s1: ["Q1", "Q2", "Q3"], s2: ["Q4"] });
+  const revised = [revisedSection("s1", ["Q3", "Q5", "Q1"])];
+
+  it("follows the revised order when every change is selected", () => {
+    expect(
+      arrangedRefs(stored, revised, [
+        "added:s1:Q5",
+        "removed:s1:Q2",
+        "order:s1",
+      ])
+    ).toEqual([["Q3", "Q5", "Q1"], ["Q4"]]);
+  });
+
+  it("keeps the stored order and puts additions after their predecessor", () => {
+    expect(arrangedRefs(stored, revised, ["added:s1:Q5"])).toEqual([
+      ["Q1", "Q2", "Q3", "Q5"],
+      ["Q4"],
+    ]);
+  });
+
+  it("keeps unselected removals after the question they followed", () => {
+    expect(arrangedRefs(stored, revised, ["order:s1"])).toEqual([
+      ["Q3", "Q1", "Q2"],
+      ["Q4"],
+    ]);
+  });
+
+  it("marks which slots the revision adds", () => {
+    const [section] = arrangeRevisedTest(
+      stored,
+      revised,
+      planTestRevision(stored, revised),
+      new Set(["added:s1:Q5"])
+    );
+
+    expect(section.slots.map((slot) => slot.added)).toEqual([
+      false,
+      false,
+      false,
+      true,
+    ]);
+    expect(section.slots[0].question.question_id).toBe("id-Q1");
+  });
+});
+
+describe("bank resolutions", () => {
+  // Q2 moves between sections, so only Q5 and Q6 are new to the test
+  const stored = content({ s1: ["Q1"], s2: ["Q2"] });
+  const revised = [
+    revisedSection("s1", ["Q1", "Q2", "Q5", "Q6"]),
+    revisedSection("s2", []),
+  ];
+  const plan = planTestRevision(stored, revised);
+  const selected = new Set(plan.changes.map((change) => change.id));
+
+  it("looks up only additions the test does not link yet", () => {
+    expect(
+      newlyAddedQuestions(stored, plan, selected).map((q) => q.reference_id)
+    ).toEqual(["Q5", "Q6"]);
+    expect(
+      newlyAddedQuestions(stored, plan, new Set(["added:s1:Q6"])).map(
+        (q) => q.reference_id
+      )
+    ).toEqual(["Q6"]);
+  });
+
+  it("drops skipped additions and links reused ones", () => {
+    const conflicts = findBankConflicts(
+      newlyAddedQuestions(stored, plan, selected),
+      [
+        question("Q5", { question_id: "bank-Q5" }),
+        question("Q6", { question_id: "bank-Q6" }),
+      ]
+    );
+
+    const { sections, changeIds } = applyRevisionResolutions(
+      revised,
+      [...selected],
+      conflicts,
+      { Q5: "reuse", Q6: "skip" }
+    );
+
+    expect(changeIds).toEqual(["added:s1:Q2", "added:s1:Q5", "removed:s2:Q2"]);
+    expect(sections[0].questions.map((q) => q.question_id)).toEqual([
+      undefined,
+      undefined,
+      "bank-Q5",
+      undefined,
+    ]);
+  });
+});
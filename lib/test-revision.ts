@@ -0,0 +1,337 @@
+import type { TestContent } from "./database";
+import type { ConflictResolution, QuestionConflict } from "./duplicates";
+import {
+  commonSubsequence,
+  planQuestionUpdates,
+  type QuestionUpdate,
+} from "./question-diff";
+import type { Question } from "./supabase";
+
+// A module of the revised workbook, matched to the stored section it replaces
+export interface RevisedSection {
+  test_section_id: string;
+  questions: Question[];
+}
+
+// Positions count from 1 within the section
+export interface QuestionMove {
+  reference_id: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * One reviewable difference between a stored test and its revised workbook.
+ * Ids are derived from what the change is about, so the same revision
+ * planned again (e.g. on the server) gives the same ids.
+ */
+export type RevisionChange =
+  | {
+      id: string;
+      kind: "added";
+      test_section_id: string;
+      question: Question;
+      // Where the revised workbook puts it
+      position: number;
+    }
+  | {
+      id: string;
+      kind: "removed";
+      test_section_id: string;
+      // The stored question
+      question: Question;
+      position: number;
+    }
+  | {
+      id: string;
+      kind: "reordered";
+      test_section_id: string;
+      // Questions kept in both versions that changed places; the others
+      // keep their relative order
+      moves: QuestionMove[];
+    }
+  | {
+      id: string;
+      kind: "changed";
+      test_section_id: string;
+      update: QuestionUpdate;
+    };
+
+export interface TestRevisionPlan {
+  changes: RevisionChange[];
+  // Reference ids present in both versions with nothing to update
+  unchanged: string[];
+}
+
+// The question at one position of a revised section: a stored question, or
+// one the revision adds, which has no question_id until it is written
+export interface RevisedSlot {
+  question: Question;
+  added: boolean;
+}
+
+const questionsByReference = (questions: Question[]) =>
+  new Map(questions.map((q) => [q.reference_id, q]));
+
+const addedChangeId = (sectionId: string, referenceId: string) =>
+  `added:${sectionId}:${referenceId}`;
+
+/**
+ * Compares each revised module with the stored section it replaces, keyed by
+ * reference_id: questions added to or removed from the section, questions
+ * that changed places, and field changes to questions the test keeps.
+ * Revised module i replaces the test's section i; sections without a
+ * revised module are left out of the comparison.
+ */
+export function planTestRevision(
+  content: TestContent,
+  revised: RevisedSection[]
+): TestRevisionPlan {
+  if (revised.length > content.sections.length) {
+    throw new Error(
+      `The test has ${content.sections.length} sections, but ${revised.length} modules were given`
+    );
+  }
+
+  const changes: RevisionChange[] = [];
+  const revisedQuestions: Question[] = [];
+
+  for (const section of revised) {
+    const stored = content.sections.find(
+      (s) => s.test_section_id === section.test_section_id
+    );
+    if (!stored) {
+      throw new Error(
+        `Section ${section.test_section_id} is not part of the test`
+      );
+    }
+    const storedRefs = stored.questions.map((q) => q.reference_id);
+    const revisedRefs = section.questions.map((q) => q.reference_id);
+    const storedSet = new Set(storedRefs);
+    const revisedSet = new Set(revisedRefs);
+
+    section.questions.forEach((question, index) => {
+      if (storedSet.has(question.reference_id)) return;
+      changes.push({
+        id: addedChangeId(section.test_section_id, question.reference_id),
+        kind: "added",
+        test_section_id: section.test_section_id,
+        question,
+        position: index + 1,
+      });
+    });
+    stored.questions.forEach((question, index) => {
+      if (revisedSet.has(question.reference_id)) return;
+      changes.push({
+        id: `removed:${section.test_section_id}:${question.reference_id}`,
+        kind: "removed",
+        test_section_id: section.test_section_id,
+        question,
+        position: index + 1,
+      });
+    });
+
+    // Questions outside a longest run kept in the same order are the ones that moved
+    const keptStored = storedRefs.filter((ref) => revisedSet.has(ref));
+    const keptRevised = revisedRefs.filter((ref) => storedSet.has(ref));
+    const inPlace = new Set(
+      commonSubsequence(keptStored, keptRevised).map(([i]) => keptStored[i])
+    );
+    const moves = keptRevised
+      .filter((ref) => !inPlace.has(ref))
+      .map((ref) => ({
+        reference_id: ref,
+        from: storedRefs.indexOf(ref) + 1,
+        to: revisedRefs.indexOf(ref) + 1,
+      }));
+    if (moves.length > 0) {
+      changes.push({
+        id: `order:${section.test_section_id}`,
+        kind: "reordered",
+        test_section_id: section.test_section_id,
+        moves,
+      });
+    }
+
+    revisedQuestions.push(...section.questions);
+  }
+
+  // A question is compared with every stored copy the test links to
+  const linked = content.sections.flatMap((s) => s.questions);
+  const linkedRefs = new Set(linked.map((q) => q.reference_id));
+  const updates = planQuestionUpdates(
+    revisedQuestions.filter((q) => linkedRefs.has(q.reference_id)),
+    linked
+  );
+  for (const update of updates.updates) {
+    const section = revised.find((s) =>
+      s.questions.some((q) => q.reference_id === update.reference_id)
+    )!;
+    changes.push({
+      id: `changed:${update.question_id}`,
+      kind: "changed",
+      test_section_id: section.test_section_id,
+      update,
+    });
+  }
+
+  return { changes, unchanged: updates.unchanged };
+}
+
+// Puts each of `items` back next to the item before it in `order`, or first
+// when nothing before it is in `result`
+function insertAfterPredecessors(
+  result: string[],
+  items: string[],
+  order: string[]
+): string[] {
+  const arranged = [...result];
+  for (const item of items) {
+    const before = order.slice(0, order.indexOf(item)).reverse();
+    const anchor = before.find((ref) => arranged.includes(ref));
+    arranged.splice(
+      anchor === undefined ? 0 : arranged.indexOf(anchor) + 1,
+      0,
+      item
+    );
+  }
+  return arranged;
+}
+
+/**
+ * The order each section ends up in when only the selected changes are
+ * applied. With the section's reordering selected, the revised order is
+ * followed and removals that were not selected stay after the question they
+ * followed; otherwise the stored order is kept and selected additions go
+ * after the question they follow in the revised workbook. Sections without
+ * a revised module keep their questions.
+ * @returns Every section of the test, in test order
+ */
+export function arrangeRevisedTest(
+  content: TestContent,
+  revised: RevisedSection[],
+  plan: TestRevisionPlan,
+  selected: Set<string>
+): { test_section_id: string; slots: RevisedSlot[] }[] {
+  const selectedChanges = plan.changes.filter((change) =>
+    selected.has(change.id)
+  );
+  const selectedRefs = (kind: "added" | "removed", sectionId: string) =>
+    new Set(
+      selectedChanges.flatMap((change) =>
+        change.kind === kind && change.test_section_id === sectionId
+          ? [change.question.reference_id]
+          : []
+      )
+    );
+
+  return content.sections.map((stored) => {
+    const section = revised.find(
+      (s) => s.test_section_id === stored.test_section_id
+    );
+    if (!section) {
+      return {
+        test_section_id: stored.test_section_id,
+        slots: stored.questions.map((question) => ({
+          question,
+          added: false,
+        })),
+      };
+    }
+
+    const storedRefs = stored.questions.map((q) => q.reference_id);
+    const revisedRefs = section.questions.map((q) => q.reference_id);
+    const added = selectedRefs("added", stored.test_section_id);
+    const removed = selectedRefs("removed", stored.test_section_id);
+    const reordered = selectedChanges.some(
+      (change) =>
+        change.kind === "reordered" &&
+        change.test_section_id === stored.test_section_id
+    );
+
+    const refs = reordered
+      ? insertAfterPredecessors(
+          revisedRefs.filter(
+            (ref) => storedRefs.includes(ref) || added.has(ref)
+          ),
+          storedRefs.filter(
+            (ref) => !revisedRefs.includes(ref) && !removed.has(ref)
+          ),
+          storedRefs
+        )
+      : insertAfterPredecessors(
+          storedRefs.filter((ref) => !removed.has(ref)),
+          revisedRefs.filter((ref) => added.has(ref)),
+          revisedRefs
+        );
+
+    const storedByRef = questionsByReference(stored.questions);
+    const revisedByRef = questionsByReference(section.questions);
+    return {
+      test_section_id: stored.test_section_id,
+      slots: refs.map((ref) =>
+        storedByRef.has(ref)
+          ? { question: storedByRef.get(ref)!, added: false }
+          : { question: revisedByRef.get(ref)!, added: true }
+      ),
+    };
+  });
+}
+
+// Questions the selected changes add that the test does not link yet, which
+// are looked up in the question bank before the revision is applied
+export function newlyAddedQuestions(
+  content: TestContent,
+  plan: TestRevisionPlan,
+  selected: Set<string>
+): Question[] {
+  const linkedRefs = new Set(
+    content.sections.flatMap((s) => s.questions.map((q) => q.reference_id))
+  );
+  return plan.changes.flatMap((change) =>
+    change.kind === "added" &&
+    selected.has(change.id) &&
+    !linkedRefs.has(change.question.reference_id)
+      ? [change.question]
+      : []
+  );
+}
+
+/**
+ * Applies the chosen bank resolutions to a revision: skipped additions are
+ * left out of the selected changes and reused ones carry the stored
+ * question_id, so they are linked instead of inserted again.
+ */
+export function applyRevisionResolutions(
+  sections: RevisedSection[],
+  changeIds: string[],
+  conflicts: QuestionConflict[],
+  resolutions: Record<string, ConflictResolution>
+): { sections: RevisedSection[]; changeIds: string[] } {
+  const conflictsById = new Map(conflicts.map((c) => [c.reference_id, c]));
+  const resolutionFor = (referenceId: string) =>
+    conflictsById.has(referenceId) ? resolutions[referenceId] : undefined;
+
+  const skipped = new Set(
+    sections.flatMap((section) =>
+      section.questions
+        .filter((q) => resolutionFor(q.reference_id) === "skip")
+        .map((q) => addedChangeId(section.test_section_id, q.reference_id))
+    )
+  );
+  return {
+    sections: sections.map((section) => ({
+      ...section,
+      questions: section.questions.map((question) =>
+        resolutionFor(question.reference_id) === "reuse"
+          ? {
+              ...question,
+              question_id: conflictsById.get(question.reference_id)!.existing[0]
+                .question_id,
+            }
+          : question
+      ),
+    })),
+    changeIds: changeIds.filter((id) => !skipped.has(id)),
+  };
+}
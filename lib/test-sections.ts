@@ -0,0 +1,37 @@
+import type { TestSection } from "./supabase";
+
+// How a module is run. Tests whose modules have the same settings share one
+// test_sections row, so a section is never changed once created.
+export type SectionSettings = Omit<
+  TestSection,
+  "test_section_id" | "is_math_section"
+> & { is_math_section: boolean };
+
+// Digital SAT layout: two Reading and Writing modules, then two Math modules
+export function defaultSectionSettings(moduleNumber: number): SectionSettings {
+  const isMath = moduleNumber >= 3;
+
+  return {
+    name: isMath
+      ? `Math Module ${moduleNumber - 2}`
+      : `Reading and Writing Module ${moduleNumber}`,
+    duration_minutes: isMath ? 35 : 32,
+    is_desmos_allowed: isMath,
+    is_math_section: isMath,
+  };
+}
+
+// Problems that would stop the settings from being saved, if any
+export function sectionSettingsErrors(settings: SectionSettings): string[] {
+  const errors: string[] = [];
+
+  if (!settings.name.trim()) errors.push("name is required");
+  if (
+    !Number.isInteger(settings.duration_minutes) ||
+    settings.duration_minutes <= 0
+  ) {
+    errors.push("duration must be a whole number of minutes");
+  }
+
+  return errors;
+}
@@ -0,0 +1,167 @@
+import type { BatchModule } from "./duplicates";
+import { defaultSectionSettings, type SectionSettings } from "./test-sections";
+import type { ValidationIssue } from "./validation";
+
+export interface TemplateSection {
+  // Stable id of the slot within the template, e.g. "math-1"
+  id: string;
+  // Default settings for the module uploaded into this slot
+  settings: SectionSettings;
+  // Questions the module must contain; omitted when any count is fine
+  questionCount?: number;
+}
+
+export interface TestTemplate {
+  name: string;
+  // Sections in test order, one uploaded module each
+  sections: TemplateSection[];
+  // Whether fewer modules than sections may be uploaded, filling the first slots
+  allowPartial: boolean;
+  // Whether an upload with every section counts as a full test
+  isFullTest: boolean;
+}
+
+const section = (
+  id: string,
+  name: string,
+  duration_minutes: number,
+  isMath: boolean,
+  questionCount?: number
+): TemplateSection => ({
+  id,
+  settings: {
+    name,
+    duration_minutes,
+    is_desmos_allowed: isMath,
+    is_math_section: isMath,
+  },
+  questionCount,
+});
+
+const SAT_READING_WRITING = [
+  section("rw-1", "Reading and Writing Module 1", 32, false, 27),
+  section("rw-2", "Reading and Writing Module 2", 32, false, 27),
+];
+const SAT_MATH = [
+  section("math-1", "Math Module 1", 35, true, 22),
+  section("math-2", "Math Module 2", 35, true, 22),
+];
+
+export const TEST_TEMPLATES = {
+  custom: {
+    name: "Custom (1–4 modules, any length)",
+    sections: [1, 2, 3, 4].map((moduleNumber) => ({
+      id: `module-${moduleNumber}`,
+      settings: defaultSectionSettings(moduleNumber),
+    })),
+    allowPartial: true,
+    isFullTest: true,
+  },
+  digital_sat: {
+    name: "Digital SAT (4 modules)",
+    sections: [...SAT_READING_WRITING, ...SAT_MATH],
+    allowPartial: false,
+    isFullTest: true,
+  },
+  sat_reading_writing: {
+    name: "SAT Reading and Writing mini-test (2 modules)",
+    sections: SAT_READING_WRITING,
+    allowPartial: false,
+    isFullTest: false,
+  },
+  sat_math: {
+    name: "SAT Math mini-test (2 modules)",
+    sections: SAT_MATH,
+    allowPartial: false,
+    isFullTest: false,
+  },
+  diagnostic: {
+    name: "Diagnostic (1 Reading and Writing + 1 Math module)",
+    sections: [
+      section("rw", "Reading and Writing Diagnostic", 20, false),
+      section("math", "Math Diagnostic", 20, true),
+    ],
+    allowPartial: false,
+    isFullTest: false,
+  },
+  act: {
+    name: "ACT (5 sections)",
+    sections: [
+      section("english", "ACT English", 35, false, 50),
+      section("math", "ACT Math", 50, true, 45),
+      section("reading", "ACT Reading", 40, false, 36),
+      section("science", "ACT Science", 40, false, 40),
+      section("writing", "ACT Writing", 40, false),
+    ],
+    allowPartial: false,
+    isFullTest: true,
+  },
+} satisfies Record<string, TestTemplate>;
+
+export type TestTemplateId = keyof typeof TEST_TEMPLATES;
+
+// Section settings for the module in a given position, 1-based
+export function templateSectionSettings(
+  template: TestTemplate,
+  moduleNumber: number
+): SectionSettings {
+  return (
+    template.sections[moduleNumber - 1]?.settings ??
+    defaultSectionSettings(moduleNumber)
+  );
+}
+
+export function isFullTestUpload(
+  template: TestTemplate,
+  moduleCount: number
+): boolean {
+  return template.isFullTest && moduleCount === template.sections.length;
+}
+
+// Why the number of modules does not fit the template, if it does not
+export function checkModuleCount(
+  template: TestTemplate,
+  moduleCount: number
+): string | null {
+  const expected = template.sections.length;
+
+  if (moduleCount > expected) {
+    return `The ${template.name} template has ${expected} section${
+      expected === 1 ? "" : "s"
+    }, but ${moduleCount} modules were added.`;
+  }
+  if (moduleCount < expected && !template.allowPartial) {
+    const names = template.sections.map((s) => s.settings.name).join(", ");
+    return `The ${template.name} template needs ${expected} modules (${names}); ${moduleCount} added so far.`;
+  }
+  return null;
+}
+
+/**
+ * Checks each module's question count against its slot in the template.
+ * Modules beyond the template's sections are left to checkModuleCount.
+ */
+export function checkQuestionCounts(
+  template: TestTemplate,
+  modules: BatchModule[]
+): Record<string, ValidationIssue[]> {
+  const issues: Record<string, ValidationIssue[]> = {};
+
+  modules.forEach((batchModule, index) => {
+    const slot = template.sections[index];
+    const count = batchModule.questions.length;
+    if (slot?.questionCount === undefined || count === slot.questionCount) {
+      return;
+    }
+
+    issues[batchModule.id] = [
+      {
+        severity: "error",
+        sheet: batchModule.sheet,
+        message: `${batchModule.label} has ${count} questions, but the ${template.name} template expects ${slot.questionCount} for ${slot.settings.name}`,
+      },
+    ];
+  });
+
+  return issues;
+}
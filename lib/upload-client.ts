@@ -0,0 +1,194 @@
+import type {
+  ModuleData,
+  TestDeletionResult,
+  TestRevisionResult,
+  UploadProgress,
+} from "./database";
+import type { QuestionUpdatePlan } from "./question-diff";
+import { getSupabaseClient, type Question } from "./supabase";
+import type { TestDetails } from "./test-details";
+import type { RevisedSection } from "./test-revision";
+import type { UploadJournal } from "./upload-journal";
+import type {
+  RollbackResult,
+  UploadEvent,
+  UploadRequest,
+  UploadResult,
+} from "./upload-request";
+
+const UPLOAD_ENDPOINT = "/api/uploads";
+
+// The route only accepts requests from a signed-in user
+async function accessToken(): Promise<string> {
+  const { data } = await getSupabaseClient().auth.getSession();
+  if (!data.session) {
+    throw new Error("Sign in to make changes to the database");
+  }
+  return data.session.access_token;
+}
+
+/**
+ * Sends a request to the upload route and relays its server-sent events.
+ * Resolves with the result of the "complete" event and rejects with the
+ * message of an "error" event or of a rejected request.
+ */
+async function streamUploadRequest(
+  request: UploadRequest,
+  onProgress?: (progress: UploadProgress) => void,
+  onJournal?: (journal: UploadJournal) => void | Promise<void>
+): Promise<unknown> {
+  const response = await fetch(UPLOAD_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${await accessToken()}`,
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok || !response.body) {
+    const { errors } = await response
+      .json()
+      .catch(() => ({ errors: [response.statusText] }));
+    throw new Error(
+      `Upload request failed (${response.status}): ${(errors as string[]).join(
+        "; "
+      )}`
+    );
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  // Rebuilt from the first journal event and the progress sent after it
+  let journal: UploadJournal | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; the last piece may be incomplete
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+
+    for (const message of messages) {
+      const data = message
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice("data: ".length))
+        .join("\n");
+      if (!data) continue;
+
+      const event = JSON.parse(data) as UploadEvent;
+      switch (event.type) {
+        case "progress":
+          onProgress?.(event.progress);
+          break;
+        case "journal":
+        case "journal_progress":
+          journal =
+            event.type === "journal"
+              ? event.journal
+              : journal && { ...journal, ...event.update };
+          if (!journal) break;
+          try {
+            await onJournal?.(journal);
+          } catch (error) {
+            console.error("Error saving upload journal:", error);
+          }
+          break;
+        case "complete":
+          return event.result;
+        case "error":
+          throw new Error(event.message);
+      }
+    }
+  }
+
+  throw new Error("The upload stopped before the server reported a result");
+}
+
+// Same contract as uploadBulkData, but the server writes the rows and
+// records the run; onJournal receives each journal it saves
+export async function uploadBulkDataOnServer(
+  modules: ModuleData[],
+  testDetails: TestDetails,
+  onProgress?: (progress: UploadProgress) => void,
+  onJournal?: (journal: UploadJournal) => void | Promise<void>
+): Promise<UploadResult> {
+  return (await streamUploadRequest(
+    { action: "create", test: testDetails, modules },
+    onProgress,
+    onJournal
+  )) as UploadResult;
+}
+
+// Continues an interrupted run from the progress the server recorded
+export async function resumeUploadOnServer(
+  journalId: string,
+  onProgress?: (progress: UploadProgress) => void,
+  onJournal?: (journal: UploadJournal) => void | Promise<void>
+): Promise<UploadResult> {
+  return (await streamUploadRequest(
+    { action: "resume", journalId },
+    onProgress,
+    onJournal
+  )) as UploadResult;
+}
+
+export async function updateExistingQuestionsOnServer(
+  questions: Question[],
+  onProgress?: (progress: UploadProgress) => void
+): Promise<QuestionUpdatePlan> {
+  return (await streamUploadRequest(
+    { action: "update", questions },
+    onProgress
+  )) as QuestionUpdatePlan;
+}
+
+// Applies the changes with the given ids, as planned by planTestRevision
+export async function reviseTestOnServer(
+  testId: string,
+  sections: RevisedSection[],
+  changeIds: string[],
+  onProgress?: (progress: UploadProgress) => void
+): Promise<TestRevisionResult> {
+  return (await streamUploadRequest(
+    { action: "revise", testId, sections, changeIds },
+    onProgress
+  )) as TestRevisionResult;
+}
+
+// Rolls back everything the server recorded for an interrupted run
+export async function discardUploadOnServer(
+  journalId: string,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<RollbackResult> {
+  return (await streamUploadRequest(
+    { action: "discard", journalId },
+    onProgress
+  )) as RollbackResult;
+}
+
+export async function setTestArchivedOnServer(
+  testId: string,
+  isArchived: boolean
+): Promise<void> {
+  await streamUploadRequest({
+    action: "archive",
+    testId,
+    is_archived: isArchived,
+  });
+}
+
+// Deletes the test and its question links, and optionally its unused questions
+export async function deleteTestOnServer(
+  testId: string,
+  deleteOrphanedQuestions: boolean
+): Promise<TestDeletionResult> {
+  return (await streamUploadRequest({
+    action: "delete",
+    testId,
+    deleteOrphanedQuestions,
+  })) as TestDeletionResult;
+}
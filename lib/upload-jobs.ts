@@ -0,0 +1,113 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ModuleData } from "./database";
+import type { TestDetails } from "./test-details";
+import {
+  createUploadJournal,
+  type UploadJournal,
+  type UploadJournalUpdate,
+} from "./upload-journal";
+
+/**
+ * The server's record of each upload run (the upload_jobs table). Resuming
+ * and discarding look runs up by the id the server issued, so a rollback
+ * only touches rows the server recorded, never ones named by the browser.
+ */
+export interface UploadJobStore {
+  // Records a new run for the user and returns its journal
+  create(
+    test: TestDetails,
+    modules: ModuleData[],
+    userId: string
+  ): Promise<UploadJournal>;
+  // The user's run with this id, or null when there is none
+  find(id: string, userId: string): Promise<UploadJournal | null>;
+  // Saves a run's progress; its test and modules never change
+  saveProgress(update: UploadJournalUpdate): Promise<void>;
+}
+
+interface UploadJobRow {
+  upload_job_id: string;
+  status: UploadJournal["status"];
+  test: TestDetails;
+  modules: ModuleData[];
+  question_ids: Record<string, string>;
+  test_id: string | null;
+  test_section_ids: string[];
+  linked_orders: number[];
+  created_at: string;
+  updated_at: string;
+}
+
+const progressColumns = (update: UploadJournalUpdate) => ({
+  status: update.status,
+  question_ids: update.questionIds,
+  test_id: update.testId ?? null,
+  test_section_ids: update.testSectionIds,
+  linked_orders: update.linkedOrders,
+  updated_at: update.updated_at,
+});
+
+const toRow = (journal: UploadJournal): UploadJobRow => ({
+  ...progressColumns(journal),
+  upload_job_id: journal.id,
+  test: journal.test,
+  modules: journal.modules,
+  created_at: journal.created_at,
+});
+
+const toJournal = (row: UploadJobRow): UploadJournal => ({
+  id: row.upload_job_id,
+  status: row.status,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+  test: row.test,
+  modules: row.modules,
+  questionIds: row.question_ids,
+  testId: row.test_id ?? undefined,
+  testSectionIds: row.test_section_ids,
+  linkedOrders: row.linked_orders,
+});
+
+export function createSupabaseUploadJobStore(
+  client: SupabaseClient
+): UploadJobStore {
+  return {
+    async create(test, modules, userId) {
+      const journal = createUploadJournal(test, modules);
+      const { error } = await client
+        .from("upload_jobs")
+        .insert({ ...toRow(journal), created_by: userId });
+      if (error) {
+        throw new Error(`Failed to record the upload: ${error.message}`);
+      }
+      return journal;
+    },
+
+    async find(id, userId) {
+      const { data, error } = await client
+        .from("upload_jobs")
+        .select(
+          "upload_job_id, status, test, modules, question_ids, test_id, test_section_ids, linked_orders, created_at, updated_at"
+        )
+        .eq("upload_job_id", id)
+        .eq("created_by", userId)
+        .maybeSingle();
+      if (error) {
+        throw new Error(`Failed to load upload ${id}: ${error.message}`);
+      }
+      return data ? toJournal(data as UploadJobRow) : null;
+    },
+
+    async saveProgress(update) {
+      const { data, error } = await client
+        .from("upload_jobs")
+        .update(progressColumns(update))
+        .eq("upload_job_id", update.id)
+        .select("upload_job_id");
+      if (error) {
+        throw new Error(`Failed to save upload ${update.id}: ${error.message}`);
+      }
+      if (!data?.length) throw new Error(`upload ${update.id} was not saved`);
+    },
+  };
+}
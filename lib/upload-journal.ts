@@ -0,0 +1,159 @@
+import type { ModuleData } from "./database";
+import type { TestDetails } from "./test-details";
+
+const DB_NAME = "bulk-upload";
+const DB_VERSION = 1;
+const STORE_NAME = "upload-journals";
+
+/**
+ * Record of one upload run, saved after every confirmed step so a run cut
+ * short by a closed tab or a dropped connection can be resumed or undone.
+ * The server keeps the authoritative copy (see upload-jobs.ts); the browser
+ * keeps one in IndexedDB only to list its interrupted runs.
+ */
+export interface UploadJournal {
+  id: string;
+  // "complete" and "rolled_back" journals have nothing left to resume
+  status: "in_progress" | "complete" | "rolled_back";
+  created_at: string;
+  updated_at: string;
+  // Everything needed to run the upload again
+  test: TestDetails;
+  modules: ModuleData[];
+  // Confirmed progress: inserted question per reference_id, the test, the
+  // test sections the run created, and linked order_in_test values
+  questionIds: Record<string, string>;
+  testId?: string;
+  testSectionIds: string[];
+  linkedOrders: number[];
+}
+
+// What changes as a run goes on. The test and modules, which can hold
+// embedded images, are saved once when the run starts
+export type UploadJournalUpdate = Pick<
+  UploadJournal,
+  | "id"
+  | "status"
+  | "updated_at"
+  | "questionIds"
+  | "testId"
+  | "testSectionIds"
+  | "linkedOrders"
+>;
+
+export function journalUpdate(journal: UploadJournal): UploadJournalUpdate {
+  return {
+    id: journal.id,
+    status: journal.status,
+    updated_at: journal.updated_at,
+    questionIds: journal.questionIds,
+    testId: journal.testId,
+    testSectionIds: journal.testSectionIds,
+    linkedOrders: journal.linkedOrders,
+  };
+}
+
+// Called by the server, which issues the id
+export function createUploadJournal(
+  test: TestDetails,
+  modules: ModuleData[]
+): UploadJournal {
+  const now = new Date().toISOString();
+
+  return {
+    id: crypto.randomUUID(),
+    status: "in_progress",
+    created_at: now,
+    updated_at: now,
+    test,
+    modules,
+    questionIds: {},
+    testSectionIds: [],
+    linkedOrders: [],
+  };
+}
+
+// How far a run got; questions reused from the bank are not counted as uploads
+export function journalProgress(journal: UploadJournal): {
+  questionsUploaded: number;
+  questionsTotal: number;
+  testCreated: boolean;
+  linksCreated: number;
+  linksTotal: number;
+} {
+  const questions = journal.modules.flatMap((m) => m.questions);
+
+  return {
+    questionsUploaded: Object.keys(journal.questionIds).length,
+    questionsTotal: questions.filter((q) => !q.question_id).length,
+    testCreated: Boolean(journal.testId),
+    linksCreated: journal.linkedOrders.length,
+    linksTotal: questions.length,
+  };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveUploadJournal(journal: UploadJournal): Promise<void> {
+  await withStore("readwrite", (store) => store.put(journal));
+}
+
+export async function deleteUploadJournal(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// Journals of runs that never finished, oldest first
+export async function loadInterruptedUploads(): Promise<UploadJournal[]> {
+  if (typeof indexedDB === "undefined") return [];
+
+  try {
+    const journals = await withStore<UploadJournal[]>("readonly", (store) =>
+      store.getAll()
+    );
+    return journals
+      .filter((journal) => journal.status === "in_progress")
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch (error) {
+    console.error("Error loading upload journals:", error);
+    return [];
+  }
+}
+
+// Saves journals of unfinished runs and forgets the rest
+export async function persistUploadJournal(
+  journal: UploadJournal
+): Promise<void> {
+  if (journal.status === "in_progress") {
+    await saveUploadJournal(journal);
+  } else {
+    await deleteUploadJournal(journal.id);
+  }
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { question } from "./question-fixtures";
+import type { Question } from "./supabase";
+import { pickUploadRequestFields, uploadRequestErrors } from "./upload-request";
+
+const createRequest = (modules: Question[][]) => ({
+  action: "create",
+  test: { title: "Practice Test 1" },
+  modules: modules.map((questions, index) => ({
+    moduleNumber: index + 1,
+    questions,
+  })),
+});
+
+const JOB_ID = "3f0c8a52-6d1e-4b7a-9c2f-5e8d7a1b4c90";
+
+describe("uploadRequestErrors", () => {
+  it("accepts a well-formed create request", () => {
+    expect(
+      uploadRequestErrors(createRequest([[question("Q1")], [question("Q2")]]))
+    ).toEqual([]);
+  });
+
+  it("rejects bodies that are not requests", () => {
+    expect(uploadRequestErrors(null)).toEqual([
+      "Request body must be a JSON object",
+    ]);
+    expect(uploadRequestErrors({ action: "drop" })).toEqual([
+      'Unknown action "drop"',
+    ]);
+  });
+
+  it("reports missing test details and modules", () => {
+    expect(uploadRequestErrors({ action: "create", modules: [] })).toEqual([
+      "test details are missing",
+      "modules are missing",
+    ]);
+  });
+
+  it("leaves the past-date check to the browser, which knows the user's day", () => {
+    const request = createRequest([[question("Q1")]]);
+
+    expect(
+      uploadRequestErrors({
+        ...request,
+        test: { title: "Practice Test 1", test_date: "2026-10-18" },
+      })
+    ).toEqual([]);
+    expect(
+      uploadRequestErrors({
+        ...request,
+        test: { title: "Practice Test 1", test_date: "2026-13-01" },
+      })
+    ).toEqual(["Scheduled date is not a valid date"]);
+  });
+
+  it("checks every question against its type", () => {
+    const errors = uploadRequestErrors(
+      createRequest([
+        [
+          question("Q1", { correct_answer: "5" }),
+          question("Q2", { correct_answer: "1,3" }),
+          question("Q3", { question_type: "numeric" }),
+          question("Q4", { difficulty: "hard" as Question["difficulty"] }),
+        ],
+      ])
+    );
+
+    expect(errors).toEqual([
+      'Module 1 question 1 (Q1): correct_answer "5" does not match the 4 answer choices',
+      "Module 1 question 2 (Q2): multiple_choice questions have one correct answer",
+      "Module 1 question 3 (Q3): numeric questions cannot have answer choices",
+      'Module 1 question 4 (Q4): unknown difficulty "hard"',
+    ]);
+  });
+
+  it("accepts several correct answers for multi-select questions", () => {
+    expect(
+      uploadRequestErrors(
+        createRequest([
+          [
+            question("Q1", {
+              question_type: "multi_select",
+              correct_answer: "1,3",
+            }),
+          ],
+        ])
+      )
+    ).toEqual([]);
+  });
+
+  it("rejects a reference id used in two modules", () => {
+    expect(
+      uploadRequestErrors(createRequest([[question("Q1")], [question("Q1")]]))
+    ).toHaveLength(1);
+  });
+
+  it("only accepts server-issued ids for resume and discard", () => {
+    expect(
+      uploadRequestErrors({ action: "resume", journalId: JOB_ID })
+    ).toEqual([]);
+    expect(
+      uploadRequestErrors({ action: "discard", journalId: JOB_ID })
+    ).toEqual([]);
+    expect(
+      uploadRequestErrors({
+        action: "discard",
+        journal: { id: JOB_ID, questionIds: { Q1: "q-1" } },
+      })
+    ).toEqual(["journalId must be the id of an upload"]);
+    expect(
+      uploadRequestErrors({
+        action: "resume",
+        journalId: "1700000000000-abc123",
+      })
+    ).toEqual(["journalId must be the id of an upload"]);
+  });
+
+  it("requires a test id and flags for archive and delete", () => {
+    expect(
+      uploadRequestErrors({
+        action: "archive",
+        testId: "t-1",
+        is_archived: true,
+      })
+    ).toEqual([]);
+    expect(uploadRequestErrors({ action: "archive", testId: " " })).toEqual([
+      "testId is missing",
+      "is_archived must be true or false",
+    ]);
+    expect(
+      uploadRequestErrors({
+        action: "delete",
+        testId: "t-1",
+        deleteOrphanedQuestions: "yes",
+      })
+    ).toEqual(["deleteOrphanedQuestions must be true or false"]);
+  });
+
+  it("requires the changes to apply for a revision", () => {
+    expect(
+      uploadRequestErrors({
+        action: "revise",
+        testId: "t-1",
+        sections: [{ test_section_id: "s-1", questions: [] }],
+        changeIds: [],
+      })
+    ).toEqual(["changeIds must list the changes to apply"]);
+  });
+});
+
+describe("pickUploadRequestFields", () => {
+  it("drops keys that are not columns of the rows written", () => {
+    const request = pickUploadRequestFields({
+      action: "create",
+      test: { title: "Practice Test 1", test_id: "t-forged" } as never,
+      modules: [
+        {
+          moduleNumber: 1,
+          questions: [{ ...question("Q1"), created_by: "someone" } as never],
+          section: {
+            name: "Math",
+            duration_minutes: 35,
+            is_desmos_allowed: true,
+            is_math_section: true,
+            test_section_id: "s-forged",
+          } as never,
+        },
+      ],
+    });
+
+    expect(request).toEqual({
+      action: "create",
+      test: { title: "Practice Test 1" },
+      modules: [
+        {
+          moduleNumber: 1,
+          questions: [question("Q1")],
+          section: {
+            name: "Math",
+            duration_minutes: 35,
+            is_desmos_allowed: true,
+            is_math_section: true,
+          },
+        },
+      ],
+    });
+  });
+});
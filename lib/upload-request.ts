@@ -0,0 +1,378 @@
+import type {
+  ModuleData,
+  TestDeletionResult,
+  TestRevisionResult,
+  UploadProgress,
+} from "./database";
+import { findBatchDuplicates } from "./duplicates";
+import type { QuestionUpdatePlan } from "./question-diff";
+import type { Question } from "./supabase";
+import { testDetailsErrors, type TestDetails } from "./test-details";
+import type { RevisedSection } from "./test-revision";
+import { sectionSettingsErrors, type SectionSettings } from "./test-sections";
+import type { UploadJournal, UploadJournalUpdate } from "./upload-journal";
+
+// Body of a POST to /api/uploads
+export type UploadRequest =
+  // Creates a test; the server records the run as an upload job
+  | { action: "create"; test: TestDetails; modules: ModuleData[] }
+  // Continues an interrupted run from the progress the server recorded
+  | { action: "resume"; journalId: string }
+  | { action: "update"; questions: Question[] }
+  // Rolls back whatever an interrupted run wrote
+  | { action: "discard"; journalId: string }
+  | { action: "archive"; testId: string; is_archived: boolean }
+  | { action: "delete"; testId: string; deleteOrphanedQuestions: boolean }
+  // Applies the selected changes of a revised workbook to a stored test
+  | {
+      action: "revise";
+      testId: string;
+      sections: RevisedSection[];
+      changeIds: string[];
+    };
+
+export interface UploadResult {
+  test_id: string;
+  total_questions: number;
+}
+
+export interface RollbackResult {
+  rolledBack: string[];
+  failures: string[];
+}
+
+// Events streamed back while a request runs; "complete" or "error" ends the stream
+export type UploadEvent =
+  | { type: "progress"; progress: UploadProgress }
+  // The whole journal once, when the run starts, then only its progress
+  | { type: "journal"; journal: UploadJournal }
+  | { type: "journal_progress"; update: UploadJournalUpdate }
+  | {
+      type: "complete";
+      result:
+        | UploadResult
+        | QuestionUpdatePlan
+        | RollbackResult
+        | TestDeletionResult
+        | TestRevisionResult
+        | null;
+    }
+  | { type: "error"; message: string };
+
+const QUESTION_TYPES = ["multiple_choice", "multi_select", "numeric"];
+const DIFFICULTIES = ["easy", "medium", "intense"];
+
+// The columns a request may set. The service-role client writes whatever it
+// is given, so every other key is dropped before anything is written
+const QUESTION_FIELDS: (keyof Question)[] = [
+  "question_id",
+  "reference_id",
+  "question_type",
+  "question_text",
+  "instructions",
+  "explanation",
+  "difficulty",
+  "tag",
+  "answer_choices",
+  "correct_answer",
+  "accepted_answers",
+];
+const TEST_FIELDS: (keyof TestDetails)[] = [
+  "reference_id",
+  "title",
+  "description",
+  "test_date",
+  "is_full_test",
+  "is_archived",
+  "is_monitored",
+];
+const SECTION_FIELDS: (keyof SectionSettings)[] = [
+  "name",
+  "duration_minutes",
+  "is_desmos_allowed",
+  "is_math_section",
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+// The browser validates spreadsheets before sending them, so these checks
+// only guard the database against malformed or hand-crafted requests
+function questionErrors(question: unknown, label: string): string[] {
+  if (!isObject(question)) return [`${label} is not an object`];
+
+  const referenceId = isString(question.reference_id)
+    ? question.reference_id.trim()
+    : "";
+  const name = referenceId ? `${label} (${referenceId})` : label;
+  const errors: string[] = [];
+
+  if (!referenceId) errors.push(`${label} has no reference_id`);
+  for (const field of [
+    "question_text",
+    "instructions",
+    "explanation",
+    "tag",
+    "correct_answer",
+  ]) {
+    if (!isString(question[field])) errors.push(`${name}: ${field} is missing`);
+  }
+  if (question.question_id !== undefined && !isString(question.question_id)) {
+    errors.push(`${name}: question_id must be a string`);
+  }
+  if (
+    question.accepted_answers != null &&
+    !Array.isArray(question.accepted_answers)
+  ) {
+    errors.push(`${name}: accepted_answers must be a list`);
+  }
+  if (!DIFFICULTIES.includes(question.difficulty as string)) {
+    errors.push(`${name}: unknown difficulty "${question.difficulty}"`);
+  }
+  if (!QUESTION_TYPES.includes(question.question_type as string)) {
+    errors.push(`${name}: unknown question_type "${question.question_type}"`);
+    return errors;
+  }
+
+  const choices = question.answer_choices;
+  if (!Array.isArray(choices) || !choices.every(isString)) {
+    errors.push(`${name}: answer_choices must be a list of strings`);
+    return errors;
+  }
+
+  const answer = isString(question.correct_answer)
+    ? question.correct_answer.trim()
+    : "";
+  if (!answer) {
+    errors.push(`${name}: correct_answer is empty`);
+  } else if (question.question_type === "numeric") {
+    if (choices.length > 0) {
+      errors.push(`${name}: numeric questions cannot have answer choices`);
+    }
+  } else {
+    const indices = answer.split(",").map(Number);
+    if (
+      !indices.every(
+        (i) => Number.isInteger(i) && i >= 1 && i <= choices.length
+      )
+    ) {
+      errors.push(
+        `${name}: correct_answer "${answer}" does not match the ${choices.length} answer choices`
+      );
+    } else if (
+      question.question_type === "multiple_choice" &&
+      indices.length > 1
+    ) {
+      errors.push(`${name}: multiple_choice questions have one correct answer`);
+    }
+  }
+
+  return errors;
+}
+
+function questionListErrors(questions: unknown, label: string): string[] {
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return [`${label} has no questions`];
+  }
+  return questions.flatMap((question, index) =>
+    questionErrors(question, `${label} question ${index + 1}`)
+  );
+}
+
+// Upload job ids are UUIDs issued by the server
+function journalIdErrors(journalId: unknown): string[] {
+  return isString(journalId) &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      journalId
+    )
+    ? []
+    : ["journalId must be the id of an upload"];
+}
+
+function testIdErrors(testId: unknown): string[] {
+  return isString(testId) && testId.trim() ? [] : ["testId is missing"];
+}
+
+/**
+ * Checks a request body before anything is written. Returns every problem
+ * found, or an empty list when the body is a valid UploadRequest.
+ */
+export function uploadRequestErrors(body: unknown): string[] {
+  if (!isObject(body)) return ["Request body must be a JSON object"];
+
+  switch (body.action) {
+    case "create": {
+      const errors: string[] = [];
+
+      if (!isObject(body.test) || !isString(body.test.title)) {
+        errors.push("test details are missing");
+      } else {
+        errors.push(
+          ...Object.values(testDetailsErrors(body.test as TestDetails, null))
+        );
+      }
+
+      if (!Array.isArray(body.modules) || body.modules.length === 0) {
+        return [...errors, "modules are missing"];
+      }
+      body.modules.forEach((moduleData: unknown, index) => {
+        const label = `Module ${index + 1}`;
+        if (
+          !isObject(moduleData) ||
+          !Number.isInteger(moduleData.moduleNumber)
+        ) {
+          errors.push(`${label} is malformed`);
+          return;
+        }
+        errors.push(...questionListErrors(moduleData.questions, label));
+        const section = moduleData.section;
+        if (section === undefined) return;
+        if (
+          !isObject(section) ||
+          !isString(section.name) ||
+          typeof section.is_desmos_allowed !== "boolean" ||
+          typeof section.is_math_section !== "boolean"
+        ) {
+          errors.push(`${label}: section settings are malformed`);
+        } else {
+          errors.push(
+            ...sectionSettingsErrors(section as SectionSettings).map(
+              (error) => `${label}: section ${error}`
+            )
+          );
+        }
+      });
+      if (errors.length > 0) return errors;
+
+      // Same rule as the page: a reference id may appear in one module only
+      const modules = body.modules as ModuleData[];
+      const duplicates = findBatchDuplicates(
+        modules.map((moduleData, index) => ({
+          id: String(index),
+          label: `Module ${index + 1}`,
+          sheet: `Module ${index + 1}`,
+          questions: moduleData.questions,
+        }))
+      );
+      return Object.values(duplicates)
+        .flat()
+        .map((issue) => `${issue.sheet}: ${issue.message}`);
+    }
+
+    case "update":
+      return questionListErrors(body.questions, "Update");
+
+    case "resume":
+    case "discard":
+      return journalIdErrors(body.journalId);
+
+    case "archive":
+      return [
+        ...testIdErrors(body.testId),
+        ...(typeof body.is_archived === "boolean"
+          ? []
+          : ["is_archived must be true or false"]),
+      ];
+
+    case "delete":
+      return [
+        ...testIdErrors(body.testId),
+        ...(typeof body.deleteOrphanedQuestions === "boolean"
+          ? []
+          : ["deleteOrphanedQuestions must be true or false"]),
+      ];
+
+    case "revise": {
+      const errors = testIdErrors(body.testId);
+      if (!Array.isArray(body.sections) || body.sections.length === 0) {
+        errors.push("sections are missing");
+      } else {
+        body.sections.forEach((section: unknown, index) => {
+          const label = `Module ${index + 1}`;
+          if (!isObject(section) || !isString(section.test_section_id)) {
+            errors.push(`${label} is malformed`);
+            return;
+          }
+          // Every question may be removed from a section, so an empty list is allowed
+          if (!Array.isArray(section.questions)) {
+            errors.push(`${label} has no question list`);
+            return;
+          }
+          section.questions.forEach((question, questionIndex) =>
+            errors.push(
+              ...questionErrors(
+                question,
+                `${label} question ${questionIndex + 1}`
+              )
+            )
+          );
+        });
+      }
+      if (
+        !Array.isArray(body.changeIds) ||
+        body.changeIds.length === 0 ||
+        !body.changeIds.every(isString)
+      ) {
+        errors.push("changeIds must list the changes to apply");
+      }
+      return errors;
+    }
+
+    default:
+      return [`Unknown action "${String(body.action)}"`];
+  }
+}
+
+function pickFields<T extends object>(value: T, fields: (keyof T)[]): T {
+  return Object.fromEntries(
+    fields
+      .filter((field) => field in value)
+      .map((field) => [field, value[field]])
+  ) as T;
+}
+
+const pickQuestionFields = (question: Question) =>
+  pickFields(question, QUESTION_FIELDS);
+
+/**
+ * A copy of a valid request (see uploadRequestErrors) that keeps only the
+ * fields each question, test and section may set.
+ */
+export function pickUploadRequestFields(request: UploadRequest): UploadRequest {
+  switch (request.action) {
+    case "create":
+      return {
+        action: "create",
+        test: pickFields(request.test, TEST_FIELDS),
+        modules: request.modules.map((moduleData) => ({
+          moduleNumber: moduleData.moduleNumber,
+          questions: moduleData.questions.map(pickQuestionFields),
+          ...(moduleData.section && {
+            section: pickFields(moduleData.section, SECTION_FIELDS),
+          }),
+        })),
+      };
+
+    case "update":
+      return {
+        action: "update",
+        questions: request.questions.map(pickQuestionFields),
+      };
+
+    case "revise":
+      return {
+        action: "revise",
+        testId: request.testId,
+        changeIds: request.changeIds,
+        sections: request.sections.map((section) => ({
+          test_section_id: section.test_section_id,
+          questions: section.questions.map(pickQuestionFields),
+        })),
+      };
+
+    default:
+      return request;
+  }
+}
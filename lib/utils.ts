@@ -1,23 +1,53 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { Question } from "./supabase";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+// Decodes named and numeric character references without a DOM, for code
+// that also runs on the server or in the CLI
+function decodeEntityReferences(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, name: string) => {
+    if (name.startsWith("#")) {
+      const code =
+        name[1].toLowerCase() === "x"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? match;
+  });
+}
+
 export function decodeHtmlEntities(text: string): string {
   if (!text) return text;
 
   // First, decode HTML entities to get a clean string.
-  const textArea = document.createElement("textarea");
-  textArea.innerHTML = text;
-  const decodedText = textArea.value;
+  let decodedText: string;
+  if (typeof document === "undefined") {
+    decodedText = decodeEntityReferences(text);
+  } else {
+    const textArea = document.createElement("textarea");
+    textArea.innerHTML = text;
+    decodedText = textArea.value;
+  }
 
   // Then, format any legacy dollar amounts into proper LaTeX.
   return formatLegacyDollarAmounts(decodedText);
 }
 
-function formatLegacyDollarAmounts(text: string): string {
+export function formatLegacyDollarAmounts(text: string): string {
   if (!text) return text;
 
   // Pattern to match legacy dollar amounts: $$[number/decimal]$
@@ -27,3 +57,24 @@ function formatLegacyDollarAmounts(text: string): string {
   // This will render the number as a KaTeX math element.
   return text.replace(dollarAmountPattern, (_match, number) => `\$$${number}$`);
 }
+
+type AnswerKey = Pick<Question, "question_type" | "correct_answer">;
+
+// Zero-based indices of the correct choices; empty for numeric questions
+export function correctChoiceIndices(question: AnswerKey): number[] {
+  if (question.question_type === "numeric") return [];
+
+  return question.correct_answer
+    .split(",")
+    .map((value) => Number(value) - 1)
+    .filter((index) => Number.isInteger(index) && index >= 0);
+}
+
+// The correct answer as authors write it: "B", "A, C", or the numeric value
+export function formatCorrectAnswer(question: AnswerKey): string {
+  if (question.question_type === "numeric") return question.correct_answer;
+
+  return correctChoiceIndices(question)
+    .map((index) => String.fromCharCode(65 + index))
+    .join(", ");
+}
@@ -0,0 +1,55 @@
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  sheet: string;
+  // 1-based worksheet row, omitted for sheet-level problems
+  row?: number;
+  // Cell address without the sheet prefix (e.g. "J14")
+  cell?: string;
+  reference_id?: string;
+  // Question field the problem was found in (e.g. "question_text")
+  field?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+}
+
+export function createReport(issues: ValidationIssue[] = []): ValidationReport {
+  return { issues };
+}
+
+export function mergeReports(...reports: ValidationReport[]): ValidationReport {
+  return createReport(reports.flatMap((report) => report.issues));
+}
+
+export function countIssues(report: ValidationReport): {
+  errors: number;
+  warnings: number;
+} {
+  let errors = 0;
+  let warnings = 0;
+  for (const issue of report.issues) {
+    if (issue.severity === "error") errors++;
+    else warnings++;
+  }
+  return { errors, warnings };
+}
+
+export function hasErrors(report: ValidationReport): boolean {
+  return report.issues.some((issue) => issue.severity === "error");
+}
+
+// Formats an issue as "Sheet1!J14: message", falling back to the sheet name
+// when the problem is not tied to a single cell.
+export function formatIssueLocation(issue: ValidationIssue): string {
+  if (issue.cell) return `${issue.sheet}!${issue.cell}`;
+  if (issue.row) return `${issue.sheet} row ${issue.row}`;
+  return issue.sheet;
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return `${formatIssueLocation(issue)}: ${issue.message}`;
+}
@@ -0,0 +1,173 @@
+import type * as XLSX from "xlsx";
+
+export interface SheetImage {
+  // Zero-based worksheet row and column of the cell the image is anchored to
+  row: number;
+  col: number;
+  fileName: string;
+  // null for formats browsers cannot show, such as .emf, .wmf and .tiff
+  contentType: string | null;
+  data: Uint8Array;
+}
+
+// Raw zip entries are only present when the workbook is read with bookFiles
+type WorkBookWithFiles = XLSX.WorkBook & {
+  files?: Record<string, { content?: Uint8Array | number[] }>;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+function readEntry(
+  workbook: WorkBookWithFiles,
+  path: string
+): Uint8Array | null {
+  const entry = workbook.files?.[path] ?? workbook.files?.[`/${path}`];
+  if (!entry?.content) return null;
+  return entry.content instanceof Uint8Array
+    ? entry.content
+    : Uint8Array.from(entry.content);
+}
+
+function readXml(workbook: WorkBookWithFiles, path: string): string | null {
+  const data = readEntry(workbook, path);
+  return data ? new TextDecoder().decode(data) : null;
+}
+
+// Matches an element regardless of its namespace prefix (e.g. <xdr:from> or <from>)
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${name}\\b[^>]*?(?:/>|>[\\s\\S]*?</(?:\\w+:)?${name}>)`,
+    "g"
+  );
+  return xml.match(pattern) || [];
+}
+
+function attribute(element: string, name: string): string | undefined {
+  return element.match(new RegExp(`\\s(?:\\w+:)?${name}="([^"]*)"`))?.[1];
+}
+
+function textOf(xml: string, name: string): string | undefined {
+  return xml.match(
+    new RegExp(`<(?:\\w+:)?${name}>([^<]*)</(?:\\w+:)?${name}>`)
+  )?.[1];
+}
+
+// Resolves a relationship target relative to the part that declares it
+function resolvePath(partPath: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+
+  const segments = partPath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment !== ".") segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+function relsPathFor(partPath: string): string {
+  const segments = partPath.split("/");
+  const fileName = segments.pop();
+  return [...segments, "_rels", `${fileName}.rels`].join("/");
+}
+
+function readRelationships(
+  workbook: WorkBookWithFiles,
+  partPath: string
+): { id: string; type: string; target: string }[] {
+  const xml = readXml(workbook, relsPathFor(partPath));
+  if (!xml) return [];
+
+  return elements(xml, "Relationship").map((rel) => ({
+    id: attribute(rel, "Id") || "",
+    type: attribute(rel, "Type") || "",
+    target: resolvePath(partPath, attribute(rel, "Target") || ""),
+  }));
+}
+
+function findSheetPath(
+  workbook: WorkBookWithFiles,
+  sheetName: string
+): string | null {
+  const xml = readXml(workbook, "xl/workbook.xml");
+  if (!xml) return null;
+
+  const sheet = elements(xml, "sheet").find(
+    (element) => attribute(element, "name") === sheetName
+  );
+  const relationshipId = sheet && attribute(sheet, "id");
+  if (!relationshipId) return null;
+
+  return (
+    readRelationships(workbook, "xl/workbook.xml").find(
+      (rel) => rel.id === relationshipId
+    )?.target ?? null
+  );
+}
+
+/**
+ * Extracts the pictures placed on a worksheet's drawing layer along with the
+ * cell each one is anchored to. Only .xlsx workbooks read with `bookFiles`
+ * carry drawings; anything else returns an empty list.
+ */
+export function extractSheetImages(
+  workbook: XLSX.WorkBook,
+  sheetName: string
+): SheetImage[] {
+  const book = workbook as WorkBookWithFiles;
+  const sheetPath = findSheetPath(book, sheetName);
+  if (!sheetPath) return [];
+
+  const images: SheetImage[] = [];
+  const drawingPaths = readRelationships(book, sheetPath)
+    .filter((rel) => rel.type.endsWith("/drawing"))
+    .map((rel) => rel.target);
+
+  for (const drawingPath of drawingPaths) {
+    const xml = readXml(book, drawingPath);
+    if (!xml) continue;
+    const relationships = readRelationships(book, drawingPath);
+
+    // Absolute anchors are not tied to a cell, so they cannot be matched to a question
+    const anchors = [
+      ...elements(xml, "twoCellAnchor"),
+      ...elements(xml, "oneCellAnchor"),
+    ];
+
+    for (const anchor of anchors) {
+      const [from] = elements(anchor, "from");
+      const [blip] = elements(anchor, "blip");
+      const embedId = blip && attribute(blip, "embed");
+      const mediaPath = relationships.find((rel) => rel.id === embedId)?.target;
+      const data = mediaPath && readEntry(book, mediaPath);
+      if (!from || !mediaPath || !data) continue;
+
+      const fileName = mediaPath.split("/").pop() || mediaPath;
+      const extension = fileName.split(".").pop()?.toLowerCase() || "";
+
+      images.push({
+        row: Number(textOf(from, "row") || 0),
+        col: Number(textOf(from, "col") || 0),
+        fileName,
+        contentType: CONTENT_TYPES[extension] ?? null,
+        data,
+      });
+    }
+  }
+
+  // Keep images in reading order so several figures in one cell stay in sequence
+  return images.sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+export function toDataUrl(image: { contentType: string; data: Uint8Array }) {
+  let binary = "";
+  for (const byte of image.data) binary += String.fromCharCode(byte);
+  return `data:${image.contentType};base64,${btoa(binary)}`;
+}
@@ -0,0 +1,224 @@
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import { load as loadYaml } from "js-yaml";
+import type { TestDetails } from "../lib/test-details";
+import type { SectionSettings } from "../lib/test-sections";
+import { TEST_TEMPLATES, type TestTemplateId } from "../lib/test-templates";
+
+export interface ModuleEntry {
+  // Absolute path of the workbook or CSV file
+  file: string;
+  // Sheet to read; the first sheet when omitted
+  sheet?: string;
+  // Overrides the template's settings for this module's section
+  section?: SectionSettings;
+}
+
+export interface TestEntry {
+  // Where the test came from, e.g. "manifest.yaml › tests[2]" or a folder name
+  source: string;
+  details: Omit<TestDetails, "is_full_test">;
+  template?: TestTemplateId;
+  modules: ModuleEntry[];
+}
+
+const WORKBOOK_EXTENSIONS = [".xlsx", ".xls", ".csv"];
+
+const isWorkbook = (name: string) =>
+  WORKBOOK_EXTENSIONS.includes(extname(name).toLowerCase()) &&
+  // Lock files Excel leaves next to open workbooks
+  !name.startsWith("~$");
+
+// "Module 10" sorts after "Module 9"
+const byName = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function optionalString(
+  entry: Record<string, unknown>,
+  field: string,
+  source: string
+): string | undefined {
+  const value = entry[field];
+  if (value === undefined || value === null) return undefined;
+  // YAML reads unquoted dates such as 2026-11-07 as Date objects
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`${source}: ${field} must be text`);
+  }
+  return String(value);
+}
+
+function optionalBoolean(
+  entry: Record<string, unknown>,
+  field: string,
+  source: string
+): boolean | undefined {
+  const value = entry[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "boolean") {
+    throw new Error(`${source}: ${field} must be true or false`);
+  }
+  return value;
+}
+
+function parseSection(value: unknown, source: string): SectionSettings {
+  if (
+    !isObject(value) ||
+    typeof value.name !== "string" ||
+    typeof value.duration_minutes !== "number"
+  ) {
+    throw new Error(
+      `${source}: section needs a name and duration_minutes (and optionally is_desmos_allowed, is_math_section)`
+    );
+  }
+
+  return {
+    name: value.name,
+    duration_minutes: value.duration_minutes,
+    is_desmos_allowed:
+      optionalBoolean(value, "is_desmos_allowed", source) ?? false,
+    is_math_section: optionalBoolean(value, "is_math_section", source) ?? false,
+  };
+}
+
+function parseModule(
+  value: unknown,
+  baseDir: string,
+  source: string
+): ModuleEntry {
+  // A bare path is shorthand for { file: path }
+  if (typeof value === "string") return { file: resolve(baseDir, value) };
+  if (!isObject(value) || typeof value.file !== "string") {
+    throw new Error(`${source}: each module needs a file`);
+  }
+
+  return {
+    file: resolve(baseDir, value.file),
+    sheet: optionalString(value, "sheet", source),
+    section:
+      value.section === undefined
+        ? undefined
+        : parseSection(value.section, source),
+  };
+}
+
+function parseTest(value: unknown, baseDir: string, source: string): TestEntry {
+  if (!isObject(value) || typeof value.title !== "string") {
+    throw new Error(`${source}: each test needs a title`);
+  }
+
+  const template = optionalString(value, "template", source);
+  if (template !== undefined && !(template in TEST_TEMPLATES)) {
+    throw new Error(
+      `${source}: unknown template "${template}" (expected one of ${Object.keys(
+        TEST_TEMPLATES
+      ).join(", ")})`
+    );
+  }
+
+  if (!Array.isArray(value.modules) || value.modules.length === 0) {
+    throw new Error(`${source}: "${value.title}" lists no modules`);
+  }
+
+  return {
+    source,
+    details: {
+      title: value.title,
+      description: optionalString(value, "description", source),
+      reference_id: optionalString(value, "reference_id", source),
+      test_date: optionalString(value, "test_date", source),
+      is_monitored: optionalBoolean(value, "is_monitored", source),
+      is_archived: optionalBoolean(value, "is_archived", source),
+    },
+    template: template as TestTemplateId | undefined,
+    modules: value.modules.map((moduleValue, index) =>
+      parseModule(moduleValue, baseDir, `${source}.modules[${index}]`)
+    ),
+  };
+}
+
+/**
+ * Reads a JSON or YAML manifest listing the tests to upload. Module paths
+ * are relative to the manifest. The manifest is either a list of tests or an
+ * object with a `tests` list.
+ */
+export function loadManifest(path: string): TestEntry[] {
+  const text = readFileSync(path, "utf8");
+  const name = basename(path);
+
+  let manifest: unknown;
+  try {
+    manifest = [".yaml", ".yml"].includes(extname(path).toLowerCase())
+      ? loadYaml(text)
+      : JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `${name} could not be read: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const tests = isObject(manifest) ? manifest.tests : manifest;
+  if (!Array.isArray(tests) || tests.length === 0) {
+    throw new Error(`${name} lists no tests`);
+  }
+
+  const entries = tests.map((test, index) =>
+    parseTest(test, dirname(resolve(path)), `${name} › tests[${index}]`)
+  );
+
+  // Caught here so a clash does not surface halfway through the batch
+  const seen = new Map<string, string>();
+  for (const entry of entries) {
+    const referenceId = entry.details.reference_id;
+    if (!referenceId) continue;
+    const first = seen.get(referenceId);
+    if (first) {
+      throw new Error(
+        `${entry.source}: reference code "${referenceId}" is also used by ${first}`
+      );
+    }
+    seen.set(referenceId, entry.source);
+  }
+
+  return entries;
+}
+
+/**
+ * Builds one test per entry of a directory: each sub-folder becomes a test
+ * whose modules are its workbooks in name order, and each workbook directly
+ * in the directory becomes a test whose modules are its sheets. Tests are
+ * titled after the folder or file name.
+ */
+export function scanDirectory(
+  dir: string,
+  listSheets: (file: string) => string[]
+): TestEntry[] {
+  const entries: TestEntry[] = [];
+
+  for (const name of readdirSync(dir).sort(byName)) {
+    const path = join(dir, name);
+
+    if (statSync(path).isDirectory()) {
+      const files = readdirSync(path).filter(isWorkbook).sort(byName);
+      if (files.length === 0) continue;
+      entries.push({
+        source: `${name}/`,
+        details: { title: name },
+        modules: files.map((file) => ({ file: join(path, file) })),
+      });
+    } else if (isWorkbook(name)) {
+      entries.push({
+        source: name,
+        details: { title: basename(name, extname(name)) },
+        modules: listSheets(path).map((sheet) => ({ file: path, sheet })),
+      });
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,520 @@
+import "./load-env";
+import { readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, relative } from "node:path";
+import { parseArgs } from "node:util";
+import type { WorkBook } from "xlsx";
+import {
+  errorMessage,
+  fetchQuestionsByReferenceIds,
+  testReferenceIdExists,
+  uploadBulkData,
+  type ModuleData,
+  type UploadProgress,
+} from "../lib/database";
+import {
+  applyConflictResolutions,
+  findBankConflicts,
+  findBatchDuplicates,
+  type BatchModule,
+  type ConflictResolution,
+  type QuestionConflict,
+} from "../lib/duplicates";
+import {
+  analyzeColumnAssignments,
+  convertParsedQuestions,
+  hasMappingProblems,
+  parseWorkbookSheets,
+  previewSheetColumns,
+  readWorkbookData,
+  suggestColumnAssignments,
+} from "../lib/excel-parser";
+import { GRID_IN_RULES, type GridInRulesId } from "../lib/grid-in";
+import {
+  createMemoryImageStorage,
+  createSupabaseImageStorage,
+} from "../lib/image-storage";
+import {
+  applyMappingProfile,
+  findMatchingProfile,
+  type ColumnMappingProfile,
+} from "../lib/mapping-profiles";
+import {
+  createMemoryRepository,
+  createSupabaseRepository,
+  type UploadRepository,
+} from "../lib/repository";
+import type { Question } from "../lib/supabase";
+import { createServiceRoleClient } from "../lib/supabase-server";
+import { testDetailsErrors } from "../lib/test-details";
+import { sectionSettingsErrors } from "../lib/test-sections";
+import {
+  checkModuleCount,
+  checkQuestionCounts,
+  isFullTestUpload,
+  templateSectionSettings,
+  TEST_TEMPLATES,
+  type TestTemplate,
+  type TestTemplateId,
+} from "../lib/test-templates";
+import {
+  formatIssue,
+  type ValidationIssue,
+  type ValidationReport,
+} from "../lib/validation";
+import { loadManifest, scanDirectory, type TestEntry } from "./bulk-manifest";
+
+const USAGE = `Usage: npm run bulk-upload -- <directory | manifest.json | manifest.yaml> [options]
+
+A directory holds one sub-folder per test (its workbooks are the modules, in
+name order) and/or one workbook per test (its sheets are the modules).
+
+Options:
+  --dry-run               Run every upload against an in-memory backend; nothing is written
+  --template <id>         Template for tests that do not name one (default: custom)
+                          ${Object.keys(TEST_TEMPLATES).join(", ")}
+  --grid-in-rules <id>    Rules for grid-in answers (default: digital_sat)
+                          ${Object.keys(GRID_IN_RULES).join(", ")}
+  --existing <action>     What to do with questions already in the bank: skip, create or reuse.
+                          Without it, a test with such questions is not uploaded
+  --profiles <file>       JSON list of column mapping profiles for non-standard headers
+  --report <file>         Write the JSON summary to a file instead of stdout
+  -h, --help              Show this help`;
+
+const CONFLICT_RESOLUTIONS: ConflictResolution[] = ["skip", "create", "reuse"];
+
+type TestStatus = "uploaded" | "dry_run" | "invalid" | "failed";
+
+interface ModuleReport {
+  file: string;
+  sheet: string;
+  questions: number;
+  section: string;
+}
+
+interface TestReport {
+  source: string;
+  title: string;
+  reference_id?: string;
+  template: TestTemplateId;
+  status: TestStatus;
+  test_id?: string;
+  total_questions?: number;
+  // Rows a dry run would have written, per table
+  rows?: Record<string, number>;
+  modules: ModuleReport[];
+  errors: string[];
+  warnings: string[];
+}
+
+interface SummaryReport {
+  source: string;
+  dry_run: boolean;
+  started_at: string;
+  finished_at: string;
+  totals: Record<TestStatus, number>;
+  tests: TestReport[];
+}
+
+interface RunContext {
+  dryRun: boolean;
+  template: TestTemplateId;
+  gridInRules: GridInRulesId;
+  existing?: ConflictResolution;
+  profiles: ColumnMappingProfile[];
+  // Reads the real question bank, in dry runs too. Created on first use, so
+  // a dry run without Supabase settings only loses the bank check
+  bank: () => UploadRepository;
+  // Set for real runs; dry runs get a fresh in-memory backend per test
+  client?: ReturnType<typeof createServiceRoleClient>;
+}
+
+interface ParsedModule {
+  file: string;
+  sheet: string;
+  questions: Question[];
+  report: ValidationReport;
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const displayPath = (file: string) => relative(process.cwd(), file) || file;
+
+// Workbooks are read once even when several modules come from their sheets
+const workbooks = new Map<string, WorkBook>();
+
+function openWorkbook(file: string): WorkBook {
+  let workbook = workbooks.get(file);
+  if (!workbook) {
+    workbook = readWorkbookData(readFileSync(file));
+    workbooks.set(file, workbook);
+  }
+  return workbook;
+}
+
+// Same rules as the page: a saved profile wins, otherwise the built-in
+// aliases must map every header without ambiguity
+function parseModule(
+  file: string,
+  requestedSheet: string | undefined,
+  context: RunContext
+): ParsedModule {
+  const workbook = openWorkbook(file);
+  const sheet = requestedSheet ?? workbook.SheetNames[0];
+  const sheetIssue = (message: string): ParsedModule => ({
+    file,
+    sheet,
+    questions: [],
+    report: { issues: [{ severity: "error", sheet, message }] },
+  });
+
+  if (!workbook.Sheets[sheet]) {
+    return sheetIssue(`sheet "${sheet}" does not exist in the workbook`);
+  }
+
+  const headers = previewSheetColumns(workbook.Sheets[sheet]).map(
+    (c) => c.header
+  );
+  const profile = findMatchingProfile(headers, context.profiles);
+  const assignments = profile
+    ? applyMappingProfile(headers, profile)
+    : suggestColumnAssignments(headers);
+  const analysis = analyzeColumnAssignments(assignments);
+
+  if (!profile && headers.some(Boolean) && hasMappingProblems(analysis)) {
+    const problems = [
+      analysis.unmappedHeaders.length > 0 &&
+        `unrecognized columns ${analysis.unmappedHeaders.join(", ")}`,
+      ...analysis.ambiguousFields.map(
+        ({ field, headers }) => `${headers.join(" and ")} both map to ${field}`
+      ),
+      analysis.missingRequired.length > 0 &&
+        `missing ${analysis.missingRequired.join(", ")}`,
+    ].filter(Boolean);
+    return sheetIssue(
+      `columns need a mapping profile (${problems.join(
+        "; "
+      )}); save one in the page and pass it with --profiles`
+    );
+  }
+
+  const [result] = parseWorkbookSheets(workbook, [sheet], {
+    assignments,
+    gridInRules: GRID_IN_RULES[context.gridInRules],
+  });
+
+  return {
+    file,
+    sheet,
+    questions: convertParsedQuestions(result.questions),
+    report: result.report,
+  };
+}
+
+function formatIssues(
+  issues: ValidationIssue[],
+  file: string,
+  severity: ValidationIssue["severity"]
+): string[] {
+  return issues
+    .filter((issue) => issue.severity === severity)
+    .map((issue) => `${basename(file)} › ${formatIssue(issue)}`);
+}
+
+// Logs the first message of each stage, then one each time another tenth of
+// the stage is done, instead of every image and chunk
+function progressLogger(): (progress: UploadProgress) => void {
+  let stage: UploadProgress["stage"] | null = null;
+  let loggedTenths = 0;
+  return (progress) => {
+    const tenths =
+      progress.total > 0
+        ? Math.floor((progress.current / progress.total) * 10)
+        : 0;
+    if (progress.stage === stage && tenths <= loggedTenths) return;
+    stage = progress.stage;
+    loggedTenths = tenths;
+    log(`  ${progress.message}`);
+  };
+}
+
+async function processTest(
+  entry: TestEntry,
+  context: RunContext
+): Promise<TestReport> {
+  const templateId = entry.template ?? context.template;
+  const template: TestTemplate = TEST_TEMPLATES[templateId];
+  const report: TestReport = {
+    source: entry.source,
+    title: entry.details.title,
+    reference_id: entry.details.reference_id,
+    template: templateId,
+    status: "invalid",
+    modules: [],
+    errors: Object.values(testDetailsErrors(entry.details)),
+    warnings: [],
+  };
+
+  let parsed: ParsedModule[];
+  try {
+    parsed = entry.modules.map((moduleEntry) =>
+      parseModule(moduleEntry.file, moduleEntry.sheet, context)
+    );
+  } catch (error) {
+    report.errors.push(`Could not read a module file: ${errorMessage(error)}`);
+    return report;
+  }
+
+  const sections = entry.modules.map(
+    (moduleEntry, index) =>
+      moduleEntry.section ?? templateSectionSettings(template, index + 1)
+  );
+  report.modules = parsed.map((parsedModule, index) => ({
+    file: displayPath(parsedModule.file),
+    sheet: parsedModule.sheet,
+    questions: parsedModule.questions.length,
+    section: sections[index].name,
+  }));
+
+  const batch: BatchModule[] = parsed.map((parsedModule, index) => ({
+    id: String(index),
+    label: `Module ${index + 1} (${basename(parsedModule.file)} › ${
+      parsedModule.sheet
+    })`,
+    sheet: parsedModule.sheet,
+    questions: parsedModule.questions,
+  }));
+  const batchIssues = findBatchDuplicates(batch);
+  const countIssues = checkQuestionCounts(template, batch);
+
+  parsed.forEach((parsedModule, index) => {
+    const issues = [
+      ...parsedModule.report.issues,
+      ...(batchIssues[String(index)] ?? []),
+      ...(countIssues[String(index)] ?? []),
+    ];
+    report.errors.push(...formatIssues(issues, parsedModule.file, "error"));
+    report.warnings.push(...formatIssues(issues, parsedModule.file, "warning"));
+    report.errors.push(
+      ...sectionSettingsErrors(sections[index]).map(
+        (error) => `Module ${index + 1}: section ${error}`
+      )
+    );
+  });
+
+  const moduleCountProblem = checkModuleCount(template, parsed.length);
+  if (moduleCountProblem) report.errors.push(moduleCountProblem);
+  if (report.errors.length > 0) return report;
+
+  let modules: ModuleData[] = parsed.map((parsedModule, index) => ({
+    moduleNumber: index + 1,
+    questions: parsedModule.questions,
+    section: sections[index],
+  }));
+
+  let conflicts: QuestionConflict[] = [];
+  try {
+    const referenceId = entry.details.reference_id;
+    if (
+      referenceId &&
+      (await testReferenceIdExists(referenceId, {
+        repository: context.bank(),
+      }))
+    ) {
+      report.errors.push(
+        `A test with reference code "${referenceId}" already exists`
+      );
+      return report;
+    }
+
+    const questions = modules.flatMap((moduleData) => moduleData.questions);
+    conflicts = findBankConflicts(
+      questions,
+      await fetchQuestionsByReferenceIds(
+        questions.map((q) => q.reference_id),
+        { repository: context.bank() }
+      )
+    );
+  } catch (error) {
+    // Like the page, a dry run goes ahead without the bank check
+    if (!context.dryRun) {
+      report.errors.push(errorMessage(error));
+      report.status = "failed";
+      return report;
+    }
+    report.warnings.push(
+      `The question bank could not be checked, so existing questions and reference codes were not compared: ${errorMessage(
+        error
+      )}`
+    );
+  }
+
+  if (conflicts.length > 0) {
+    const ids = conflicts.map((c) => c.reference_id).join(", ");
+    const resolution = context.existing;
+    if (!resolution) {
+      report.errors.push(
+        `${conflicts.length} question(s) are already in the question bank (${ids}); choose what to do with them with --existing skip|create|reuse`
+      );
+      return report;
+    }
+    modules = applyConflictResolutions(
+      modules,
+      conflicts,
+      Object.fromEntries(conflicts.map((c) => [c.reference_id, resolution]))
+    );
+    report.warnings.push(
+      `${conflicts.length} question(s) already in the bank were handled with "${resolution}": ${ids}`
+    );
+  }
+
+  try {
+    const test = {
+      ...entry.details,
+      is_full_test: isFullTestUpload(template, modules.length),
+    };
+
+    if (context.dryRun) {
+      const repository = createMemoryRepository();
+      const result = await uploadBulkData(modules, test, progressLogger(), {
+        repository,
+        imageStorage: createMemoryImageStorage(),
+      });
+      report.total_questions = result.total_questions;
+      report.rows = Object.fromEntries(
+        Object.entries(repository.tables).map(([table, rows]) => [
+          table,
+          rows.length,
+        ])
+      );
+      report.status = "dry_run";
+      return report;
+    }
+
+    const result = await uploadBulkData(modules, test, progressLogger(), {
+      repository: createSupabaseRepository(context.client),
+      imageStorage: createSupabaseImageStorage(context.client),
+    });
+    report.test_id = result.test_id;
+    report.total_questions = result.total_questions;
+    report.status = "uploaded";
+  } catch (error) {
+    // uploadBulkData has already rolled back what this test wrote
+    report.errors.push(errorMessage(error));
+    report.status = "failed";
+  }
+
+  return report;
+}
+
+function usageError(message: string): never {
+  log(`${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "dry-run": { type: "boolean", default: false },
+      template: { type: "string", default: "custom" },
+      "grid-in-rules": { type: "string", default: "digital_sat" },
+      existing: { type: "string" },
+      profiles: { type: "string" },
+      report: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) {
+    usageError("Pass exactly one directory or manifest file.");
+  }
+  if (!(values.template in TEST_TEMPLATES)) {
+    usageError(`Unknown template "${values.template}".`);
+  }
+  if (!(values["grid-in-rules"] in GRID_IN_RULES)) {
+    usageError(`Unknown grid-in rules "${values["grid-in-rules"]}".`);
+  }
+  if (
+    values.existing !== undefined &&
+    !CONFLICT_RESOLUTIONS.includes(values.existing as ConflictResolution)
+  ) {
+    usageError(`--existing must be one of ${CONFLICT_RESOLUTIONS.join(", ")}.`);
+  }
+
+  const [source] = positionals;
+  const startedAt = new Date().toISOString();
+
+  const entries = statSync(source).isDirectory()
+    ? scanDirectory(source, (file) => openWorkbook(file).SheetNames)
+    : loadManifest(source);
+  if (entries.length === 0) {
+    throw new Error(`No workbooks found in ${source}`);
+  }
+
+  const dryRun = values["dry-run"];
+  // Dry runs only read, which the anon key allows; real runs need the service role
+  const client = dryRun ? undefined : createServiceRoleClient();
+  let bank: UploadRepository | undefined;
+  const context: RunContext = {
+    dryRun,
+    template: values.template as TestTemplateId,
+    gridInRules: values["grid-in-rules"] as GridInRulesId,
+    existing: values.existing as ConflictResolution | undefined,
+    profiles: values.profiles
+      ? (JSON.parse(
+          readFileSync(values.profiles, "utf8")
+        ) as ColumnMappingProfile[])
+      : [],
+    bank: () => (bank ??= createSupabaseRepository(client)),
+    client,
+  };
+
+  // One test at a time, so a later test sees the questions an earlier one added
+  const tests: TestReport[] = [];
+  for (const [index, entry] of entries.entries()) {
+    log(
+      `[${index + 1}/${entries.length}] ${entry.details.title} (${
+        entry.source
+      })`
+    );
+    const report = await processTest(entry, context);
+    for (const error of report.errors) log(`  error: ${error}`);
+    log(`  ${report.status}`);
+    tests.push(report);
+  }
+
+  const totals: Record<TestStatus, number> = {
+    uploaded: 0,
+    dry_run: 0,
+    invalid: 0,
+    failed: 0,
+  };
+  for (const test of tests) totals[test.status]++;
+
+  const summary: SummaryReport = {
+    source: displayPath(source),
+    dry_run: dryRun,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    totals,
+    tests,
+  };
+  const json = JSON.stringify(summary, null, 2);
+  if (values.report) {
+    writeFileSync(values.report, `${json}\n`);
+    log(`Summary written to ${values.report}`);
+  } else {
+    process.stdout.write(`${json}\n`);
+  }
+
+  if (totals.invalid > 0 || totals.failed > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  log(`Bulk upload failed: ${errorMessage(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,7 @@
+import { existsSync } from "node:fs";
+import { loadEnvFile } from "node:process";
+
+// Imported first so the variables are set before any module reads them. The
+// file is optional: the variables may come from the shell, and --help and
+// dry runs of local files need none. Variables already set are kept.
+if (existsSync(".env.local")) loadEnvFile(".env.local");
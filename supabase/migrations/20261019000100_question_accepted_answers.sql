@@ -0,0 +1,6 @@
+-- Every accepted form of a grid-in answer, e.g.
+-- [{"value": "2/3", "kind": "fraction", "generated": false},
+--  {"value": ".6667", "kind": "decimal", "generated": true}]
+-- correct_answer keeps the first form for existing consumers.
+alter table public.questions
+  add column if not exists accepted_answers jsonb;
@@ -0,0 +1,9 @@
+-- "Select all that apply" questions. correct_answer holds the 1-based indices
+-- of every correct choice, comma-separated (e.g. '1,3').
+do $$
+begin
+  if exists (select 1 from pg_type where typname = 'question_type') then
+    alter type public.question_type add value if not exists 'multi_select';
+  end if;
+end
+$$;
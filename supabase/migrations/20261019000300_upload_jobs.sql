@@ -0,0 +1,20 @@
+-- Upload runs recorded by /api/uploads as they progress. Resuming or
+-- discarding a run goes by its upload_job_id, so a rollback only deletes rows
+-- the server wrote itself. Row-level security is enabled without policies:
+-- only the service role can read or write the table.
+create table if not exists public.upload_jobs (
+  upload_job_id uuid primary key,
+  created_by uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'in_progress'
+    check (status in ('in_progress', 'complete', 'rolled_back')),
+  test jsonb not null,
+  modules jsonb not null,
+  question_ids jsonb not null default '{}'::jsonb,
+  test_id uuid,
+  test_section_ids jsonb not null default '[]'::jsonb,
+  linked_orders jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.upload_jobs enable row level security;